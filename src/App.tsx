@@ -1,5 +1,12 @@
 import React, { useState, useEffect, useCallback, useMemo } from "react";
-import { useAppStore, TransactionType } from "./store";
+import { useAppStore, Account, Transaction, TransactionType } from "./store";
+import {
+  ADJUSTMENT_REASONS,
+  AdjustmentReason,
+  Purpose,
+  ScheduleTemplate,
+  TransactionSplit,
+} from "./db";
 import { format } from "date-fns";
 import {
   DollarSign,
@@ -16,29 +23,79 @@ import {
   Smartphone,
   Wallet,
   HelpCircle,
-  Briefcase,
-  User as UserIcon,
   Sun,
   Moon,
   ChevronDown,
+  ArchiveRestore,
+  PiggyBank,
+  Settings,
+  Download,
+  Upload,
+  Package,
+  Repeat,
+  Briefcase,
+  Split,
+  ChevronRight,
+  CloudUpload,
+  History,
 } from "lucide-react";
 import cn from "classnames";
+import { findTransferLegs } from "./ledger";
+import {
+  formatCurrency,
+  formatCurrencyChange,
+  currencySymbol,
+  formatPricePerUnit,
+  formatWeight,
+  formatWeightChange,
+  formatProductName,
+  formatPurpose,
+} from "./format";
+import SyncStatus from "./components/SyncStatus";
+import DeleteAccountDialog from "./components/DeleteAccountDialog";
+import StockTakeDialog from "./components/StockTakeDialog";
+import ShrinkageReport from "./components/ShrinkageReport";
+import SettingsDialog from "./components/SettingsDialog";
+import ChartsDashboard from "./components/ChartsDashboard";
+import TransactionFilterBar from "./components/TransactionFilterBar";
+import ExportDialog, { ExportDataset } from "./components/ExportDialog";
+import ImportDialog from "./components/ImportDialog";
+import ProductBreakdown from "./components/ProductBreakdown";
+import BudgetProgressList from "./components/BudgetProgressList";
+import RecurringSchedules from "./components/RecurringSchedules";
+import ScheduleDialog from "./components/ScheduleDialog";
+import CategoryIcon from "./components/CategoryIcon";
+import CategoryManager from "./components/CategoryManager";
+import SplitEditor from "./components/SplitEditor";
+import VirtualList from "./components/VirtualList";
+import AuditDrawer from "./components/AuditDrawer";
+import { AuditTarget } from "./audit";
+import { categoryTree } from "./categories";
+import { applyFilters, isFiltered } from "./filters";
+import { formatDay, historyItems } from "./history";
+import { SCHEDULE_TYPES } from "./schedules";
+import { parseSplitLines, SplitLineInput, splitsBalance } from "./splits";
+import {
+  DEFAULT_BUSINESS_PERCENT,
+  PURPOSES,
+  purposeOf,
+  summarizePurpose,
+} from "./purpose";
+import { countedProductIds, massTransactions } from "./inventory";
+import { useSettingsStore } from "./settings";
+import { notifyError } from "./notify";
+import { CURRENCIES, currencyOf, findRate, inBaseCurrency } from "./currency";
+import {
+  displayUnitFor,
+  fromBaseQuantity,
+  isCountUnit,
+  MASS_UNITS,
+  MassUnit,
+  toBaseQuantity,
+} from "./units";
+import { useTransactionFilters } from "./hooks/use-transaction-filters";
 
 // --- Helper Functions ---
-const formatCurrency = (value: number): string =>
-  new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-  }).format(value);
-
-const formatWeight = (value: number): string => `${value.toFixed(2)}g`;
-
-const formatCurrencyChange = (value: number): string =>
-  `${value >= 0 ? "+" : ""}${formatCurrency(value)}`;
-
-const formatWeightChange = (value: number): string =>
-  `${value >= 0 ? "+" : ""}${formatWeight(value)}`;
-
 const getRatingClass = (rating: number | null): string => {
   if (rating === null) return "text-ratio-nodata";
   if (rating >= 10) return "text-ratio-good";
@@ -65,43 +122,60 @@ const getAccountIcon = (type: string) => {
   );
 };
 
-const getCategoryIcon = (category?: string) => {
-  if (!category) return <HelpCircle className="h-4 w-4 text-gray-400" />;
-  const lowerCat = category.toLowerCase();
-  const icons = {
-    business: <Briefcase className="h-4 w-4 text-blue-500" />,
-    personal: <UserIcon className="h-4 w-4 text-emerald-500" />,
-    groceries: <HelpCircle className="h-4 w-4 text-amber-500" />,
-    income: <HelpCircle className="h-4 w-4 text-emerald-500" />,
-    supplies: <HelpCircle className="h-4 w-4 text-indigo-500" />,
-    utilities: <HelpCircle className="h-4 w-4 text-violet-500" />,
-    other: <HelpCircle className="h-4 w-4 text-gray-400" />,
-  };
-  return (
-    icons[lowerCat as keyof typeof icons] || (
-      <HelpCircle className="h-4 w-4 text-gray-400" />
-    )
-  );
-};
-
 function App() {
   // --- UI State ---
   const [darkMode, setDarkMode] = useState(false);
   const [showAccountForm, setShowAccountForm] = useState(false);
+  const baseCurrency = useSettingsStore((state) => state.baseCurrency);
+  const exchangeRates = useSettingsStore((state) => state.exchangeRates);
   const [accountFormData, setAccountFormData] = useState({
     name: "",
     type: "Bank",
-    current_balance: "",
+    opening_balance: "",
+    currency: baseCurrency,
   });
   const [editingAccountId, setEditingAccountId] = useState<string | null>(null);
+  const [deletingAccount, setDeletingAccount] = useState<Account | null>(null);
+  const [showArchivedAccounts, setShowArchivedAccounts] = useState(false);
+  const [showStockTake, setShowStockTake] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showCategories, setShowCategories] = useState(false);
+  // Set when "Make recurring" is chosen on a history row
+  const [scheduleTemplate, setScheduleTemplate] =
+    useState<ScheduleTemplate | null>(null);
+  const [auditTarget, setAuditTarget] = useState<AuditTarget | null>(null);
+  const [exportDataset, setExportDataset] = useState<ExportDataset | null>(
+    null
+  );
 
   // --- Transaction Form State ---
   const [formType, setFormType] = useState<TransactionType>("Sale");
   const [amountInput, setAmountInput] = useState("");
   const [weightInput, setWeightInput] = useState("");
+  const massUnit = useSettingsStore((state) => state.massUnit);
+  // Unit mass weights are entered in; counted products always use "each"
+  const [weightUnit, setWeightUnit] = useState<MassUnit>(massUnit);
   const [notesInput, setNotesInput] = useState("");
   const [selectedAccountId, setSelectedAccountId] = useState<string>("");
-  const [selectedCategory, setSelectedCategory] = useState<string>("Personal");
+  const [toAccountId, setToAccountId] = useState<string>("");
+  const [feeInput, setFeeInput] = useState("");
+  const [receivedInput, setReceivedInput] = useState("");
+  const [selectedCategory, setSelectedCategory] = useState<string>("");
+  const [selectedPurpose, setSelectedPurpose] = useState<Purpose>("Personal");
+  const [businessPercentInput, setBusinessPercentInput] = useState(
+    String(DEFAULT_BUSINESS_PERCENT)
+  );
+  // null unless the amount is split across categories
+  const [splitLines, setSplitLines] = useState<SplitLineInput[] | null>(null);
+  // The history row whose split lines are shown
+  const [expandedSplitId, setExpandedSplitId] = useState<number | null>(null);
+  // null until a default is picked; "" is an explicit "no product"
+  const [selectedProductId, setSelectedProductId] = useState<string | null>(
+    null
+  );
+  const [selectedReason, setSelectedReason] =
+    useState<AdjustmentReason>("Spillage");
   const [isEditingTransaction, setIsEditingTransaction] = useState<
     number | null
   >(null);
@@ -111,26 +185,179 @@ function App() {
     session,
     user,
     accounts,
+    products,
+    categories,
     transactions,
+    accountBalances,
+    transactionCounts,
+    runningBalances,
+    baseAmounts,
     overallNetCash,
+    missingRates,
     weightOnHand,
+    productSummaries,
+    budgets,
+    budgetProgress,
+    serverOverview,
+    schedules,
     dollarPerGramRatio,
+    saleCosts,
+    grossProfit,
+    grossMargin,
+    averageCostPerGram,
     isLoading,
+    historyCursor,
+    isLoadingOlder,
+    pendingTransactionIds,
     signOut,
+    fetchOlderTransactions,
     addTransaction,
     updateTransaction,
     deleteTransaction,
+    addTransfer,
+    updateTransfer,
+    importTransactions,
     addAccount,
     updateAccount,
     deleteAccount,
+    addProduct,
+    updateProduct,
+    addCategory,
+    updateCategory,
+    mergeCategory,
+    addBudget,
+    updateBudget,
+    deleteBudget,
+    addSchedule,
+    updateSchedule,
+    deleteSchedule,
+    recordOccurrence,
+    skipOccurrence,
   } = useAppStore();
 
+  const activeAccounts = useMemo(
+    () => accounts.filter((acc) => !acc.archived),
+    [accounts]
+  );
+  const archivedAccounts = useMemo(
+    () => accounts.filter((acc) => acc.archived),
+    [accounts]
+  );
+  const activeProducts = useMemo(
+    () => products.filter((product) => !product.archived),
+    [products]
+  );
+  const activeCategories = useMemo(
+    () => categories.filter((cat) => !cat.archived),
+    [categories]
+  );
+  const categoriesByName = useMemo(
+    () => new Map(categories.map((cat) => [cat.name, cat])),
+    [categories]
+  );
+  const accountsById = useMemo(
+    () => new Map(accounts.map((acc) => [acc.id, acc])),
+    [accounts]
+  );
+  const productsById = useMemo(
+    () => new Map(products.map((product) => [product.id, product])),
+    [products]
+  );
+  const transactionsById = useMemo(
+    () => new Map(transactions.map((tx) => [tx.id, tx])),
+    [transactions]
+  );
+  const defaultCategory =
+    (
+      activeCategories.find((cat) => cat.name === "Personal") ??
+      activeCategories[0]
+    )?.name ?? "";
+  const entryUnit = displayUnitFor(
+    products.find((product) => product.id === selectedProductId)?.unit,
+    weightUnit
+  );
+  const productUnits = useMemo(
+    () =>
+      Object.fromEntries(
+        products.map((product) => [
+          product.id,
+          displayUnitFor(product.unit, massUnit),
+        ])
+      ),
+    [products, massUnit]
+  );
+  const fromCurrency = currencyOf(
+    accounts.find((acc) => acc.id === selectedAccountId)
+  );
+  const toCurrency = currencyOf(accounts.find((acc) => acc.id === toAccountId));
+  const amountSymbol = currencySymbol(fromCurrency);
+  // Only spending can be split across categories
+  const canSplit = formType === "Expense" || formType === "Purchase";
+  const isSplit = canSplit && splitLines !== null;
+  // Cross-currency transfers land as a different amount; suggest one from
+  // today's rate
+  const suggestedReceived = useMemo(() => {
+    const amount = parseFloat(amountInput);
+    const rate = findRate(exchangeRates, fromCurrency, toCurrency, Date.now());
+    return isNaN(amount) || rate === null
+      ? null
+      : Math.round(amount * rate * 100) / 100;
+  }, [amountInput, exchangeRates, fromCurrency, toCurrency]);
+  const reportingTransactions = useMemo(
+    () => inBaseCurrency(transactions, baseAmounts),
+    [transactions, baseAmounts]
+  );
+  const shrinkageTransactions = useMemo(
+    () => massTransactions(transactions, countedProductIds(products)),
+    [transactions, products]
+  );
+
+  // --- Filtering ---
+  const { filters, setFilters } = useTransactionFilters();
+  const filteredTransactions = useMemo(
+    () => applyFilters(transactions, filters, massUnit),
+    [transactions, filters, massUnit]
+  );
+  // Older pages are pulled from the server as the history is scrolled
+  const history = useMemo(
+    () =>
+      historyItems(
+        filteredTransactions,
+        baseAmounts,
+        filters.sort === "newest" || filters.sort === "oldest"
+      ),
+    [filteredTransactions, baseAmounts, filters.sort]
+  );
+  const categoryOptions = useMemo(
+    () =>
+      [
+        ...new Set(
+          transactions
+            .map((tx) => tx.category)
+            .filter((cat): cat is string => !!cat)
+        ),
+      ].sort(),
+    [transactions]
+  );
+
   // --- Effects ---
   useEffect(() => {
-    if (accounts.length > 0 && !selectedAccountId) {
-      setSelectedAccountId(accounts[0].id);
+    if (activeAccounts.length > 0 && !selectedAccountId) {
+      setSelectedAccountId(activeAccounts[0].id);
+    }
+  }, [activeAccounts, selectedAccountId]);
+
+  useEffect(() => {
+    if (activeProducts.length > 0 && selectedProductId === null) {
+      setSelectedProductId(activeProducts[0].id);
     }
-  }, [accounts, selectedAccountId]);
+  }, [activeProducts, selectedProductId]);
+
+  useEffect(() => {
+    if (!selectedCategory && defaultCategory) {
+      setSelectedCategory(defaultCategory);
+    }
+  }, [defaultCategory, selectedCategory]);
 
   useEffect(() => {
     document.documentElement.classList.toggle("dark", darkMode);
@@ -151,17 +378,23 @@ function App() {
     const accountData = {
       name: accountFormData.name,
       type: accountFormData.type,
-      current_balance: parseFloat(accountFormData.current_balance) || 0,
+      opening_balance: parseFloat(accountFormData.opening_balance) || 0,
+      currency: accountFormData.currency,
     };
 
     if (editingAccountId) {
       await updateAccount(editingAccountId, accountData);
     } else {
-      await addAccount(accountData);
+      await addAccount({ ...accountData, archived: false });
     }
 
     setShowAccountForm(false);
-    setAccountFormData({ name: "", type: "Bank", current_balance: "" });
+    setAccountFormData({
+      name: "",
+      type: "Bank",
+      opening_balance: "",
+      currency: baseCurrency,
+    });
     setEditingAccountId(null);
   };
 
@@ -169,15 +402,25 @@ function App() {
     setAccountFormData({
       name: account.name,
       type: account.type,
-      current_balance: account.current_balance.toString(),
+      opening_balance: account.opening_balance.toString(),
+      currency: currencyOf(account),
     });
     setEditingAccountId(account.id);
     setShowAccountForm(true);
   };
 
-  const handleDeleteAccount = async (id: string) => {
-    if (window.confirm("Are you sure you want to delete this account?")) {
-      await deleteAccount(id);
+  const handleDeleteAccount = async (reassignToId?: string) => {
+    if (!deletingAccount) return;
+    if (await deleteAccount(deletingAccount.id, reassignToId)) {
+      if (selectedAccountId === deletingAccount.id) setSelectedAccountId("");
+      setDeletingAccount(null);
+    }
+  };
+
+  const handleArchiveAccount = async (id: string, archived: boolean) => {
+    if (await updateAccount(id, { archived })) {
+      if (archived && selectedAccountId === id) setSelectedAccountId("");
+      setDeletingAccount(null);
     }
   };
 
@@ -185,65 +428,263 @@ function App() {
     setFormType("Sale");
     setAmountInput("");
     setWeightInput("");
+    setWeightUnit(massUnit);
     setNotesInput("");
-    setSelectedAccountId(accounts.length > 0 ? accounts[0].id : "");
-    setSelectedCategory("Personal");
+    setFeeInput("");
+    setReceivedInput("");
+    setToAccountId("");
+    setSelectedAccountId(activeAccounts.length > 0 ? activeAccounts[0].id : "");
+    setSelectedCategory(defaultCategory);
+    setSelectedPurpose("Personal");
+    setBusinessPercentInput(String(DEFAULT_BUSINESS_PERCENT));
+    setSplitLines(null);
+    setSelectedReason("Spillage");
+    setSelectedProductId(activeProducts[0]?.id ?? null);
     setIsEditingTransaction(null);
-  }, [accounts]);
-
-  const handleEditTransaction = useCallback((tx: Transaction) => {
-    setIsEditingTransaction(tx.id);
-    setFormType(tx.type);
-    setAmountInput(String(Math.abs(tx.amount)));
-    setWeightInput(String(Math.abs(tx.weightChange)));
-    setNotesInput(tx.notes || "");
-    setSelectedAccountId(tx.account_id);
-    setSelectedCategory(tx.category || "Personal");
-    window.scrollTo({ top: 0, behavior: "smooth" });
-  }, []);
+  }, [activeAccounts, activeProducts, defaultCategory, massUnit]);
+
+  const handleEditTransaction = useCallback(
+    (tx: Transaction) => {
+      const legs = findTransferLegs(transactions, tx);
+      if (legs) {
+        // Any leg of a transfer opens the whole transfer for editing
+        setIsEditingTransaction(legs.outgoing.id);
+        setFormType("Transfer");
+        setAmountInput(String(Math.abs(legs.outgoing.amount)));
+        setFeeInput(legs.fee ? String(Math.abs(legs.fee.amount)) : "");
+        setReceivedInput(
+          legs.incoming &&
+            legs.incoming.amount !== Math.abs(legs.outgoing.amount)
+            ? String(legs.incoming.amount)
+            : ""
+        );
+        setWeightInput("");
+        setNotesInput(legs.outgoing.notes || "");
+        setSelectedAccountId(legs.outgoing.account_id);
+        setToAccountId(legs.incoming?.account_id ?? "");
+      } else {
+        setIsEditingTransaction(tx.id);
+        setFormType(tx.type);
+        setAmountInput(String(Math.abs(tx.amount)));
+        // Shown back in the unit it was entered in
+        const unit = tx.unit && !isCountUnit(tx.unit) ? tx.unit : massUnit;
+        const weight = Number(
+          fromBaseQuantity(
+            tx.weightChange,
+            displayUnitFor(
+              products.find((product) => product.id === tx.product_id)?.unit,
+              unit
+            )
+          ).toFixed(6)
+        );
+        setWeightUnit(unit);
+        // Adjustments keep their sign; the other types imply it
+        setWeightInput(
+          String(tx.type === "Adjustment" ? weight : Math.abs(weight))
+        );
+        setNotesInput(tx.notes || "");
+        setSelectedAccountId(tx.account_id);
+        setSelectedCategory(tx.category || defaultCategory);
+        setSelectedPurpose(purposeOf(tx, categories) ?? "Personal");
+        setBusinessPercentInput(
+          String(tx.business_percent ?? DEFAULT_BUSINESS_PERCENT)
+        );
+        setSplitLines(
+          tx.splits?.length
+            ? tx.splits.map((line) => ({
+                category: line.category ?? "",
+                purpose: purposeOf(line, categories) ?? "Personal",
+                businessPercent: String(
+                  line.business_percent ?? DEFAULT_BUSINESS_PERCENT
+                ),
+                amount: String(Math.abs(line.amount)),
+              }))
+            : null
+        );
+        setSelectedReason(tx.adjustment_reason ?? "Other");
+        setSelectedProductId(tx.product_id ?? "");
+      }
+      window.scrollTo({ top: 0, behavior: "smooth" });
+    },
+    [transactions, products, categories, defaultCategory, massUnit]
+  );
+
+  const handleRecordStockTake = useCallback(
+    async (
+      variance: number,
+      reason: AdjustmentReason,
+      productId?: string,
+      notes?: string
+    ) => {
+      // Adjustments move no money, but every row needs an account
+      const accountId = selectedAccountId || activeAccounts[0]?.id;
+      if (!accountId) {
+        notifyError("Please add an account first.");
+        return false;
+      }
+      return addTransaction({
+        type: "Adjustment",
+        amount: 0,
+        weightChange: variance,
+        account_id: accountId,
+        adjustment_reason: reason,
+        product_id: productId,
+        notes,
+      });
+    },
+    [selectedAccountId, activeAccounts, addTransaction]
+  );
+
+  // No confirmation: the toast that follows offers an undo
+  const handleDelete = useCallback(
+    async (tx: Transaction) => {
+      if (isEditingTransaction === tx.id) clearTransactionForm();
+      await deleteTransaction(tx.id);
+    },
+    [isEditingTransaction, clearTransactionForm, deleteTransaction]
+  );
 
   const handleSubmitTransaction = useCallback(
     async (e: React.FormEvent) => {
       e.preventDefault();
 
       const amount = parseFloat(amountInput || "0");
-      const weight = parseFloat(weightInput || "0");
+      // Stored in grams, or pieces for counted products
+      const weight = toBaseQuantity(parseFloat(weightInput || "0"), entryUnit);
 
       if (!selectedAccountId) {
-        alert("Please select an account.");
+        notifyError("Please select an account.");
+        return;
+      }
+
+      if (formType === "Transfer") {
+        const fee = parseFloat(feeInput || "0");
+        if (!toAccountId || toAccountId === selectedAccountId) {
+          notifyError("Please choose a different account to transfer to.");
+          return;
+        }
+        if (isNaN(amount) || amount <= 0 || isNaN(fee) || fee < 0) {
+          notifyError("Please enter a valid transfer amount and fee.");
+          return;
+        }
+        const received =
+          fromCurrency === toCurrency
+            ? amount
+            : receivedInput
+            ? parseFloat(receivedInput)
+            : suggestedReceived;
+        if (received === null || isNaN(received) || received <= 0) {
+          notifyError(`Please enter the amount received in ${toCurrency}.`);
+          return;
+        }
+
+        const transfer = {
+          fromAccountId: selectedAccountId,
+          toAccountId,
+          amount,
+          receivedAmount: received,
+          fee,
+          notes: notesInput || undefined,
+        };
+        const success = isEditingTransaction
+          ? await updateTransfer(isEditingTransaction, transfer)
+          : await addTransfer(transfer);
+        if (success) {
+          clearTransactionForm();
+        }
+        return;
+      }
+
+      if (formType === "Adjustment") {
+        if (isNaN(weight) || weight === 0) {
+          notifyError("Adjustment weight change cannot be zero.");
+          return;
+        }
+        if (
+          isEditingTransaction &&
+          (await updateTransaction(isEditingTransaction, {
+            weightChange: weight,
+            unit: entryUnit,
+            adjustment_reason: selectedReason,
+            product_id: selectedProductId || undefined,
+            notes: notesInput || undefined,
+            account_id: selectedAccountId,
+          }))
+        ) {
+          clearTransactionForm();
+        }
         return;
       }
 
       if (isNaN(amount) || (formType !== "Expense" && isNaN(weight))) {
-        alert("Please enter valid numbers for amount and weight.");
+        notifyError("Please enter valid numbers for amount and weight.");
         return;
       }
 
       if (amount === 0 && weight === 0 && formType !== "Expense") {
-        alert("Amount and weight cannot both be zero.");
+        notifyError("Amount and weight cannot both be zero.");
         return;
       }
 
       if (formType === "Expense" && amount === 0) {
-        alert("Expense amount cannot be zero.");
+        notifyError("Expense amount cannot be zero.");
+        return;
+      }
+
+      const businessPercent = parseFloat(businessPercentInput);
+      if (
+        selectedPurpose === "Mixed" &&
+        (isNaN(businessPercent) || businessPercent < 0 || businessPercent > 100)
+      ) {
+        notifyError("Business percentage must be between 0 and 100.");
         return;
       }
 
+      const signedAmount =
+        formType === "Purchase" || formType === "Expense"
+          ? -Math.abs(amount)
+          : Math.abs(amount);
+
+      // Split lines take over the category and purpose, and share the
+      // total's sign
+      let splits: TransactionSplit[] | undefined;
+      if (splitLines && canSplit) {
+        const parsed = parseSplitLines(splitLines);
+        if (!parsed) {
+          notifyError(
+            "Each split line needs an amount above zero and a business percentage between 0 and 100."
+          );
+          return;
+        }
+        splits = parsed.map((line) => ({
+          ...line,
+          amount: -Math.abs(line.amount),
+        }));
+        if (!splitsBalance(splits, signedAmount)) {
+          notifyError("Split lines must add up to the total amount.");
+          return;
+        }
+      }
+
       const transactionData = {
         type: formType,
-        amount:
-          formType === "Purchase" || formType === "Expense"
-            ? -Math.abs(amount)
-            : Math.abs(amount),
+        amount: signedAmount,
         weightChange:
           formType === "Purchase"
             ? Math.abs(weight)
             : formType === "Sale"
             ? -Math.abs(weight)
             : 0,
+        unit: formType === "Expense" ? undefined : entryUnit,
         notes: notesInput || undefined,
         account_id: selectedAccountId,
-        category: selectedCategory,
+        category: splits ? undefined : selectedCategory || undefined,
+        product_id:
+          formType === "Expense" ? undefined : selectedProductId || undefined,
+        purpose: splits ? undefined : selectedPurpose,
+        business_percent:
+          !splits && selectedPurpose === "Mixed" ? businessPercent : undefined,
+        splits,
       };
 
       const success = isEditingTransaction
@@ -257,18 +698,35 @@ function App() {
     [
       amountInput,
       weightInput,
+      entryUnit,
+      feeInput,
+      receivedInput,
+      suggestedReceived,
+      fromCurrency,
+      toCurrency,
       notesInput,
       formType,
       selectedAccountId,
+      toAccountId,
       selectedCategory,
+      selectedPurpose,
+      businessPercentInput,
+      splitLines,
+      canSplit,
+      selectedReason,
+      selectedProductId,
       isEditingTransaction,
       addTransaction,
       updateTransaction,
+      addTransfer,
+      updateTransfer,
       clearTransactionForm,
     ]
   );
 
   // --- Breakdowns ---
+  // Unfiltered, these are the server's aggregates when it has them
+  const serverBreakdowns = !isFiltered(filters) ? serverOverview : null;
   const breakdowns = useMemo(() => {
     const income: { [key: string]: number } = {};
     const expenses: { [key: string]: number } = {};
@@ -276,7 +734,25 @@ function App() {
 
     accounts.forEach((acc) => (accountNames[acc.id] = acc.name));
 
-    transactions.forEach((tx) => {
+    if (serverBreakdowns) {
+      Object.entries(serverBreakdowns.accountFlows).forEach(
+        ([accountId, flow]) => {
+          const accountName = accountNames[accountId] || "Unknown";
+          if (flow.income > 0) {
+            income[accountName] = (income[accountName] || 0) + flow.income;
+          }
+          if (flow.expenses > 0) {
+            expenses[accountName] =
+              (expenses[accountName] || 0) + flow.expenses;
+          }
+        }
+      );
+      return { income, expenses };
+    }
+
+    inBaseCurrency(filteredTransactions, baseAmounts).forEach((tx) => {
+      // Transfers only move money between accounts
+      if (tx.type === "Transfer") return;
       const accountName = accountNames[tx.account_id] || "Unknown";
       if (tx.amount > 0) {
         income[accountName] = (income[accountName] || 0) + tx.amount;
@@ -287,7 +763,18 @@ function App() {
     });
 
     return { income, expenses };
-  }, [transactions, accounts]);
+  }, [serverBreakdowns, filteredTransactions, baseAmounts, accounts]);
+
+  // Mixed rows count towards both sides by their business percentage
+  const purposeTotals = useMemo(
+    () =>
+      serverBreakdowns?.purposeTotals ??
+      summarizePurpose(
+        inBaseCurrency(filteredTransactions, baseAmounts),
+        categories
+      ),
+    [serverBreakdowns, filteredTransactions, baseAmounts, categories]
+  );
 
   if (!session) {
     return (
@@ -327,6 +814,14 @@ function App() {
             </p>
           </div>
           <div className="flex items-center gap-4">
+            <SyncStatus />
+            <button
+              onClick={() => setShowSettings(true)}
+              className="p-2 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              aria-label="Settings"
+            >
+              <Settings className="h-5 w-5" />
+            </button>
             <button
               onClick={toggleDarkMode}
               className="p-2 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
@@ -350,6 +845,56 @@ function App() {
             </button>
           </div>
         </header>
+        {showSettings && (
+          <SettingsDialog onClose={() => setShowSettings(false)} />
+        )}
+        {showImport && (
+          <ImportDialog
+            accounts={activeAccounts}
+            categories={activeCategories.map((cat) => cat.name)}
+            transactions={transactions}
+            onImport={importTransactions}
+            onClose={() => setShowImport(false)}
+          />
+        )}
+        {showCategories && (
+          <CategoryManager
+            categories={categories}
+            transactions={transactions}
+            isLoading={isLoading}
+            onAdd={addCategory}
+            onUpdate={updateCategory}
+            onMerge={mergeCategory}
+            onClose={() => setShowCategories(false)}
+          />
+        )}
+        {scheduleTemplate && (
+          <ScheduleDialog
+            schedule={null}
+            template={scheduleTemplate}
+            accounts={activeAccounts}
+            categories={categories}
+            isLoading={isLoading}
+            onSave={addSchedule}
+            onClose={() => setScheduleTemplate(null)}
+          />
+        )}
+        {auditTarget && (
+          <AuditDrawer
+            target={auditTarget}
+            onClose={() => setAuditTarget(null)}
+          />
+        )}
+        {exportDataset && (
+          <ExportDialog
+            initialDataset={exportDataset}
+            accounts={accounts}
+            products={products}
+            transactions={filteredTransactions}
+            accountBalances={accountBalances}
+            onClose={() => setExportDataset(null)}
+          />
+        )}
 
         <main className="space-y-10">
           {/* Dashboard */}
@@ -357,7 +902,7 @@ function App() {
             <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
               Dashboard
             </h2>
-            <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-4">
               {/* Net Cash Card */}
               <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 hover:shadow-md transition-shadow">
                 <div className="flex items-center justify-between mb-4">
@@ -375,8 +920,14 @@ function App() {
                       : "text-rose-600"
                   }`}
                 >
-                  {formatCurrency(overallNetCash)}
+                  {formatCurrency(overallNetCash, baseCurrency)}
                 </p>
+                {missingRates.length > 0 && (
+                  <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">
+                    No exchange rate for {missingRates.join(", ")} to{" "}
+                    {baseCurrency}; counted one to one.
+                  </p>
+                )}
               </div>
 
               {/* Weight On Hand Card */}
@@ -396,8 +947,14 @@ function App() {
                       : "text-rose-600"
                   }`}
                 >
-                  {formatWeight(weightOnHand)}
+                  {formatWeight(weightOnHand, massUnit)}
                 </p>
+                <button
+                  onClick={() => setShowStockTake(true)}
+                  className="mt-3 text-sm font-medium text-emerald-600 dark:text-emerald-400 hover:underline"
+                >
+                  Stock take
+                </button>
               </div>
 
               {/* Ratio Card */}
@@ -416,11 +973,124 @@ function App() {
                   )}`}
                 >
                   {dollarPerGramRatio !== null
-                    ? `${formatCurrency(dollarPerGramRatio)}/g`
+                    ? formatPricePerUnit(
+                        dollarPerGramRatio,
+                        massUnit,
+                        baseCurrency
+                      )
                     : "N/A"}
                 </p>
               </div>
+
+              {/* Gross Profit Card */}
+              <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 hover:shadow-md transition-shadow">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Gross Profit
+                  </h3>
+                  <div className="p-2 rounded-lg bg-violet-50 dark:bg-violet-900/30 text-violet-600 dark:text-violet-300">
+                    <PiggyBank className="h-5 w-5" />
+                  </div>
+                </div>
+                <p
+                  className={`text-3xl font-bold ${
+                    grossProfit >= 0
+                      ? "text-gray-900 dark:text-white"
+                      : "text-rose-600"
+                  }`}
+                >
+                  {formatCurrency(grossProfit, baseCurrency)}
+                </p>
+                <div className="mt-2 flex justify-between text-sm text-gray-500 dark:text-gray-400">
+                  <span>
+                    Margin{" "}
+                    {grossMargin !== null
+                      ? `${(grossMargin * 100).toFixed(1)}%`
+                      : "N/A"}
+                  </span>
+                  <span>
+                    Avg cost{" "}
+                    {averageCostPerGram !== null
+                      ? formatPricePerUnit(
+                          averageCostPerGram,
+                          massUnit,
+                          baseCurrency
+                        )
+                      : "N/A"}
+                  </span>
+                </div>
+              </div>
             </div>
+            {showStockTake && (
+              <StockTakeDialog
+                products={activeProducts}
+                productSummaries={productSummaries}
+                isLoading={isLoading}
+                onRecord={handleRecordStockTake}
+                onClose={() => setShowStockTake(false)}
+              />
+            )}
+          </section>
+
+          {/* Products */}
+          <section>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+              Product Breakdown
+            </h2>
+            <ProductBreakdown
+              products={products}
+              summaries={productSummaries}
+              isLoading={isLoading}
+              onAdd={addProduct}
+              onUpdate={updateProduct}
+            />
+          </section>
+
+          {/* Budgets */}
+          <section>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+              Budgets
+            </h2>
+            <BudgetProgressList
+              budgets={budgets}
+              progress={budgetProgress}
+              accounts={accounts}
+              categories={categories}
+              isLoading={isLoading}
+              onAdd={addBudget}
+              onUpdate={updateBudget}
+              onDelete={deleteBudget}
+            />
+          </section>
+
+          {/* Recurring */}
+          <section>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+              Recurring Transactions
+            </h2>
+            <RecurringSchedules
+              schedules={schedules}
+              accounts={accounts}
+              categories={categories}
+              isLoading={isLoading}
+              onAdd={addSchedule}
+              onUpdate={updateSchedule}
+              onDelete={deleteSchedule}
+              onRecord={recordOccurrence}
+              onSkip={skipOccurrence}
+            />
+          </section>
+
+          {/* Trends */}
+          <section>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+              Trends
+            </h2>
+            <ChartsDashboard
+              accounts={accounts}
+              products={products}
+              transactions={reportingTransactions}
+            />
           </section>
 
           {/* Account Management */}
@@ -431,8 +1101,16 @@ function App() {
               </h2>
               <div className="flex items-center gap-3">
                 <span className="text-sm text-gray-500 dark:text-gray-400">
-                  {accounts.length} account{accounts.length !== 1 ? "s" : ""}
+                  {activeAccounts.length} account
+                  {activeAccounts.length !== 1 ? "s" : ""}
                 </span>
+                <button
+                  onClick={() => setExportDataset("accounts")}
+                  className="inline-flex items-center px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 text-sm font-medium transition-colors"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </button>
                 <button
                   onClick={() => {
                     setShowAccountForm(true);
@@ -440,7 +1118,8 @@ function App() {
                     setAccountFormData({
                       name: "",
                       type: "Bank",
-                      current_balance: "",
+                      opening_balance: "",
+                      currency: baseCurrency,
                     });
                   }}
                   className="inline-flex items-center px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium transition-colors"
@@ -502,13 +1181,30 @@ function App() {
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                        Current Balance
+                        Currency
+                      </label>
+                      <select
+                        name="currency"
+                        value={accountFormData.currency}
+                        onChange={handleAccountFormChange}
+                        className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                      >
+                        {CURRENCIES.map(({ value, label }) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Opening Balance
                       </label>
                       <input
                         type="number"
                         step="0.01"
-                        name="current_balance"
-                        value={accountFormData.current_balance}
+                        name="opening_balance"
+                        value={accountFormData.opening_balance}
                         onChange={handleAccountFormChange}
                         className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
                         required
@@ -541,7 +1237,7 @@ function App() {
                   Loading accounts...
                 </p>
               </div>
-            ) : accounts.length === 0 ? (
+            ) : activeAccounts.length === 0 ? (
               <div className="bg-white dark:bg-gray-800 p-8 rounded-xl shadow border border-gray-100 dark:border-gray-700 text-center">
                 <p className="text-gray-500 dark:text-gray-400">
                   No accounts added yet.
@@ -556,7 +1252,7 @@ function App() {
               </div>
             ) : (
               <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-                {accounts.map((acc) => (
+                {activeAccounts.map((acc) => (
                   <div
                     key={acc.id}
                     className="bg-white dark:bg-gray-800 p-5 rounded-xl shadow border border-gray-100 dark:border-gray-700 hover:shadow-md transition-shadow"
@@ -575,17 +1271,35 @@ function App() {
                           </p>
                         </div>
                       </div>
-                      <p
-                        className={`text-xl font-bold ${
-                          acc.current_balance >= 0
-                            ? "text-gray-900 dark:text-white"
-                            : "text-rose-600"
-                        }`}
-                      >
-                        {formatCurrency(acc.current_balance)}
-                      </p>
+                      <div className="text-right">
+                        <p
+                          className={`text-xl font-bold ${
+                            accountBalances[acc.id] >= 0
+                              ? "text-gray-900 dark:text-white"
+                              : "text-rose-600"
+                          }`}
+                        >
+                          {formatCurrency(
+                            accountBalances[acc.id] ?? 0,
+                            currencyOf(acc)
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Opening{" "}
+                          {formatCurrency(acc.opening_balance, currencyOf(acc))}
+                        </p>
+                      </div>
                     </div>
                     <div className="flex justify-end gap-2 mt-4">
+                      <button
+                        onClick={() =>
+                          setAuditTarget({ kind: "account", account: acc })
+                        }
+                        className="p-2 rounded-full text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
+                        title="Activity"
+                      >
+                        <History className="h-4 w-4" />
+                      </button>
                       <button
                         onClick={() => handleEditAccount(acc)}
                         className="p-2 rounded-full text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
@@ -593,7 +1307,7 @@ function App() {
                         <Edit className="h-4 w-4" />
                       </button>
                       <button
-                        onClick={() => handleDeleteAccount(acc.id)}
+                        onClick={() => setDeletingAccount(acc)}
                         className="p-2 rounded-full text-gray-400 hover:text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-900/30"
                       >
                         <Trash2 className="h-4 w-4" />
@@ -603,6 +1317,86 @@ function App() {
                 ))}
               </div>
             )}
+
+            {/* Archived Accounts */}
+            {archivedAccounts.length > 0 && (
+              <div className="mt-4">
+                <button
+                  onClick={() => setShowArchivedAccounts(!showArchivedAccounts)}
+                  className="inline-flex items-center text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+                >
+                  <ChevronDown
+                    className={cn(
+                      "h-4 w-4 mr-1 transition-transform",
+                      showArchivedAccounts && "rotate-180"
+                    )}
+                  />
+                  Archived ({archivedAccounts.length})
+                </button>
+                {showArchivedAccounts && (
+                  <ul className="mt-3 bg-white dark:bg-gray-800 rounded-xl shadow border border-gray-100 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+                    {archivedAccounts.map((acc) => (
+                      <li
+                        key={acc.id}
+                        className="flex items-center justify-between p-4"
+                      >
+                        <div className="flex items-center gap-3">
+                          {getAccountIcon(acc.type)}
+                          <span className="text-gray-700 dark:text-gray-300">
+                            {acc.name}
+                          </span>
+                          <span className="text-sm text-gray-500 dark:text-gray-400">
+                            {formatCurrency(
+                              accountBalances[acc.id] ?? 0,
+                              currencyOf(acc)
+                            )}
+                          </span>
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() =>
+                              setAuditTarget({ kind: "account", account: acc })
+                            }
+                            className="p-2 rounded-full text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
+                            aria-label="Account activity"
+                          >
+                            <History className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleArchiveAccount(acc.id, false)}
+                            className="p-2 rounded-full text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
+                            aria-label="Restore account"
+                          >
+                            <ArchiveRestore className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => setDeletingAccount(acc)}
+                            className="p-2 rounded-full text-gray-400 hover:text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-900/30"
+                            aria-label="Delete account"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {deletingAccount && (
+              <DeleteAccountDialog
+                account={deletingAccount}
+                transactionCount={transactionCounts[deletingAccount.id] || 0}
+                otherAccounts={activeAccounts.filter(
+                  (acc) => acc.id !== deletingAccount.id
+                )}
+                isLoading={isLoading}
+                onDelete={handleDeleteAccount}
+                onArchive={() => handleArchiveAccount(deletingAccount.id, true)}
+                onCancel={() => setDeletingAccount(null)}
+              />
+            )}
           </section>
 
           {/* Transaction Form */}
@@ -627,23 +1421,37 @@ function App() {
                     Transaction Type
                   </label>
                   <div className="inline-flex rounded-lg shadow-sm">
-                    {(["Sale", "Purchase", "Expense"] as TransactionType[]).map(
-                      (type) => (
-                        <button
-                          key={type}
-                          type="button"
-                          onClick={() => setFormType(type)}
-                          className={cn(
-                            "px-4 py-2 text-sm font-medium first:rounded-l-lg last:rounded-r-lg focus:z-10 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-colors",
-                            formType === type
-                              ? "bg-indigo-600 text-white hover:bg-indigo-700"
-                              : "bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 border border-gray-300 dark:border-gray-600"
-                          )}
-                        >
-                          {type}
-                        </button>
-                      )
-                    )}
+                    {(
+                      [
+                        "Sale",
+                        "Purchase",
+                        "Expense",
+                        "Transfer",
+                        // Adjustments come from stock takes; shown only to edit one
+                        ...(formType === "Adjustment" ? ["Adjustment"] : []),
+                      ] as TransactionType[]
+                    ).map((type) => (
+                      <button
+                        key={type}
+                        type="button"
+                        onClick={() => setFormType(type)}
+                        disabled={
+                          isEditingTransaction !== null &&
+                          type !== formType &&
+                          [type, formType].some(
+                            (t) => t === "Transfer" || t === "Adjustment"
+                          )
+                        }
+                        className={cn(
+                          "px-4 py-2 text-sm font-medium first:rounded-l-lg last:rounded-r-lg focus:z-10 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
+                          formType === type
+                            ? "bg-indigo-600 text-white hover:bg-indigo-700"
+                            : "bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 border border-gray-300 dark:border-gray-600"
+                        )}
+                      >
+                        {type}
+                      </button>
+                    ))}
                   </div>
                 </div>
                 <div>
@@ -651,7 +1459,7 @@ function App() {
                     htmlFor="account"
                     className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
                   >
-                    Account
+                    {formType === "Transfer" ? "From Account" : "Account"}
                   </label>
                   <div className="relative">
                     <select
@@ -660,23 +1468,33 @@ function App() {
                       onChange={(e) => setSelectedAccountId(e.target.value)}
                       className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent appearance-none pr-8"
                       required
-                      disabled={accounts.length === 0 || isLoading}
+                      disabled={activeAccounts.length === 0 || isLoading}
                     >
-                      {accounts.length === 0 ? (
+                      {activeAccounts.length === 0 ? (
                         <option value="">No accounts available</option>
                       ) : (
-                        accounts.map((acc) => (
-                          <option key={acc.id} value={acc.id}>
-                            {acc.name} ({formatCurrency(acc.current_balance)})
-                          </option>
-                        ))
+                        accounts
+                          .filter(
+                            (acc) =>
+                              !acc.archived || acc.id === selectedAccountId
+                          )
+                          .map((acc) => (
+                            <option key={acc.id} value={acc.id}>
+                              {acc.name} (
+                              {formatCurrency(
+                                accountBalances[acc.id] ?? 0,
+                                currencyOf(acc)
+                              )}
+                              )
+                            </option>
+                          ))
                       )}
                     </select>
                     <div className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none">
                       <ChevronDown className="h-4 w-4 text-gray-400" />
                     </div>
                   </div>
-                  {accounts.length === 0 && (
+                  {activeAccounts.length === 0 && (
                     <button
                       type="button"
                       onClick={() => setShowAccountForm(true)}
@@ -688,53 +1506,117 @@ function App() {
                 </div>
               </div>
               <div className="grid gap-6 md:grid-cols-2">
-                <div>
-                  <label
-                    htmlFor="amount"
-                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
-                  >
-                    Amount (
-                    {formType === "Purchase" || formType === "Expense"
-                      ? "Spent (-)"
-                      : "Received (+)"}
-                    )
-                  </label>
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <span className="text-gray-500">$</span>
+                {formType !== "Adjustment" && (
+                  <div>
+                    <label
+                      htmlFor="amount"
+                      className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                    >
+                      Amount (
+                      {formType === "Transfer"
+                        ? "Sent"
+                        : formType === "Purchase" || formType === "Expense"
+                        ? "Spent (-)"
+                        : "Received (+)"}
+                      )
+                    </label>
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <span className="text-gray-500">{amountSymbol}</span>
+                      </div>
+                      <input
+                        id="amount"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="0.00"
+                        value={amountInput}
+                        onChange={(e) => setAmountInput(e.target.value)}
+                        className={cn(
+                          "w-full pr-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent",
+                          amountSymbol.length > 1 ? "pl-12" : "pl-8"
+                        )}
+                        required
+                        disabled={isLoading}
+                      />
                     </div>
+                  </div>
+                )}
+                {formType === "Transfer" && (
+                  <div>
+                    <label
+                      htmlFor="fee"
+                      className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                    >
+                      Transfer Fee (Optional)
+                    </label>
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <span className="text-gray-500">{amountSymbol}</span>
+                      </div>
+                      <input
+                        id="fee"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="0.00"
+                        value={feeInput}
+                        onChange={(e) => setFeeInput(e.target.value)}
+                        className={cn(
+                          "w-full pr-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent",
+                          amountSymbol.length > 1 ? "pl-12" : "pl-8"
+                        )}
+                        disabled={isLoading}
+                      />
+                    </div>
+                  </div>
+                )}
+                {formType === "Transfer" && fromCurrency !== toCurrency && (
+                  <div>
+                    <label
+                      htmlFor="received"
+                      className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                    >
+                      Amount Received ({toCurrency})
+                    </label>
                     <input
-                      id="amount"
+                      id="received"
                       type="number"
                       step="0.01"
                       min="0"
-                      placeholder="0.00"
-                      value={amountInput}
-                      onChange={(e) => setAmountInput(e.target.value)}
-                      className="w-full pl-8 pr-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                      required
+                      placeholder={
+                        suggestedReceived !== null
+                          ? suggestedReceived.toFixed(2)
+                          : "0.00"
+                      }
+                      value={receivedInput}
+                      onChange={(e) => setReceivedInput(e.target.value)}
+                      className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                      required={suggestedReceived === null}
                       disabled={isLoading}
                     />
                   </div>
-                </div>
-                {formType !== "Expense" && (
+                )}
+                {formType !== "Expense" && formType !== "Transfer" && (
                   <div>
                     <label
                       htmlFor="weight"
                       className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
                     >
                       Weight (
-                      {formType === "Purchase"
+                      {formType === "Adjustment"
+                        ? "Change ±"
+                        : formType === "Purchase"
                         ? "Received (+)"
                         : "Dispensed (-)"}
                       )
                     </label>
-                    <div className="relative">
+                    <div className="flex gap-2">
                       <input
                         id="weight"
                         type="number"
                         step="0.01"
-                        min="0"
+                        min={formType === "Adjustment" ? undefined : "0"}
                         placeholder="0.00"
                         value={weightInput}
                         onChange={(e) => setWeightInput(e.target.value)}
@@ -742,43 +1624,256 @@ function App() {
                         required
                         disabled={isLoading}
                       />
-                      <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
-                        <span className="text-gray-500">g</span>
-                      </div>
+                      {isCountUnit(entryUnit) ? (
+                        <span className="self-center px-3 text-gray-500">
+                          each
+                        </span>
+                      ) : (
+                        <select
+                          aria-label="Weight unit"
+                          value={weightUnit}
+                          onChange={(e) =>
+                            setWeightUnit(e.target.value as MassUnit)
+                          }
+                          className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                          disabled={isLoading}
+                        >
+                          {MASS_UNITS.map(({ value }) => (
+                            <option key={value} value={value}>
+                              {value}
+                            </option>
+                          ))}
+                        </select>
+                      )}
                     </div>
                   </div>
                 )}
               </div>
               <div className="grid gap-6 md:grid-cols-2">
-                <div>
-                  <label
-                    htmlFor="category"
-                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
-                  >
-                    Category
-                  </label>
-                  <select
-                    id="category"
-                    value={selectedCategory}
-                    onChange={(e) => setSelectedCategory(e.target.value)}
-                    className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                    disabled={isLoading}
-                  >
-                    {[
-                      "Personal",
-                      "Business",
-                      "Groceries",
-                      "Income",
-                      "Supplies",
-                      "Utilities",
-                      "Other",
-                    ].map((cat) => (
-                      <option key={cat} value={cat}>
-                        {cat}
-                      </option>
-                    ))}
-                  </select>
+                <div className="space-y-6">
+                  {formType === "Transfer" ? (
+                    <div>
+                      <label
+                        htmlFor="toAccount"
+                        className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                      >
+                        To Account
+                      </label>
+                      <div className="relative">
+                        <select
+                          id="toAccount"
+                          value={toAccountId}
+                          onChange={(e) => setToAccountId(e.target.value)}
+                          className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent appearance-none pr-8"
+                          required
+                          disabled={isLoading}
+                        >
+                          <option value="">Select an account</option>
+                          {accounts
+                            .filter(
+                              (acc) =>
+                                acc.id !== selectedAccountId &&
+                                (!acc.archived || acc.id === toAccountId)
+                            )
+                            .map((acc) => (
+                              <option key={acc.id} value={acc.id}>
+                                {acc.name} (
+                                {formatCurrency(
+                                  accountBalances[acc.id] ?? 0,
+                                  currencyOf(acc)
+                                )}
+                                )
+                              </option>
+                            ))}
+                        </select>
+                        <div className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none">
+                          <ChevronDown className="h-4 w-4 text-gray-400" />
+                        </div>
+                      </div>
+                    </div>
+                  ) : formType === "Adjustment" ? (
+                    <div>
+                      <label
+                        htmlFor="adjustmentReason"
+                        className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                      >
+                        Reason
+                      </label>
+                      <select
+                        id="adjustmentReason"
+                        value={selectedReason}
+                        onChange={(e) =>
+                          setSelectedReason(e.target.value as AdjustmentReason)
+                        }
+                        className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                        disabled={isLoading}
+                      >
+                        {ADJUSTMENT_REASONS.map((reason) => (
+                          <option key={reason} value={reason}>
+                            {reason}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ) : (
+                    !isSplit && (
+                      <div>
+                        <label
+                          htmlFor="category"
+                          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                        >
+                          Category
+                        </label>
+                        <select
+                          id="category"
+                          value={selectedCategory}
+                          onChange={(e) => setSelectedCategory(e.target.value)}
+                          className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                          disabled={isLoading}
+                        >
+                          {/* Keeps an archived or unknown category on edit */}
+                          {selectedCategory &&
+                            !activeCategories.some(
+                              (cat) => cat.name === selectedCategory
+                            ) && (
+                              <option value={selectedCategory}>
+                                {selectedCategory}
+                              </option>
+                            )}
+                          {categoryTree(activeCategories).map(
+                            ({ category, depth }) => (
+                              <option key={category.id} value={category.name}>
+                                {depth > 0 ? "\u00a0\u00a0\u00a0" : ""}
+                                {category.name}
+                              </option>
+                            )
+                          )}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => setShowCategories(true)}
+                          className="mt-2 text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+                        >
+                          Manage categories
+                        </button>
+                      </div>
+                    )
+                  )}
+                  {formType !== "Expense" && formType !== "Transfer" && (
+                    <div>
+                      <label
+                        htmlFor="product"
+                        className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                      >
+                        Product
+                      </label>
+                      <select
+                        id="product"
+                        value={selectedProductId ?? ""}
+                        onChange={(e) => setSelectedProductId(e.target.value)}
+                        className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                        disabled={isLoading}
+                      >
+                        {products
+                          .filter(
+                            (product) =>
+                              !product.archived ||
+                              product.id === selectedProductId
+                          )
+                          .map((product) => (
+                            <option key={product.id} value={product.id}>
+                              {formatProductName(product)}
+                            </option>
+                          ))}
+                        <option value="">No product</option>
+                      </select>
+                    </div>
+                  )}
+                  {formType !== "Transfer" &&
+                    formType !== "Adjustment" &&
+                    !isSplit && (
+                      <div>
+                        <label
+                          htmlFor="purpose"
+                          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                        >
+                          Purpose
+                        </label>
+                        <div className="flex gap-2">
+                          <select
+                            id="purpose"
+                            value={selectedPurpose}
+                            onChange={(e) =>
+                              setSelectedPurpose(e.target.value as Purpose)
+                            }
+                            className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                            disabled={isLoading}
+                          >
+                            {PURPOSES.map((purpose) => (
+                              <option key={purpose} value={purpose}>
+                                {purpose}
+                              </option>
+                            ))}
+                          </select>
+                          {selectedPurpose === "Mixed" && (
+                            <div className="relative w-32 shrink-0">
+                              <input
+                                type="number"
+                                aria-label="Business percentage"
+                                min="0"
+                                max="100"
+                                step="1"
+                                value={businessPercentInput}
+                                onChange={(e) =>
+                                  setBusinessPercentInput(e.target.value)
+                                }
+                                className="w-full pl-4 pr-20 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                required
+                                disabled={isLoading}
+                              />
+                              <span className="absolute inset-y-0 right-3 flex items-center text-xs text-gray-500 dark:text-gray-400 pointer-events-none">
+                                % business
+                              </span>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    )}
                 </div>
+                {canSplit &&
+                  (splitLines ? (
+                    <SplitEditor
+                      lines={splitLines}
+                      total={parseFloat(amountInput)}
+                      currency={fromCurrency}
+                      categories={activeCategories}
+                      disabled={isLoading}
+                      onChange={setSplitLines}
+                      onUnsplit={() => setSplitLines(null)}
+                    />
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        // The first line starts out as the whole transaction
+                        const line = {
+                          category: selectedCategory,
+                          purpose: selectedPurpose,
+                          businessPercent: businessPercentInput,
+                          amount: amountInput,
+                        };
+                        setSplitLines([
+                          line,
+                          { ...line, category: "", amount: "" },
+                        ]);
+                      }}
+                      className="inline-flex items-center text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+                      disabled={isLoading}
+                    >
+                      <Split className="h-4 w-4 mr-1" />
+                      Split across categories
+                    </button>
+                  ))}
                 <div>
                   <label
                     htmlFor="notes"
@@ -810,7 +1905,7 @@ function App() {
                 <button
                   type="submit"
                   className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center"
-                  disabled={isLoading || accounts.length === 0}
+                  disabled={isLoading || activeAccounts.length === 0}
                 >
                   {isEditingTransaction ? (
                     <>
@@ -834,11 +1929,37 @@ function App() {
               <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
                 Transaction History
               </h2>
-              <div className="text-sm text-gray-500 dark:text-gray-400">
-                {transactions.length} transaction
-                {transactions.length !== 1 ? "s" : ""}
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  {isFiltered(filters) && `${filteredTransactions.length} of `}
+                  {transactions.length} transaction
+                  {transactions.length !== 1 ? "s" : ""}
+                </span>
+                <button
+                  onClick={() => setShowImport(true)}
+                  disabled={activeAccounts.length === 0}
+                  className="inline-flex items-center px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import CSV
+                </button>
+                <button
+                  onClick={() => setExportDataset("transactions")}
+                  disabled={filteredTransactions.length === 0}
+                  className="inline-flex items-center px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Export CSV
+                </button>
               </div>
             </div>
+            <TransactionFilterBar
+              filters={filters}
+              onChange={setFilters}
+              accounts={accounts}
+              categories={categoryOptions}
+              weightUnit={massUnit}
+            />
             <div className="bg-white dark:bg-gray-800 rounded-xl shadow border border-gray-100 dark:border-gray-700 overflow-hidden">
               {isLoading && transactions.length === 0 ? (
                 <div className="p-8 text-center">
@@ -852,113 +1973,355 @@ function App() {
                     No transactions recorded yet.
                   </p>
                 </div>
+              ) : filteredTransactions.length === 0 ? (
+                <div className="p-8 text-center">
+                  <p className="text-gray-500 dark:text-gray-400">
+                    No transactions match these filters.
+                  </p>
+                  {historyCursor && (
+                    <button
+                      onClick={() => void fetchOlderTransactions()}
+                      disabled={isLoadingOlder}
+                      className="mt-2 text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300 disabled:opacity-50"
+                    >
+                      {isLoadingOlder
+                        ? "Loading..."
+                        : "Search older transactions"}
+                    </button>
+                  )}
+                </div>
               ) : (
-                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
-                  {transactions.map((tx) => {
-                    const account = accounts.find(
-                      (acc) => acc.id === tx.account_id
-                    );
-                    return (
-                      <li
-                        key={tx.id}
-                        className="p-5 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
-                      >
-                        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center gap-3 mb-2">
-                              <span
-                                className={cn(
-                                  "inline-flex items-center px-3 py-1 rounded-full text-xs font-medium",
-                                  tx.type === "Sale"
-                                    ? "bg-emerald-100 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-200"
-                                    : tx.type === "Purchase"
-                                    ? "bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200"
-                                    : "bg-rose-100 dark:bg-rose-900/30 text-rose-800 dark:text-rose-200"
-                                )}
-                              >
-                                {tx.type}
-                              </span>
-                              <div className="flex items-center gap-2 overflow-hidden">
-                                {tx.category && (
-                                  <span className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400">
-                                    {getCategoryIcon(tx.category)}
-                                    <span className="ml-1 truncate">
-                                      {tx.category}
+                // Hides the last row's border under the card's own
+                <div className="-mb-px">
+                  <VirtualList
+                    items={history}
+                    getKey={(item) =>
+                      item.kind === "day" ? `day-${item.day}` : item.tx.id
+                    }
+                    estimateHeight={(item) => (item.kind === "day" ? 37 : 110)}
+                    onEndReached={() => void fetchOlderTransactions()}
+                    renderItem={(item) => {
+                      if (item.kind === "day") {
+                        return (
+                          <div className="flex items-center justify-between px-5 py-2 bg-gray-50 dark:bg-gray-900/40 border-b border-gray-200 dark:border-gray-700 text-xs font-medium text-gray-500 dark:text-gray-400">
+                            <span>
+                              {formatDay(item.day)} · {item.count} transaction
+                              {item.count !== 1 && "s"}
+                            </span>
+                            <span
+                              className={cn(
+                                item.net > 0
+                                  ? "text-emerald-600 dark:text-emerald-400"
+                                  : item.net < 0
+                                  ? "text-rose-600 dark:text-rose-400"
+                                  : undefined
+                              )}
+                            >
+                              {formatCurrencyChange(item.net, baseCurrency)}
+                            </span>
+                          </div>
+                        );
+                      }
+                      const { tx } = item;
+                      const account = accountsById.get(tx.account_id);
+                      const counterpart =
+                        tx.type === "Transfer" &&
+                        tx.related_transaction_id !== undefined
+                          ? accountsById.get(
+                              transactionsById.get(tx.related_transaction_id)
+                                ?.account_id ?? ""
+                            )
+                          : undefined;
+                      const product = tx.product_id
+                        ? productsById.get(tx.product_id)
+                        : undefined;
+                      return (
+                        <div className="p-5 border-b border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-3 mb-2">
+                                <span
+                                  className={cn(
+                                    "inline-flex items-center px-3 py-1 rounded-full text-xs font-medium",
+                                    tx.type === "Sale"
+                                      ? "bg-emerald-100 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-200"
+                                      : tx.type === "Purchase"
+                                      ? "bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200"
+                                      : tx.type === "Transfer"
+                                      ? "bg-indigo-100 dark:bg-indigo-900/30 text-indigo-800 dark:text-indigo-200"
+                                      : tx.type === "Adjustment"
+                                      ? "bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200"
+                                      : "bg-rose-100 dark:bg-rose-900/30 text-rose-800 dark:text-rose-200"
+                                  )}
+                                >
+                                  {tx.type}
+                                </span>
+                                <div className="flex items-center gap-2 overflow-hidden">
+                                  {tx.adjustment_reason && (
+                                    <span className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400">
+                                      <Scale className="h-4 w-4 text-amber-500" />
+                                      <span className="ml-1 truncate">
+                                        {tx.adjustment_reason}
+                                      </span>
                                     </span>
-                                  </span>
-                                )}
-                                {account && (
-                                  <span className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400">
-                                    {getAccountIcon(account.type)}
-                                    <span className="ml-1 truncate">
-                                      {account.name}
+                                  )}
+                                  {product && (
+                                    <span className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400">
+                                      <Package className="h-4 w-4 text-indigo-400" />
+                                      <span className="ml-1 truncate">
+                                        {formatProductName(product)}
+                                      </span>
+                                    </span>
+                                  )}
+                                  {tx.splits?.length ? (
+                                    <button
+                                      type="button"
+                                      onClick={() =>
+                                        setExpandedSplitId((id) =>
+                                          id === tx.id ? null : tx.id
+                                        )
+                                      }
+                                      aria-expanded={expandedSplitId === tx.id}
+                                      className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400"
+                                    >
+                                      {expandedSplitId === tx.id ? (
+                                        <ChevronDown className="h-4 w-4" />
+                                      ) : (
+                                        <ChevronRight className="h-4 w-4" />
+                                      )}
+                                      <span className="ml-1 truncate">
+                                        Split · {tx.splits.length} lines
+                                      </span>
+                                    </button>
+                                  ) : (
+                                    tx.category && (
+                                      <span className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400">
+                                        <CategoryIcon
+                                          category={categoriesByName.get(
+                                            tx.category
+                                          )}
+                                        />
+                                        <span className="ml-1 truncate">
+                                          {tx.category}
+                                        </span>
+                                      </span>
+                                    )
+                                  )}
+                                  {tx.purpose && (
+                                    <span className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400">
+                                      <Briefcase className="h-4 w-4 text-gray-400" />
+                                      <span className="ml-1 truncate">
+                                        {formatPurpose(
+                                          tx.purpose,
+                                          tx.business_percent
+                                        )}
+                                      </span>
+                                    </span>
+                                  )}
+                                  {account && (
+                                    <span className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400">
+                                      {getAccountIcon(account.type)}
+                                      <span className="ml-1 truncate">
+                                        {account.name}
+                                      </span>
                                     </span>
+                                  )}
+                                  {counterpart && (
+                                    <span className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400">
+                                      <span className="truncate">
+                                        {tx.amount < 0 ? "→" : "←"}{" "}
+                                        {counterpart.name}
+                                      </span>
+                                    </span>
+                                  )}
+                                </div>
+                              </div>
+                              <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                                <span>
+                                  {format(
+                                    new Date(tx.timestamp),
+                                    "MMM d, yyyy"
+                                  )}
+                                </span>
+                                <span>•</span>
+                                <span>
+                                  {format(new Date(tx.timestamp), "h:mm a")}
+                                </span>
+                                {pendingTransactionIds.has(tx.id) && (
+                                  <span
+                                    className="inline-flex items-center text-xs text-amber-600 dark:text-amber-400"
+                                    title="Saved on this device, waiting to reach the server"
+                                  >
+                                    <CloudUpload className="h-3.5 w-3.5 mr-1" />
+                                    Pending
                                   </span>
                                 )}
                               </div>
+                              {tx.notes && (
+                                <p className="mt-2 text-sm text-gray-600 dark:text-gray-300 truncate">
+                                  {tx.notes}
+                                </p>
+                              )}
+                              {expandedSplitId === tx.id && tx.splits && (
+                                <ul className="mt-2 space-y-1 text-sm">
+                                  {tx.splits.map((line, index) => (
+                                    <li
+                                      key={index}
+                                      className="flex items-center gap-2 text-gray-600 dark:text-gray-300"
+                                    >
+                                      <CategoryIcon
+                                        category={
+                                          line.category
+                                            ? categoriesByName.get(
+                                                line.category
+                                              )
+                                            : undefined
+                                        }
+                                      />
+                                      <span className="flex-1 truncate">
+                                        {line.category ?? "Uncategorized"}
+                                        {line.purpose && (
+                                          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                                            {formatPurpose(
+                                              line.purpose,
+                                              line.business_percent
+                                            )}
+                                          </span>
+                                        )}
+                                      </span>
+                                      <span>
+                                        {formatCurrencyChange(
+                                          line.amount,
+                                          currencyOf(account)
+                                        )}
+                                      </span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
                             </div>
-                            <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
-                              <span>
-                                {format(new Date(tx.timestamp), "MMM d, yyyy")}
-                              </span>
-                              <span>•</span>
-                              <span>
-                                {format(new Date(tx.timestamp), "h:mm a")}
-                              </span>
-                            </div>
-                            {tx.notes && (
-                              <p className="mt-2 text-sm text-gray-600 dark:text-gray-300 truncate">
-                                {tx.notes}
-                              </p>
-                            )}
-                          </div>
-                          <div className="flex items-center gap-4 sm:gap-6">
-                            <div className="text-right">
-                              <p
-                                className={`text-lg font-semibold ${
-                                  tx.amount > 0
-                                    ? "text-emerald-600 dark:text-emerald-400"
-                                    : tx.amount < 0
-                                    ? "text-rose-600 dark:text-rose-400"
-                                    : "text-gray-500 dark:text-gray-400"
-                                }`}
-                              >
-                                {formatCurrencyChange(tx.amount)}
-                              </p>
-                              {tx.weightChange !== 0 && (
+                            <div className="flex items-center gap-4 sm:gap-6">
+                              <div className="text-right">
                                 <p
-                                  className={`text-sm ${
-                                    tx.weightChange > 0
+                                  className={`text-lg font-semibold ${
+                                    tx.amount > 0
                                       ? "text-emerald-600 dark:text-emerald-400"
-                                      : tx.weightChange < 0
+                                      : tx.amount < 0
                                       ? "text-rose-600 dark:text-rose-400"
                                       : "text-gray-500 dark:text-gray-400"
                                   }`}
                                 >
-                                  {formatWeightChange(tx.weightChange)}
+                                  {formatCurrencyChange(
+                                    tx.amount,
+                                    currencyOf(account)
+                                  )}
                                 </p>
-                              )}
-                            </div>
-                            <div className="flex gap-1">
-                              <button
-                                onClick={() => handleEditTransaction(tx)}
-                                className="p-2 rounded-full text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
-                              >
-                                <Edit className="h-4 w-4" />
-                              </button>
-                              <button
-                                onClick={() => handleDelete(tx.id)}
-                                className="p-2 rounded-full text-gray-400 hover:text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-900/30"
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </button>
+                                {tx.weightChange !== 0 && (
+                                  <p
+                                    className={`text-sm ${
+                                      tx.weightChange > 0
+                                        ? "text-emerald-600 dark:text-emerald-400"
+                                        : tx.weightChange < 0
+                                        ? "text-rose-600 dark:text-rose-400"
+                                        : "text-gray-500 dark:text-gray-400"
+                                    }`}
+                                  >
+                                    {formatWeightChange(
+                                      tx.weightChange,
+                                      (tx.product_id &&
+                                        productUnits[tx.product_id]) ||
+                                        massUnit
+                                    )}
+                                  </p>
+                                )}
+                                {saleCosts[tx.id] !== undefined && (
+                                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    Profit{" "}
+                                    {formatCurrencyChange(
+                                      baseAmounts[tx.id] - saleCosts[tx.id],
+                                      baseCurrency
+                                    )}
+                                  </p>
+                                )}
+                                {runningBalances[tx.id] !== undefined && (
+                                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    Balance{" "}
+                                    {formatCurrency(
+                                      runningBalances[tx.id],
+                                      currencyOf(account)
+                                    )}
+                                  </p>
+                                )}
+                              </div>
+                              <div className="flex gap-1">
+                                {SCHEDULE_TYPES.includes(tx.type) && (
+                                  <button
+                                    onClick={() =>
+                                      setScheduleTemplate({
+                                        type: tx.type,
+                                        amount: tx.amount,
+                                        weightChange: tx.weightChange,
+                                        unit: tx.unit,
+                                        account_id: tx.account_id,
+                                        category: tx.category,
+                                        notes: tx.notes,
+                                        product_id: tx.product_id,
+                                        purpose: tx.purpose,
+                                        business_percent: tx.business_percent,
+                                        splits: tx.splits,
+                                      })
+                                    }
+                                    className="p-2 rounded-full text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
+                                    title="Make recurring"
+                                  >
+                                    <Repeat className="h-4 w-4" />
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() =>
+                                    setAuditTarget({
+                                      kind: "transaction",
+                                      transaction: tx,
+                                    })
+                                  }
+                                  className="p-2 rounded-full text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
+                                  title="History"
+                                >
+                                  <History className="h-4 w-4" />
+                                </button>
+                                <button
+                                  onClick={() => handleEditTransaction(tx)}
+                                  className="p-2 rounded-full text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </button>
+                                <button
+                                  onClick={() => handleDelete(tx)}
+                                  className="p-2 rounded-full text-gray-400 hover:text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-900/30"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </button>
+                              </div>
                             </div>
                           </div>
                         </div>
-                      </li>
-                    );
-                  })}
-                </ul>
+                      );
+                    }}
+                  />
+                  {historyCursor && (
+                    <div className="p-4 text-center border-t border-gray-200 dark:border-gray-700">
+                      <button
+                        onClick={() => void fetchOlderTransactions()}
+                        disabled={isLoadingOlder}
+                        className="px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                      >
+                        {isLoadingOlder
+                          ? "Loading..."
+                          : "Load older transactions"}
+                      </button>
+                    </div>
+                  )}
+                </div>
               )}
             </div>
           </section>
@@ -987,7 +2350,7 @@ function App() {
                             {accName}
                           </span>
                           <span className="font-medium text-emerald-600 dark:text-emerald-400">
-                            {formatCurrency(total)}
+                            {formatCurrency(total, baseCurrency)}
                           </span>
                         </li>
                       )
@@ -1017,7 +2380,7 @@ function App() {
                             {accName}
                           </span>
                           <span className="font-medium text-rose-600 dark:text-rose-400">
-                            {formatCurrency(total)}
+                            {formatCurrency(total, baseCurrency)}
                           </span>
                         </li>
                       )
@@ -1029,8 +2392,61 @@ function App() {
                   </p>
                 )}
               </div>
+              <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow border border-gray-100 dark:border-gray-700 sm:col-span-2">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-indigo-600 dark:text-indigo-400">
+                    Business vs Personal Spending
+                  </h3>
+                  <div className="p-2 rounded-lg bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400">
+                    <Briefcase className="h-5 w-5" />
+                  </div>
+                </div>
+                <ul className="space-y-3">
+                  <li className="flex justify-between">
+                    <span className="text-gray-700 dark:text-gray-300">
+                      Business
+                    </span>
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {formatCurrency(purposeTotals.business, baseCurrency)}
+                    </span>
+                  </li>
+                  <li className="flex justify-between">
+                    <span className="text-gray-700 dark:text-gray-300">
+                      Personal
+                    </span>
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {formatCurrency(purposeTotals.personal, baseCurrency)}
+                    </span>
+                  </li>
+                  {purposeTotals.unassigned !== 0 && (
+                    <li className="flex justify-between">
+                      <span className="text-gray-500 dark:text-gray-400">
+                        No purpose set
+                      </span>
+                      <span className="font-medium text-gray-500 dark:text-gray-400">
+                        {formatCurrency(purposeTotals.unassigned, baseCurrency)}
+                      </span>
+                    </li>
+                  )}
+                </ul>
+                <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+                  Expenses and purchases; mixed items are split by their
+                  business percentage.
+                </p>
+              </div>
             </div>
           </section>
+
+          {/* Inventory Reconciliation */}
+          <section>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+              Inventory Reconciliation
+            </h2>
+            <ShrinkageReport
+              transactions={shrinkageTransactions}
+              unit={massUnit}
+            />
+          </section>
         </main>
       </div>
     </div>
@@ -0,0 +1,142 @@
+// src/analytics.ts
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { Transaction } from "./db";
+import { linesOf } from "./splits";
+
+export type ChartPeriod = "daily" | "weekly" | "monthly";
+
+export const CHART_PERIODS: { value: ChartPeriod; label: string }[] = [
+  { value: "daily", label: "Daily (30 days)" },
+  { value: "weekly", label: "Weekly (12 weeks)" },
+  { value: "monthly", label: "Monthly (12 months)" },
+];
+
+const PERIOD_CONFIG = {
+  daily: { count: 30, start: startOfDay, add: addDays, label: "MMM d" },
+  weekly: { count: 12, start: startOfWeek, add: addWeeks, label: "MMM d" },
+  monthly: { count: 12, start: startOfMonth, add: addMonths, label: "MMM yy" },
+};
+
+export interface CashFlowPoint {
+  label: string;
+  income: number;
+  expenses: number; // Negative
+  net: number;
+}
+
+// Keys are "income:<category>" or "expense:<category>"
+export type CategoryPoint = { label: string } & Record<string, number | string>;
+
+export interface WeightPoint {
+  label: string;
+  weightOnHand: number;
+}
+
+export interface RatioPoint {
+  label: string;
+  ratio: number | null;
+}
+
+export interface TimeSeries {
+  cashFlow: CashFlowPoint[];
+  categories: CategoryPoint[];
+  incomeCategories: string[];
+  expenseCategories: string[];
+  weight: WeightPoint[];
+  ratio: RatioPoint[];
+}
+
+// Builds every chart series over the same buckets, ending with the bucket
+// that contains `now`. Transfers are left out of cash flow since they only
+// move money between accounts. Products counted in pieces are left out of
+// the weight and ratio series.
+export const buildTimeSeries = (
+  transactions: Transaction[],
+  period: ChartPeriod,
+  accountId: string | null,
+  countedProducts: Set<string> = new Set(),
+  now: number = Date.now()
+): TimeSeries => {
+  const config = PERIOD_CONFIG[period];
+  const last = config.start(new Date(now));
+  const starts = Array.from({ length: config.count }, (_, i) =>
+    config.add(last, i - config.count + 1).getTime()
+  );
+  const end = config.add(last, 1).getTime();
+
+  const cashFlow: CashFlowPoint[] = starts.map((start) => ({
+    label: format(start, config.label),
+    income: 0,
+    expenses: 0,
+    net: 0,
+  }));
+  const categories: CategoryPoint[] = cashFlow.map(({ label }) => ({ label }));
+  const sales = starts.map(() => ({ amount: 0, weight: 0 }));
+  const weightChanges = starts.map(() => 0);
+  const incomeCategories = new Set<string>();
+  const expenseCategories = new Set<string>();
+  let openingWeight = 0;
+
+  const bucketOf = (timestamp: number) => {
+    if (timestamp < starts[0] || timestamp >= end) return -1;
+    let index = starts.length - 1;
+    while (starts[index] > timestamp) index--;
+    return index;
+  };
+
+  transactions.forEach((tx) => {
+    if (accountId && tx.account_id !== accountId) return;
+    const byWeight = !tx.product_id || !countedProducts.has(tx.product_id);
+    if (tx.timestamp < starts[0]) {
+      if (byWeight) openingWeight += tx.weightChange;
+      return;
+    }
+    const index = bucketOf(tx.timestamp);
+    if (index < 0) return;
+
+    if (byWeight) weightChanges[index] += tx.weightChange;
+    if (tx.type === "Sale" && byWeight) {
+      sales[index].amount += tx.amount;
+      sales[index].weight += Math.abs(tx.weightChange);
+    }
+    if (tx.type === "Transfer" || tx.amount === 0) return;
+
+    const point = cashFlow[index];
+    if (tx.amount > 0) point.income += tx.amount;
+    else point.expenses += tx.amount;
+    point.net += tx.amount;
+
+    // Split rows are charted under each line's category
+    linesOf(tx).forEach((line) => {
+      const category = line.category ?? "Uncategorized";
+      const key = tx.amount > 0 ? `income:${category}` : `expense:${category}`;
+      (tx.amount > 0 ? incomeCategories : expenseCategories).add(category);
+      categories[index][key] =
+        ((categories[index][key] as number | undefined) ?? 0) + line.amount;
+    });
+  });
+
+  let runningWeight = openingWeight;
+  return {
+    cashFlow,
+    categories,
+    incomeCategories: [...incomeCategories].sort(),
+    expenseCategories: [...expenseCategories].sort(),
+    weight: cashFlow.map(({ label }, i) => {
+      runningWeight += weightChanges[i];
+      return { label, weightOnHand: runningWeight };
+    }),
+    ratio: cashFlow.map(({ label }, i) => ({
+      label,
+      ratio: sales[i].weight > 0 ? sales[i].amount / sales[i].weight : null,
+    })),
+  };
+};
@@ -0,0 +1,79 @@
+// src/audit.ts
+import { Account, Transaction } from "./db";
+
+export type AuditAction = "insert" | "update" | "delete";
+
+// One recorded change to a transaction, as the server's trail has it
+// (supabase/migrations). Only changes that reached the server are recorded.
+export interface AuditEntry {
+  id: number;
+  transaction_id: number;
+  account_id: string; // After the change; before it, for deletes
+  previous_account_id?: string; // Set when the change moved the row
+  action: AuditAction;
+  before?: Transaction; // Unset for inserts
+  after?: Transaction; // Unset for deletes
+  changed_by?: string; // Unset when the database was changed directly
+  changed_by_email?: string;
+  changed_at: number;
+}
+
+// What the history drawer is showing
+export type AuditTarget =
+  | { kind: "transaction"; transaction: Transaction }
+  | { kind: "account"; account: Account };
+
+// Entries the account activity log loads at a time
+export const ACTIVITY_PAGE_SIZE = 50;
+
+export type AuditedField =
+  | "timestamp"
+  | "type"
+  | "account_id"
+  | "amount"
+  | "weightChange"
+  | "unit"
+  | "product_id"
+  | "category"
+  | "purpose"
+  | "business_percent"
+  | "splits"
+  | "adjustment_reason"
+  | "notes"
+  | "related_transaction_id";
+
+// In the order an edit lists them
+export const AUDITED_FIELDS: { field: AuditedField; label: string }[] = [
+  { field: "timestamp", label: "Date" },
+  { field: "type", label: "Type" },
+  { field: "account_id", label: "Account" },
+  { field: "amount", label: "Amount" },
+  { field: "weightChange", label: "Quantity" },
+  { field: "unit", label: "Unit" },
+  { field: "product_id", label: "Product" },
+  { field: "category", label: "Category" },
+  { field: "purpose", label: "Purpose" },
+  { field: "business_percent", label: "Business share" },
+  { field: "splits", label: "Splits" },
+  { field: "adjustment_reason", label: "Reason" },
+  { field: "notes", label: "Notes" },
+  { field: "related_transaction_id", label: "Linked transaction" },
+];
+
+export interface FieldChange {
+  field: AuditedField;
+  label: string;
+  before: Transaction; // The whole row, so values can be shown in context
+  after: Transaction;
+}
+
+// The fields an update changed; inserts and deletes change none
+export const changedFields = (entry: AuditEntry): FieldChange[] => {
+  const { before, after } = entry;
+  if (!before || !after) return [];
+  return AUDITED_FIELDS.filter(
+    ({ field }) =>
+      JSON.stringify(before[field] ?? null) !==
+      JSON.stringify(after[field] ?? null)
+  ).map(({ field, label }) => ({ field, label, before, after }));
+};
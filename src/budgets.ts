@@ -0,0 +1,118 @@
+// src/budgets.ts
+import { addMonths, addWeeks, startOfMonth, startOfWeek } from "date-fns";
+import {
+  Budget,
+  BudgetPeriod,
+  Category,
+  HistoryExpenseTotal,
+  Transaction,
+} from "./db";
+import { linesOf } from "./splits";
+
+export const BUDGET_PERIODS: { value: BudgetPeriod; label: string }[] = [
+  { value: "monthly", label: "Monthly" },
+  { value: "weekly", label: "Weekly" },
+];
+
+// Alerts fire when spending first reaches these shares of the limit
+export const BUDGET_THRESHOLDS = [0.8, 1];
+
+export const periodStart = (period: BudgetPeriod, timestamp: number) =>
+  (period === "weekly"
+    ? startOfWeek(timestamp)
+    : startOfMonth(timestamp)
+  ).getTime();
+
+const nextPeriodStart = (period: BudgetPeriod, start: number) =>
+  (period === "weekly" ? addWeeks(start, 1) : addMonths(start, 1)).getTime();
+
+export interface BudgetProgress {
+  spent: number; // This period, in the base currency
+  carried: number; // Unspent amount rolled over from earlier periods
+  limit: number; // amount + carried
+  ratio: number; // spent / limit
+}
+
+// Transactions store the category name, and a budget on a parent also
+// covers its children
+const coveredNames = (budget: Budget, categories: Category[]) =>
+  new Set(
+    categories
+      .filter(
+        (cat) =>
+          cat.id === budget.category_id || cat.parent_id === budget.category_id
+      )
+      .map((cat) => cat.name)
+  );
+
+// Spending per budget for the current period, from transactions already in
+// the base currency, plus day totals for the history not loaded. Split
+// expenses count line by line. Expense amounts are negative, so refunds
+// recorded as positive expenses reduce the total.
+export const computeBudgetProgress = (
+  budgets: Budget[],
+  categories: Category[],
+  transactions: Transaction[],
+  olderExpenses: HistoryExpenseTotal[] = [],
+  now = Date.now()
+): Record<string, BudgetProgress> => {
+  const progress: Record<string, BudgetProgress> = {};
+
+  budgets.forEach((budget) => {
+    const names = coveredNames(budget, categories);
+    const spentByPeriod = new Map<number, number>();
+    transactions.forEach((tx) => {
+      if (tx.type !== "Expense") return;
+      if (budget.account_id && tx.account_id !== budget.account_id) return;
+      const amount = linesOf(tx)
+        .filter((line) => line.category && names.has(line.category))
+        .reduce((sum, line) => sum + line.amount, 0);
+      if (amount === 0) return;
+      const start = periodStart(budget.period, tx.timestamp);
+      spentByPeriod.set(start, (spentByPeriod.get(start) ?? 0) - amount);
+    });
+    olderExpenses.forEach((total) => {
+      if (budget.account_id && total.account_id !== budget.account_id) return;
+      if (!names.has(total.category)) return;
+      const start = periodStart(budget.period, total.day);
+      spentByPeriod.set(start, (spentByPeriod.get(start) ?? 0) - total.amount);
+    });
+
+    const current = periodStart(budget.period, now);
+    let carried = 0;
+    if (budget.rollover) {
+      for (
+        let start = periodStart(budget.period, budget.created_at);
+        start < current;
+        start = nextPeriodStart(budget.period, start)
+      ) {
+        const spent = spentByPeriod.get(start) ?? 0;
+        carried = Math.max(0, budget.amount + carried - spent);
+      }
+    }
+
+    const spent = spentByPeriod.get(current) ?? 0;
+    const limit = budget.amount + carried;
+    progress[budget.id] = {
+      spent,
+      carried,
+      limit,
+      ratio: limit > 0 ? spent / limit : spent > 0 ? Infinity : 0,
+    };
+  });
+
+  return progress;
+};
+
+// The highest threshold each budget newly reached between two snapshots
+export const crossedThresholds = (
+  before: Record<string, BudgetProgress>,
+  after: Record<string, BudgetProgress>
+): { budgetId: string; threshold: number }[] =>
+  Object.entries(after).flatMap(([budgetId, { ratio }]) => {
+    const previous = before[budgetId]?.ratio ?? 0;
+    const threshold = [...BUDGET_THRESHOLDS]
+      .reverse()
+      .find((level) => previous < level && ratio >= level);
+    return threshold ? [{ budgetId, threshold }] : [];
+  });
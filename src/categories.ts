@@ -0,0 +1,108 @@
+// src/categories.ts
+import {
+  Banknote,
+  Briefcase,
+  Car,
+  Gift,
+  HeartPulse,
+  Home,
+  LucideIcon,
+  Package,
+  Plane,
+  Receipt,
+  ShoppingCart,
+  Tag,
+  User,
+  Utensils,
+  Wrench,
+  Zap,
+} from "lucide-react";
+import { Category } from "./db";
+
+// Icons a category can pick from, keyed by the name stored on the category
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  tag: Tag,
+  user: User,
+  briefcase: Briefcase,
+  cart: ShoppingCart,
+  banknote: Banknote,
+  package: Package,
+  zap: Zap,
+  receipt: Receipt,
+  home: Home,
+  car: Car,
+  utensils: Utensils,
+  health: HeartPulse,
+  gift: Gift,
+  wrench: Wrench,
+  plane: Plane,
+};
+
+export const CATEGORY_COLORS = [
+  "#10b981", // emerald
+  "#3b82f6", // blue
+  "#6366f1", // indigo
+  "#8b5cf6", // violet
+  "#ec4899", // pink
+  "#f43f5e", // rose
+  "#f59e0b", // amber
+  "#14b8a6", // teal
+  "#9ca3af", // gray
+];
+
+// Created for a user on first sign-in; matches the names the app used to
+// hard-code so existing transactions keep their category
+export const DEFAULT_CATEGORIES: {
+  name: string;
+  icon: string;
+  color: string;
+  parent?: string;
+}[] = [
+  { name: "Personal", icon: "user", color: "#10b981" },
+  { name: "Business", icon: "briefcase", color: "#3b82f6" },
+  { name: "Supplies", icon: "package", color: "#6366f1", parent: "Business" },
+  { name: "Fees", icon: "receipt", color: "#f43f5e", parent: "Business" },
+  { name: "Groceries", icon: "cart", color: "#f59e0b", parent: "Personal" },
+  { name: "Income", icon: "banknote", color: "#10b981" },
+  { name: "Utilities", icon: "zap", color: "#8b5cf6" },
+  { name: "Other", icon: "tag", color: "#9ca3af" },
+];
+
+export const sameCategoryName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export interface CategoryNode {
+  category: Category;
+  depth: number; // 0 for top level, 1 for children
+}
+
+// Parents in name order, each followed by its children. Children whose
+// parent is missing or nested itself are shown at the top level.
+export const categoryTree = (categories: Category[]): CategoryNode[] => {
+  const byId = new Map(categories.map((cat) => [cat.id, cat]));
+  const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+  const isRoot = (cat: Category) => {
+    const parent = cat.parent_id ? byId.get(cat.parent_id) : undefined;
+    return !parent || !!parent.parent_id;
+  };
+
+  return categories
+    .filter(isRoot)
+    .sort(byName)
+    .flatMap((parent) => [
+      { category: parent, depth: 0 },
+      ...categories
+        .filter((cat) => !isRoot(cat) && cat.parent_id === parent.id)
+        .sort(byName)
+        .map((category) => ({ category, depth: 1 })),
+    ]);
+};
+
+// "Business › Supplies"
+export const categoryPath = (
+  category: Category,
+  categories: Category[]
+): string => {
+  const parent = categories.find((cat) => cat.id === category.parent_id);
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+};
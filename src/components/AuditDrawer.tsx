@@ -0,0 +1,296 @@
+// src/components/AuditDrawer.tsx
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { ArrowRight, History, X } from "lucide-react";
+import { useAppStore } from "../store";
+import { Transaction } from "../db";
+import {
+  ACTIVITY_PAGE_SIZE,
+  AuditedField,
+  AuditEntry,
+  AuditTarget,
+  changedFields,
+} from "../audit";
+import { currencyOf } from "../currency";
+import {
+  formatCurrency,
+  formatProductName,
+  formatPurpose,
+  formatWeight,
+} from "../format";
+
+interface AuditDrawerProps {
+  target: AuditTarget;
+  onClose: () => void;
+}
+
+const ACTION_LABELS = {
+  insert: "Created",
+  update: "Edited",
+  delete: "Deleted",
+} as const;
+
+// The server's record of changes to one transaction, or to every
+// transaction in an account
+export default function AuditDrawer({ target, onClose }: AuditDrawerProps) {
+  const user = useAppStore((state) => state.user);
+  const accounts = useAppStore((state) => state.accounts);
+  const products = useAppStore((state) => state.products);
+  const isOnline = useAppStore((state) => state.isOnline);
+  const pendingTransactionIds = useAppStore(
+    (state) => state.pendingTransactionIds
+  );
+  const fetchTransactionHistory = useAppStore(
+    (state) => state.fetchTransactionHistory
+  );
+  const fetchAccountActivity = useAppStore(
+    (state) => state.fetchAccountActivity
+  );
+
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const transaction = target.kind === "transaction" ? target.transaction : null;
+  const unsynced = transaction !== null && transaction.id < 0;
+  const hasPending =
+    transaction !== null && pendingTransactionIds.has(transaction.id);
+
+  useEffect(() => {
+    if (!isOnline || unsynced) return;
+    let cancelled = false;
+    setFailed(false);
+    const request =
+      target.kind === "transaction"
+        ? fetchTransactionHistory(target.transaction.id)
+        : fetchAccountActivity(target.account.id);
+    void request.then((page) => {
+      if (cancelled) return;
+      if (!page) {
+        setFailed(true);
+        return;
+      }
+      setEntries(page);
+      setHasMore(
+        target.kind === "account" && page.length === ACTIVITY_PAGE_SIZE
+      );
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    target,
+    isOnline,
+    unsynced,
+    attempt,
+    fetchTransactionHistory,
+    fetchAccountActivity,
+  ]);
+
+  const loadMore = async () => {
+    if (target.kind !== "account" || !entries?.length) return;
+    setIsLoadingMore(true);
+    const page = await fetchAccountActivity(
+      target.account.id,
+      entries[entries.length - 1].id
+    );
+    setIsLoadingMore(false);
+    if (!page) return;
+    setEntries([...entries, ...page]);
+    setHasMore(page.length === ACTIVITY_PAGE_SIZE);
+  };
+
+  const accountsById = new Map(accounts.map((acc) => [acc.id, acc]));
+  const productsById = new Map(products.map((p) => [p.id, p]));
+
+  const formatValue = (field: AuditedField, tx: Transaction): string => {
+    switch (field) {
+      case "timestamp":
+        return format(tx.timestamp, "MMM d, yyyy h:mm a");
+      case "account_id":
+        return accountsById.get(tx.account_id)?.name ?? "Deleted account";
+      case "amount":
+        return formatCurrency(
+          tx.amount,
+          currencyOf(accountsById.get(tx.account_id))
+        );
+      case "weightChange":
+        return formatWeight(tx.weightChange, tx.unit);
+      case "unit":
+        return tx.unit ?? "g";
+      case "product_id": {
+        if (!tx.product_id) return "None";
+        const product = productsById.get(tx.product_id);
+        return product ? formatProductName(product) : "Deleted product";
+      }
+      case "purpose":
+        return tx.purpose
+          ? formatPurpose(tx.purpose, tx.business_percent)
+          : "None";
+      case "business_percent":
+        return tx.business_percent !== undefined
+          ? `${tx.business_percent}%`
+          : "None";
+      case "splits":
+        return tx.splits?.length
+          ? `${tx.splits.length} line${tx.splits.length !== 1 ? "s" : ""}`
+          : "None";
+      case "related_transaction_id":
+        return tx.related_transaction_id
+          ? `#${tx.related_transaction_id}`
+          : "None";
+      default:
+        return tx[field] || "None";
+    }
+  };
+
+  // The row as it was created or just before it was deleted
+  const describeRow = (tx: Transaction) =>
+    [
+      formatValue("amount", tx),
+      tx.weightChange !== 0 && formatValue("weightChange", tx),
+      tx.category,
+      tx.notes,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+  const changedBy = (entry: AuditEntry) =>
+    entry.changed_by && entry.changed_by === user?.id
+      ? "You"
+      : entry.changed_by_email ??
+        (entry.changed_by ? "Another user" : "Changed in the database");
+
+  const notice = !isOnline
+    ? "The history is kept on the server. Connect to see it."
+    : unsynced
+    ? "This transaction hasn't reached the server yet, so nothing has been recorded."
+    : null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-end z-50">
+      <div className="h-full w-full max-w-md bg-white dark:bg-gray-800 shadow-lg flex flex-col">
+        <div className="flex justify-between items-start p-6 border-b border-gray-100 dark:border-gray-700">
+          <div>
+            <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+              <History className="h-5 w-5" />
+              {transaction ? "Transaction History" : "Account Activity"}
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {transaction
+                ? `${transaction.type} · ${formatValue(
+                    "amount",
+                    transaction
+                  )} · ${format(transaction.timestamp, "MMM d, yyyy")}`
+                : target.kind === "account" && target.account.name}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {notice ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">{notice}</p>
+          ) : failed ? (
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              <p>Couldn't load the history.</p>
+              <button
+                onClick={() => setAttempt(attempt + 1)}
+                className="mt-2 font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300"
+              >
+                Try again
+              </button>
+            </div>
+          ) : entries === null ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Loading...
+            </p>
+          ) : (
+            <>
+              {hasPending && (
+                <p className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200 text-sm">
+                  Changes still waiting to sync will appear once they reach the
+                  server.
+                </p>
+              )}
+              {entries.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  No changes recorded. Changes made before the history was
+                  switched on aren't included.
+                </p>
+              ) : (
+                <ol className="space-y-4">
+                  {entries.map((entry) => {
+                    const row = (entry.after ?? entry.before) as Transaction;
+                    const changes = changedFields(entry);
+                    return (
+                      <li
+                        key={entry.id}
+                        className="pl-4 border-l-2 border-gray-200 dark:border-gray-600"
+                      >
+                        <div className="flex justify-between items-baseline gap-2">
+                          <p className="text-sm font-medium text-gray-900 dark:text-white">
+                            {ACTION_LABELS[entry.action]}
+                            {target.kind === "account" &&
+                              ` ${row.type.toLowerCase()} #${
+                                entry.transaction_id
+                              }`}
+                          </p>
+                          <p className="text-xs text-gray-400 whitespace-nowrap">
+                            {format(entry.changed_at, "MMM d, yyyy h:mm a")}
+                          </p>
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {changedBy(entry)}
+                        </p>
+                        {entry.action === "update" ? (
+                          <ul className="mt-1 space-y-1">
+                            {changes.map((change) => (
+                              <li
+                                key={change.field}
+                                className="text-sm text-gray-700 dark:text-gray-300"
+                              >
+                                <span className="text-gray-500 dark:text-gray-400">
+                                  {change.label}:
+                                </span>{" "}
+                                <span className="line-through text-gray-400">
+                                  {formatValue(change.field, change.before)}
+                                </span>
+                                <ArrowRight className="inline h-3 w-3 mx-1" />
+                                {formatValue(change.field, change.after)}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+                            {describeRow(row)}
+                          </p>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+              {hasMore && (
+                <button
+                  onClick={loadMore}
+                  disabled={isLoadingMore}
+                  className="w-full px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  {isLoadingMore ? "Loading..." : "Load older changes"}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
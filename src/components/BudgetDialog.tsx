@@ -0,0 +1,194 @@
+// src/components/BudgetDialog.tsx
+import React, { useState } from "react";
+import { X } from "lucide-react";
+import { Account, Budget, BudgetPeriod, Category } from "../db";
+import { BUDGET_PERIODS } from "../budgets";
+import { categoryPath, categoryTree } from "../categories";
+import { currencySymbol } from "../format";
+import { useSettingsStore } from "../settings";
+
+export type BudgetInput = Pick<
+  Budget,
+  "category_id" | "account_id" | "period" | "amount" | "rollover"
+>;
+
+interface BudgetDialogProps {
+  budget: Budget | null; // null when adding
+  accounts: Account[];
+  categories: Category[];
+  isLoading: boolean;
+  onSave: (budget: BudgetInput) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+export default function BudgetDialog({
+  budget,
+  accounts,
+  categories,
+  isLoading,
+  onSave,
+  onClose,
+}: BudgetDialogProps) {
+  const baseCurrency = useSettingsStore((state) => state.baseCurrency);
+  const options = categoryTree(
+    categories.filter((cat) => !cat.archived || cat.id === budget?.category_id)
+  );
+  const [categoryId, setCategoryId] = useState(
+    budget?.category_id ?? options[0]?.category.id ?? ""
+  );
+  const [accountId, setAccountId] = useState(budget?.account_id ?? "");
+  const [period, setPeriod] = useState<BudgetPeriod>(
+    budget?.period ?? "monthly"
+  );
+  const [amountInput, setAmountInput] = useState(
+    budget ? String(budget.amount) : ""
+  );
+  const [rollover, setRollover] = useState(budget?.rollover ?? false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(amountInput);
+    if (!categoryId || isNaN(amount) || amount <= 0) return;
+    const saved = await onSave({
+      category_id: categoryId,
+      account_id: accountId || undefined,
+      period,
+      amount,
+      rollover,
+    });
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg w-full max-w-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {budget ? "Edit Budget" : "Add Budget"}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label
+              htmlFor="budgetCategory"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Category
+            </label>
+            <select
+              id="budgetCategory"
+              value={categoryId}
+              onChange={(e) => setCategoryId(e.target.value)}
+              className={inputClass}
+              required
+            >
+              {options.map(({ category }) => (
+                <option key={category.id} value={category.id}>
+                  {categoryPath(category, categories)}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              A budget on a parent category also counts its subcategories.
+            </p>
+          </div>
+          <div>
+            <label
+              htmlFor="budgetAccount"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Account
+            </label>
+            <select
+              id="budgetAccount"
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">All accounts</option>
+              {accounts.map((acc) => (
+                <option key={acc.id} value={acc.id}>
+                  {acc.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="budgetPeriod"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Period
+              </label>
+              <select
+                id="budgetPeriod"
+                value={period}
+                onChange={(e) => setPeriod(e.target.value as BudgetPeriod)}
+                className={inputClass}
+              >
+                {BUDGET_PERIODS.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor="budgetAmount"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Limit ({currencySymbol(baseCurrency)})
+              </label>
+              <input
+                id="budgetAmount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={amountInput}
+                onChange={(e) => setAmountInput(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={rollover}
+              onChange={(e) => setRollover(e.target.checked)}
+              className="rounded border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500"
+            />
+            Roll unspent amounts into the next period
+          </label>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading || !categoryId}
+              className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+            >
+              {budget ? "Save Changes" : "Add Budget"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+// src/components/BudgetProgressList.tsx
+import { useState } from "react";
+import { Edit, PiggyBank, PlusCircle, Trash2 } from "lucide-react";
+import cn from "classnames";
+import { Account, Budget, Category } from "../db";
+import { BUDGET_THRESHOLDS, BudgetProgress } from "../budgets";
+import { categoryPath } from "../categories";
+import { formatCurrency } from "../format";
+import { useSettingsStore } from "../settings";
+import BudgetDialog, { BudgetInput } from "./BudgetDialog";
+import CategoryIcon from "./CategoryIcon";
+
+interface BudgetProgressListProps {
+  budgets: Budget[];
+  progress: Record<string, BudgetProgress>;
+  accounts: Account[];
+  categories: Category[];
+  isLoading: boolean;
+  onAdd: (budget: BudgetInput) => Promise<boolean>;
+  onUpdate: (id: string, changes: Partial<Budget>) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+const [WARNING_RATIO, LIMIT_RATIO] = BUDGET_THRESHOLDS;
+
+export default function BudgetProgressList({
+  budgets,
+  progress,
+  accounts,
+  categories,
+  isLoading,
+  onAdd,
+  onUpdate,
+  onDelete,
+}: BudgetProgressListProps) {
+  const [editing, setEditing] = useState<Budget | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const baseCurrency = useSettingsStore((state) => state.baseCurrency);
+
+  const categoryName = (budget: Budget) => {
+    const category = categories.find((cat) => cat.id === budget.category_id);
+    return category ? categoryPath(category, categories) : "Unknown";
+  };
+  const rows = [...budgets].sort((a, b) =>
+    categoryName(a).localeCompare(categoryName(b))
+  );
+
+  const handleSave = (input: BudgetInput) =>
+    editing ? onUpdate(editing.id, input) : onAdd(input);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow border border-gray-100 dark:border-gray-700 overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-gray-100 dark:border-gray-700">
+        <div className="flex items-center gap-2 text-gray-900 dark:text-white font-semibold">
+          <PiggyBank className="h-5 w-5 text-indigo-500" />
+          Budgets
+        </div>
+        <button
+          onClick={() => {
+            setEditing(null);
+            setShowForm(true);
+          }}
+          className="inline-flex items-center px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium transition-colors"
+        >
+          <PlusCircle className="h-4 w-4 mr-2" />
+          Add Budget
+        </button>
+      </div>
+      {rows.length === 0 ? (
+        <p className="p-6 text-center text-gray-500 dark:text-gray-400">
+          No budgets yet. Add one to cap spending in a category.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          {rows.map((budget) => {
+            const { spent, limit, carried, ratio } = progress[budget.id] ?? {
+              spent: 0,
+              limit: budget.amount,
+              carried: 0,
+              ratio: 0,
+            };
+            const account = accounts.find(
+              (acc) => acc.id === budget.account_id
+            );
+            return (
+              <li key={budget.id} className="p-4 space-y-2">
+                <div className="flex items-center gap-3">
+                  <CategoryIcon
+                    category={categories.find(
+                      (cat) => cat.id === budget.category_id
+                    )}
+                  />
+                  <span className="flex-1 font-medium text-gray-900 dark:text-white">
+                    {categoryName(budget)}
+                    <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                      {budget.period === "weekly" ? "Weekly" : "Monthly"}
+                      {account && ` · ${account.name}`}
+                      {budget.rollover && " · Rollover"}
+                    </span>
+                  </span>
+                  <span
+                    className={cn(
+                      "text-gray-700 dark:text-gray-300",
+                      ratio >= LIMIT_RATIO && "text-rose-600 dark:text-rose-400"
+                    )}
+                  >
+                    {formatCurrency(spent, baseCurrency)} of{" "}
+                    {formatCurrency(limit, baseCurrency)}
+                  </span>
+                  <button
+                    onClick={() => {
+                      setEditing(budget);
+                      setShowForm(true);
+                    }}
+                    className="p-1 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400"
+                    title="Edit budget"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(budget.id)}
+                    className="p-1 text-gray-400 hover:text-rose-600 dark:hover:text-rose-400"
+                    title="Delete budget"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                  <div
+                    className={cn(
+                      "h-full rounded-full",
+                      ratio >= LIMIT_RATIO
+                        ? "bg-rose-500"
+                        : ratio >= WARNING_RATIO
+                        ? "bg-amber-500"
+                        : "bg-emerald-500"
+                    )}
+                    style={{ width: `${Math.min(ratio, 1) * 100}%` }}
+                  />
+                </div>
+                {carried > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Includes {formatCurrency(carried, baseCurrency)} rolled over
+                    from earlier periods.
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {showForm && (
+        <BudgetDialog
+          budget={editing}
+          accounts={accounts.filter(
+            (acc) => !acc.archived || acc.id === editing?.account_id
+          )}
+          categories={categories}
+          isLoading={isLoading}
+          onSave={handleSave}
+          onClose={() => setShowForm(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+// src/components/CategoryDialog.tsx
+import React, { useState } from "react";
+import { X } from "lucide-react";
+import cn from "classnames";
+import { Category } from "../db";
+import {
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  sameCategoryName,
+} from "../categories";
+import CategoryIcon from "./CategoryIcon";
+
+export type CategoryInput = Pick<
+  Category,
+  "name" | "icon" | "color" | "parent_id"
+>;
+
+interface CategoryDialogProps {
+  category: Category | null; // null when adding
+  categories: Category[];
+  isLoading: boolean;
+  onSave: (category: CategoryInput) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+export default function CategoryDialog({
+  category,
+  categories,
+  isLoading,
+  onSave,
+  onClose,
+}: CategoryDialogProps) {
+  const [name, setName] = useState(category?.name ?? "");
+  const [parentId, setParentId] = useState(category?.parent_id ?? "");
+  const [icon, setIcon] = useState(category?.icon ?? "tag");
+  const [color, setColor] = useState(category?.color ?? CATEGORY_COLORS[0]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Nesting is one level deep, so only top-level categories can be parents
+  // and a category with children stays at the top
+  const hasChildren = categories.some(
+    (cat) => category && cat.parent_id === category.id
+  );
+  const parents = categories.filter(
+    (cat) =>
+      !cat.archived && !cat.parent_id && (!category || cat.id !== category.id)
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (
+      categories.some(
+        (cat) => cat.id !== category?.id && sameCategoryName(cat.name, trimmed)
+      )
+    ) {
+      setError(`A category named "${trimmed}" already exists.`);
+      return;
+    }
+    const saved = await onSave({
+      name: trimmed,
+      icon,
+      color,
+      parent_id: parentId || undefined,
+    });
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg w-full max-w-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {category ? "Edit Category" : "Add Category"}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label
+              htmlFor="categoryName"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Name
+            </label>
+            <input
+              id="categoryName"
+              type="text"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(null);
+              }}
+              className={inputClass}
+              required
+            />
+            {category && name.trim() && name.trim() !== category.name && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Existing transactions will be renamed too.
+              </p>
+            )}
+          </div>
+          <div>
+            <label
+              htmlFor="categoryParent"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Parent
+            </label>
+            <select
+              id="categoryParent"
+              value={parentId}
+              onChange={(e) => setParentId(e.target.value)}
+              className={inputClass}
+              disabled={hasChildren}
+            >
+              <option value="">None (top level)</option>
+              {parents.map((cat) => (
+                <option key={cat.id} value={cat.id}>
+                  {cat.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Icon
+            </span>
+            <div className="grid grid-cols-8 gap-2">
+              {Object.keys(CATEGORY_ICONS).map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setIcon(key)}
+                  className={cn(
+                    "p-2 rounded-lg border flex items-center justify-center",
+                    icon === key
+                      ? "border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30"
+                      : "border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  )}
+                  title={key}
+                >
+                  <CategoryIcon category={{ icon: key, color }} />
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Color
+            </span>
+            <div className="flex flex-wrap gap-2">
+              {CATEGORY_COLORS.map((swatch) => (
+                <button
+                  key={swatch}
+                  type="button"
+                  onClick={() => setColor(swatch)}
+                  className={cn(
+                    "h-7 w-7 rounded-full border-2",
+                    color === swatch
+                      ? "border-gray-900 dark:border-white"
+                      : "border-transparent"
+                  )}
+                  style={{ backgroundColor: swatch }}
+                  title={swatch}
+                />
+              ))}
+            </div>
+          </div>
+          {error && (
+            <p className="text-sm text-rose-600 dark:text-rose-400">{error}</p>
+          )}
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+            >
+              {category ? "Save Changes" : "Add Category"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+// src/components/CategoryIcon.tsx
+import { HelpCircle } from "lucide-react";
+import cn from "classnames";
+import { Category } from "../db";
+import { CATEGORY_ICONS } from "../categories";
+
+interface CategoryIconProps {
+  category?: Pick<Category, "icon" | "color">; // Unknown names fall back
+  className?: string;
+}
+
+export default function CategoryIcon({
+  category,
+  className = "h-4 w-4",
+}: CategoryIconProps) {
+  const Icon = (category && CATEGORY_ICONS[category.icon]) || HelpCircle;
+  return (
+    <Icon
+      className={cn(className, !category && "text-gray-400")}
+      style={category ? { color: category.color } : undefined}
+    />
+  );
+}
@@ -0,0 +1,219 @@
+// src/components/CategoryManager.tsx
+import { useMemo, useState } from "react";
+import {
+  Archive,
+  ArchiveRestore,
+  Edit,
+  Merge,
+  PlusCircle,
+  X,
+} from "lucide-react";
+import cn from "classnames";
+import { Category, Transaction } from "../db";
+import { categoriesOf } from "../splits";
+import { categoryPath, categoryTree } from "../categories";
+import CategoryDialog, { CategoryInput } from "./CategoryDialog";
+import CategoryIcon from "./CategoryIcon";
+
+interface CategoryManagerProps {
+  categories: Category[];
+  transactions: Transaction[];
+  isLoading: boolean;
+  onAdd: (category: CategoryInput & { archived: boolean }) => Promise<boolean>;
+  onUpdate: (id: string, changes: Partial<Category>) => Promise<boolean>;
+  onMerge: (sourceId: string, targetId: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export default function CategoryManager({
+  categories,
+  transactions,
+  isLoading,
+  onAdd,
+  onUpdate,
+  onMerge,
+  onClose,
+}: CategoryManagerProps) {
+  const [editing, setEditing] = useState<Category | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [merging, setMerging] = useState<Category | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+
+  const usage = useMemo(() => {
+    const counts: Record<string, number> = {};
+    transactions.forEach((tx) => {
+      new Set(categoriesOf(tx)).forEach((name) => {
+        counts[name] = (counts[name] ?? 0) + 1;
+      });
+    });
+    return counts;
+  }, [transactions]);
+
+  // Archived categories stay listed, last, so they can be restored
+  const rows = [
+    ...categoryTree(categories.filter((cat) => !cat.archived)),
+    ...categoryTree(categories.filter((cat) => cat.archived)),
+  ];
+  const mergeTargets = categories.filter(
+    (cat) => !cat.archived && cat.id !== merging?.id
+  );
+
+  const handleSave = (input: CategoryInput) =>
+    editing
+      ? onUpdate(editing.id, input)
+      : onAdd({ ...input, archived: false });
+
+  const handleMerge = async () => {
+    if (!merging || !mergeTargetId) return;
+    if (await onMerge(merging.id, mergeTargetId)) {
+      setMerging(null);
+      setMergeTargetId("");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg w-full max-w-lg max-h-full overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Categories
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        {rows.length === 0 ? (
+          <p className="py-6 text-center text-gray-500 dark:text-gray-400">
+            No categories yet.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            {rows.map(({ category, depth }) => (
+              <li key={category.id} className="py-2">
+                <div
+                  className={cn(
+                    "flex items-center gap-3",
+                    depth > 0 && "pl-6",
+                    category.archived && "opacity-60"
+                  )}
+                >
+                  <CategoryIcon category={category} />
+                  <span className="flex-1 text-gray-900 dark:text-white">
+                    {category.name}
+                    {category.archived && (
+                      <span className="ml-2 text-xs text-gray-500">
+                        Archived
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {usage[category.name] ?? 0}
+                  </span>
+                  <button
+                    onClick={() => {
+                      setEditing(category);
+                      setShowForm(true);
+                    }}
+                    className="p-1 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400"
+                    title="Edit category"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </button>
+                  {!category.archived && (
+                    <button
+                      onClick={() => {
+                        setMerging(category);
+                        setMergeTargetId("");
+                      }}
+                      className="p-1 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400"
+                      title="Merge into another category"
+                    >
+                      <Merge className="h-4 w-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() =>
+                      onUpdate(category.id, { archived: !category.archived })
+                    }
+                    className="p-1 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400"
+                    title={
+                      category.archived
+                        ? "Restore category"
+                        : "Archive category"
+                    }
+                  >
+                    {category.archived ? (
+                      <ArchiveRestore className="h-4 w-4" />
+                    ) : (
+                      <Archive className="h-4 w-4" />
+                    )}
+                  </button>
+                </div>
+                {merging?.id === category.id && (
+                  <div className="mt-2 flex items-center gap-2">
+                    <select
+                      aria-label="Merge into"
+                      value={mergeTargetId}
+                      onChange={(e) => setMergeTargetId(e.target.value)}
+                      className="flex-1 px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                    >
+                      <option value="">Merge into…</option>
+                      {mergeTargets.map((cat) => (
+                        <option key={cat.id} value={cat.id}>
+                          {categoryPath(cat, categories)}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleMerge}
+                      disabled={!mergeTargetId || isLoading}
+                      className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm disabled:opacity-50"
+                    >
+                      Merge
+                    </button>
+                    <button
+                      onClick={() => setMerging(null)}
+                      className="px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex justify-between pt-6">
+          <button
+            onClick={() => {
+              setEditing(null);
+              setShowForm(true);
+            }}
+            className="inline-flex items-center px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium transition-colors"
+          >
+            <PlusCircle className="h-4 w-4 mr-2" />
+            Add Category
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+      {showForm && (
+        <CategoryDialog
+          category={editing}
+          categories={categories}
+          isLoading={isLoading}
+          onSave={handleSave}
+          onClose={() => setShowForm(false)}
+        />
+      )}
+    </div>
+  );
+}
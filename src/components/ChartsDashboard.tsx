@@ -0,0 +1,206 @@
+// src/components/ChartsDashboard.tsx
+import React, { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Account, Product, Transaction } from "../db";
+import { buildTimeSeries, CHART_PERIODS, ChartPeriod } from "../analytics";
+import { formatCurrency, formatPricePerUnit, formatWeight } from "../format";
+import { countedProductIds } from "../inventory";
+import { useSettingsStore } from "../settings";
+import { toPricePerUnit } from "../units";
+
+const INCOME_COLORS = ["#10b981", "#34d399", "#059669", "#6ee7b7", "#047857"];
+const EXPENSE_COLORS = ["#f43f5e", "#fb7185", "#e11d48", "#fda4af", "#be123c"];
+
+const axisProps = {
+  stroke: "#9ca3af",
+  fontSize: 12,
+  tickLine: false,
+};
+
+interface ChartsDashboardProps {
+  accounts: Account[];
+  products: Product[];
+  transactions: Transaction[]; // Amounts in the base currency
+}
+
+function ChartCard({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactElement;
+}) {
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow border border-gray-100 dark:border-gray-700">
+      <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-4">
+        {title}
+      </h3>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          {children}
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+export default function ChartsDashboard({
+  accounts,
+  products,
+  transactions,
+}: ChartsDashboardProps) {
+  const massUnit = useSettingsStore((state) => state.massUnit);
+  const baseCurrency = useSettingsStore((state) => state.baseCurrency);
+  const [period, setPeriod] = useState<ChartPeriod>("daily");
+  const [accountId, setAccountId] = useState<string>("");
+
+  const series = useMemo(
+    () =>
+      buildTimeSeries(
+        transactions,
+        period,
+        accountId || null,
+        countedProductIds(products)
+      ),
+    [transactions, products, period, accountId]
+  );
+
+  const currencyTooltip = (value: number) =>
+    formatCurrency(value, baseCurrency);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-3">
+        <select
+          value={period}
+          onChange={(e) => setPeriod(e.target.value as ChartPeriod)}
+          className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          aria-label="Chart period"
+        >
+          {CHART_PERIODS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={accountId}
+          onChange={(e) => setAccountId(e.target.value)}
+          className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          aria-label="Chart account"
+        >
+          <option value="">All accounts</option>
+          {accounts.map((acc) => (
+            <option key={acc.id} value={acc.id}>
+              {acc.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <ChartCard title="Net Cash Flow">
+          <BarChart data={series.cashFlow}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="label" {...axisProps} />
+            <YAxis {...axisProps} tickFormatter={currencyTooltip} width={80} />
+            <Tooltip formatter={currencyTooltip} />
+            <ReferenceLine y={0} stroke="#9ca3af" />
+            <Bar dataKey="net" name="Net" fill="#6366f1" />
+          </BarChart>
+        </ChartCard>
+
+        <ChartCard title="Income vs Expenses">
+          <BarChart data={series.categories} stackOffset="sign">
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="label" {...axisProps} />
+            <YAxis {...axisProps} tickFormatter={currencyTooltip} width={80} />
+            <Tooltip formatter={currencyTooltip} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <ReferenceLine y={0} stroke="#9ca3af" />
+            {series.incomeCategories.map((category, i) => (
+              <Bar
+                key={`income:${category}`}
+                dataKey={`income:${category}`}
+                name={category}
+                stackId="flow"
+                fill={INCOME_COLORS[i % INCOME_COLORS.length]}
+              />
+            ))}
+            {series.expenseCategories.map((category, i) => (
+              <Bar
+                key={`expense:${category}`}
+                dataKey={`expense:${category}`}
+                name={category}
+                stackId="flow"
+                fill={EXPENSE_COLORS[i % EXPENSE_COLORS.length]}
+              />
+            ))}
+          </BarChart>
+        </ChartCard>
+
+        <ChartCard title="Weight On Hand">
+          <LineChart data={series.weight}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="label" {...axisProps} />
+            <YAxis
+              {...axisProps}
+              tickFormatter={(value: number) => formatWeight(value, massUnit)}
+              width={70}
+            />
+            <Tooltip
+              formatter={(value: number) => formatWeight(value, massUnit)}
+            />
+            <Line
+              type="stepAfter"
+              dataKey="weightOnHand"
+              name="On hand"
+              stroke="#10b981"
+              strokeWidth={2}
+              dot={false}
+            />
+          </LineChart>
+        </ChartCard>
+
+        <ChartCard title={`$/${massUnit} Ratio`}>
+          <LineChart data={series.ratio}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="label" {...axisProps} />
+            <YAxis
+              {...axisProps}
+              tickFormatter={(value: number) =>
+                formatCurrency(toPricePerUnit(value, massUnit), baseCurrency)
+              }
+              width={70}
+            />
+            <Tooltip
+              formatter={(value: number) =>
+                formatPricePerUnit(value, massUnit, baseCurrency)
+              }
+            />
+            <Line
+              type="monotone"
+              dataKey="ratio"
+              name={`$/${massUnit}`}
+              stroke="#3b82f6"
+              strokeWidth={2}
+              connectNulls
+            />
+          </LineChart>
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
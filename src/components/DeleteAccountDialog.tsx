@@ -0,0 +1,147 @@
+// src/components/DeleteAccountDialog.tsx
+import React, { useState } from "react";
+import { AlertTriangle, X } from "lucide-react";
+import { Account } from "../db";
+
+type Resolution = "reassign" | "archive";
+
+interface DeleteAccountDialogProps {
+  account: Account;
+  transactionCount: number;
+  otherAccounts: Account[];
+  isLoading: boolean;
+  onDelete: (reassignToId?: string) => void;
+  onArchive: () => void;
+  onCancel: () => void;
+}
+
+export default function DeleteAccountDialog({
+  account,
+  transactionCount,
+  otherAccounts,
+  isLoading,
+  onDelete,
+  onArchive,
+  onCancel,
+}: DeleteAccountDialogProps) {
+  const hasTransactions = transactionCount > 0;
+  const [resolution, setResolution] = useState<Resolution>(
+    otherAccounts.length > 0 ? "reassign" : "archive"
+  );
+  const [reassignToId, setReassignToId] = useState(otherAccounts[0]?.id ?? "");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasTransactions) {
+      onDelete();
+    } else if (resolution === "archive") {
+      onArchive();
+    } else if (reassignToId) {
+      onDelete(reassignToId);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg w-full max-w-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Delete {account.name}?
+          </h3>
+          <button
+            onClick={onCancel}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {hasTransactions ? (
+            <>
+              <div className="flex gap-3 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200 text-sm">
+                <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+                <p>
+                  This account still has {transactionCount} transaction
+                  {transactionCount !== 1 ? "s" : ""}. Choose what should happen
+                  to {transactionCount !== 1 ? "them" : "it"}.
+                </p>
+              </div>
+              <label
+                className={`flex items-start gap-3 ${
+                  otherAccounts.length === 0 ? "opacity-50" : ""
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="resolution"
+                  value="reassign"
+                  checked={resolution === "reassign"}
+                  onChange={() => setResolution("reassign")}
+                  disabled={otherAccounts.length === 0}
+                  className="mt-1"
+                />
+                <span className="flex-1">
+                  <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Move transactions, then delete
+                  </span>
+                  <select
+                    value={reassignToId}
+                    onChange={(e) => setReassignToId(e.target.value)}
+                    disabled={resolution !== "reassign"}
+                    className="mt-2 w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  >
+                    {otherAccounts.map((acc) => (
+                      <option key={acc.id} value={acc.id}>
+                        {acc.name}
+                      </option>
+                    ))}
+                  </select>
+                </span>
+              </label>
+              <label className="flex items-start gap-3">
+                <input
+                  type="radio"
+                  name="resolution"
+                  value="archive"
+                  checked={resolution === "archive"}
+                  onChange={() => setResolution("archive")}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Archive instead
+                  </span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    Keeps the history; the account is hidden from new entries.
+                  </span>
+                </span>
+              </label>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              This account has no transactions and will be removed permanently.
+            </p>
+          )}
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 rounded-lg bg-rose-600 hover:bg-rose-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {hasTransactions && resolution === "archive"
+                ? "Archive Account"
+                : "Delete Account"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
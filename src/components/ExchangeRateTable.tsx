@@ -0,0 +1,166 @@
+// src/components/ExchangeRateTable.tsx
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Edit, Trash2 } from "lucide-react";
+import { CURRENCIES, ExchangeRate } from "../currency";
+import { useSettingsStore } from "../settings";
+
+const inputClass =
+  "px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+export default function ExchangeRateTable() {
+  const baseCurrency = useSettingsStore((state) => state.baseCurrency);
+  const exchangeRates = useSettingsStore((state) => state.exchangeRates);
+  const saveExchangeRate = useSettingsStore((state) => state.saveExchangeRate);
+  const removeExchangeRate = useSettingsStore(
+    (state) => state.removeExchangeRate
+  );
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [from, setFrom] = useState(
+    CURRENCIES.find(({ value }) => value !== baseCurrency)?.value ?? ""
+  );
+  const [to, setTo] = useState(baseCurrency);
+  const [date, setDate] = useState(today);
+  const [rateInput, setRateInput] = useState("");
+
+  // Newest first within each currency pair
+  const rows = [...exchangeRates].sort(
+    (a, b) =>
+      `${a.from}${a.to}`.localeCompare(`${b.from}${b.to}`) ||
+      b.date.localeCompare(a.date)
+  );
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDate(today());
+    setRateInput("");
+  };
+
+  const handleEdit = (rate: ExchangeRate) => {
+    setEditingId(rate.id);
+    setFrom(rate.from);
+    setTo(rate.to);
+    setDate(rate.date);
+    setRateInput(String(rate.rate));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = parseFloat(rateInput);
+    if (from === to || !date || isNaN(rate) || rate <= 0) return;
+    saveExchangeRate({
+      id: editingId ?? crypto.randomUUID(),
+      from,
+      to,
+      date,
+      rate,
+    });
+    resetForm();
+  };
+
+  return (
+    <div className="space-y-3">
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No rates yet. Amounts in other currencies are counted one to one.
+        </p>
+      ) : (
+        <ul className="max-h-40 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 text-sm text-gray-700 dark:text-gray-300">
+          {rows.map((rate) => (
+            <li key={rate.id} className="flex items-center gap-3 py-1.5">
+              <span className="text-gray-500 dark:text-gray-400">
+                {rate.date}
+              </span>
+              <span className="flex-1">
+                1 {rate.from} = {rate.rate} {rate.to}
+              </span>
+              <button
+                onClick={() => handleEdit(rate)}
+                className="p-1 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400"
+                title="Edit rate"
+              >
+                <Edit className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => {
+                  if (editingId === rate.id) resetForm();
+                  removeExchangeRate(rate.id);
+                }}
+                className="p-1 text-gray-400 hover:text-rose-600 dark:hover:text-rose-400"
+                title="Delete rate"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-2">
+        <input
+          type="date"
+          aria-label="Effective from"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          className={inputClass}
+          required
+        />
+        <input
+          type="number"
+          aria-label="Rate"
+          step="any"
+          min="0"
+          placeholder="Rate"
+          value={rateInput}
+          onChange={(e) => setRateInput(e.target.value)}
+          className={inputClass}
+          required
+        />
+        <select
+          aria-label="From currency"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          className={inputClass}
+        >
+          {CURRENCIES.map(({ value }) => (
+            <option key={value} value={value}>
+              1 {value} =
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="To currency"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          className={inputClass}
+        >
+          {CURRENCIES.map(({ value }) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <div className="col-span-2 flex justify-end gap-2">
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={from === to}
+            className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm disabled:opacity-50"
+          >
+            {editingId ? "Save Rate" : "Add Rate"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+// src/components/ExportDialog.tsx
+import { useState } from "react";
+import { format } from "date-fns";
+import { Download, X } from "lucide-react";
+import cn from "classnames";
+import { Account, Product, Transaction } from "../db";
+import {
+  accountColumns,
+  DATE_FORMATS,
+  DateFormat,
+  downloadCsv,
+  NUMBER_FORMATS,
+  NumberFormat,
+  toCsv,
+  transactionColumns,
+} from "../csv";
+import { useSettingsStore } from "../settings";
+
+export type ExportDataset = "transactions" | "accounts";
+
+interface ExportDialogProps {
+  initialDataset: ExportDataset;
+  accounts: Account[];
+  products: Product[];
+  transactions: Transaction[]; // Already filtered
+  accountBalances: Record<string, number>;
+  onClose: () => void;
+}
+
+const selectClass =
+  "w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+export default function ExportDialog({
+  initialDataset,
+  accounts,
+  products,
+  transactions,
+  accountBalances,
+  onClose,
+}: ExportDialogProps) {
+  const [dataset, setDataset] = useState<ExportDataset>(initialDataset);
+  const preferences = useSettingsStore((state) => state.exportPreferences);
+  const setPreferences = useSettingsStore(
+    (state) => state.setExportPreferences
+  );
+
+  const columns =
+    dataset === "transactions"
+      ? transactionColumns(accounts, products)
+      : accountColumns(accountBalances);
+  const selectedKeys =
+    dataset === "transactions"
+      ? preferences.transactionColumns
+      : preferences.accountColumns;
+  const rowCount =
+    dataset === "transactions" ? transactions.length : accounts.length;
+
+  const toggleColumn = (key: string) => {
+    const next = selectedKeys.includes(key)
+      ? selectedKeys.filter((k) => k !== key)
+      : [...selectedKeys, key];
+    setPreferences(
+      dataset === "transactions"
+        ? { transactionColumns: next }
+        : { accountColumns: next }
+    );
+  };
+
+  const handleExport = () => {
+    const options = {
+      dateFormat: preferences.dateFormat,
+      numberFormat: preferences.numberFormat,
+    };
+    const filename = `flowly-${dataset}-${format(
+      new Date(),
+      "yyyy-MM-dd"
+    )}.csv`;
+    // Columns keep their defined order, not the order they were ticked in
+    if (dataset === "transactions") {
+      const selected = transactionColumns(accounts, products).filter((col) =>
+        selectedKeys.includes(col.key)
+      );
+      downloadCsv(filename, toCsv(transactions, selected, options));
+    } else {
+      const selected = accountColumns(accountBalances).filter((col) =>
+        selectedKeys.includes(col.key)
+      );
+      downloadCsv(filename, toCsv(accounts, selected, options));
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg w-full max-w-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Export CSV
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2 p-1 rounded-lg bg-gray-100 dark:bg-gray-700">
+            {(["transactions", "accounts"] as ExportDataset[]).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setDataset(value)}
+                className={cn(
+                  "px-3 py-1.5 rounded-md text-sm font-medium capitalize transition-colors",
+                  dataset === value
+                    ? "bg-white dark:bg-gray-800 text-gray-900 dark:text-white shadow"
+                    : "text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+                )}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {dataset === "transactions"
+              ? `${rowCount} transaction${
+                  rowCount !== 1 ? "s" : ""
+                } matching the current filters.`
+              : `${rowCount} account${
+                  rowCount !== 1 ? "s" : ""
+                }, including archived ones.`}
+          </p>
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Columns
+            </legend>
+            <div className="grid grid-cols-2 gap-2">
+              {columns.map((column) => (
+                <label
+                  key={column.key}
+                  className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedKeys.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <div>
+            <label
+              htmlFor="exportDateFormat"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Date Format
+            </label>
+            <select
+              id="exportDateFormat"
+              value={preferences.dateFormat}
+              onChange={(e) =>
+                setPreferences({ dateFormat: e.target.value as DateFormat })
+              }
+              className={selectClass}
+            >
+              {DATE_FORMATS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label
+              htmlFor="exportNumberFormat"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Number Format
+            </label>
+            <select
+              id="exportNumberFormat"
+              value={preferences.numberFormat}
+              onChange={(e) =>
+                setPreferences({
+                  numberFormat: e.target.value as NumberFormat,
+                })
+              }
+              className={selectClass}
+            >
+              {NUMBER_FORMATS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="flex justify-end gap-3 pt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={selectedKeys.length === 0}
+            className="inline-flex items-center px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
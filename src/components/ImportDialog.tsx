@@ -0,0 +1,462 @@
+// src/components/ImportDialog.tsx
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Upload, X } from "lucide-react";
+import cn from "classnames";
+import { Account, Transaction, TransactionInsert } from "../db";
+import { parseCsv } from "../csv";
+import {
+  ColumnMapping,
+  defaultChoice,
+  detectProvider,
+  flagDuplicates,
+  IMPORT_TYPES,
+  ImportType,
+  mappingFor,
+  parseStatement,
+  RowChoice,
+  STATEMENT_DATE_FORMATS,
+  STATEMENT_PROVIDERS,
+  StatementDateFormat,
+  StatementProvider,
+  StatementRow,
+  toTransactionInsert,
+} from "../statementImport";
+import { formatCurrency } from "../format";
+import { currencyOf } from "../currency";
+
+interface ImportDialogProps {
+  accounts: Account[]; // Active accounts only
+  categories: string[]; // Active category names
+  transactions: Transaction[];
+  onImport: (rows: TransactionInsert[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+type RowState = RowChoice & { include: boolean };
+
+const MAPPING_FIELDS: {
+  key: Exclude<keyof ColumnMapping, "dateFormat">;
+  label: string;
+  required?: boolean;
+}[] = [
+  { key: "date", label: "Date", required: true },
+  { key: "time", label: "Time" },
+  { key: "amount", label: "Amount", required: true },
+  { key: "counterparty", label: "Name" },
+  { key: "notes", label: "Description" },
+  { key: "status", label: "Status" },
+];
+
+const STATUS_STYLES: Record<StatementRow["status"], string> = {
+  new: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300",
+  duplicate:
+    "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300",
+  skipped: "bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300",
+  invalid: "bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-300",
+};
+
+const inputClass =
+  "w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+const cellInputClass =
+  "px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-xs";
+
+export default function ImportDialog({
+  accounts,
+  categories,
+  transactions,
+  onImport,
+  onClose,
+}: ImportDialogProps) {
+  const [fileName, setFileName] = useState("");
+  const [csvRows, setCsvRows] = useState<string[][] | null>(null);
+  const [provider, setProvider] = useState<StatementProvider>("generic");
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [accountId, setAccountId] = useState(accounts[0]?.id ?? "");
+  const currency = currencyOf(accounts.find((acc) => acc.id === accountId));
+  const [overrides, setOverrides] = useState<Record<number, RowState>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const headers = csvRows?.[0] ?? [];
+
+  const rows = useMemo(() => {
+    if (!csvRows || !mapping || !mapping.date || !mapping.amount) return [];
+    return flagDuplicates(
+      parseStatement(csvRows, mapping),
+      transactions,
+      accountId
+    );
+  }, [csvRows, mapping, transactions, accountId]);
+
+  // Duplicates start unticked; anything else importable starts ticked
+  const stateOf = (row: StatementRow): RowState =>
+    overrides[row.line] ?? {
+      ...defaultChoice(row),
+      include: row.status === "new",
+    };
+
+  const updateRow = (row: StatementRow, changes: Partial<RowState>) =>
+    setOverrides((current) => ({
+      ...current,
+      [row.line]: { ...stateOf(row), ...changes },
+    }));
+
+  const importable = rows.filter(
+    (row) => row.status === "new" || row.status === "duplicate"
+  );
+  const selected = importable.filter((row) => stateOf(row).include);
+  const counts = rows.reduce<Record<StatementRow["status"], number>>(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { new: 0, duplicate: 0, skipped: 0, invalid: 0 }
+  );
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setOverrides({});
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.length < 2) {
+        setError("That file has no rows to import.");
+        setCsvRows(null);
+        return;
+      }
+      const detected = detectProvider(parsed[0]);
+      setFileName(file.name);
+      setCsvRows(parsed);
+      setProvider(detected);
+      setMapping(mappingFor(detected, parsed[0]));
+    } catch (err) {
+      console.error("Failed to read statement:", err);
+      setError("Could not read that file as CSV.");
+    }
+  };
+
+  const handleProviderChange = (value: StatementProvider) => {
+    setProvider(value);
+    setMapping(mappingFor(value, headers));
+    setOverrides({});
+  };
+
+  const handleImport = async () => {
+    if (!accountId || selected.length === 0) return;
+    setIsImporting(true);
+    const success = await onImport(
+      selected.map((row) => toTransactionInsert(row, accountId, stateOf(row)))
+    );
+    setIsImporting(false);
+    if (success) {
+      onClose();
+    } else {
+      setError("Import failed. Nothing was saved.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg w-full max-w-5xl max-h-[90vh] flex flex-col p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Import Statement
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              CSV File
+            </label>
+            <label className="flex items-center justify-center px-3 py-2 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 text-sm text-gray-600 dark:text-gray-300 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700">
+              <Upload className="h-4 w-4 mr-2 shrink-0" />
+              <span className="truncate">{fileName || "Choose file..."}</span>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="sr-only"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+          </div>
+          <div>
+            <label
+              htmlFor="importProvider"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Format
+            </label>
+            <select
+              id="importProvider"
+              value={provider}
+              onChange={(e) =>
+                handleProviderChange(e.target.value as StatementProvider)
+              }
+              className={inputClass}
+              disabled={!csvRows}
+            >
+              {Object.entries(STATEMENT_PROVIDERS).map(([value, preset]) => (
+                <option key={value} value={value}>
+                  {preset.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label
+              htmlFor="importAccount"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Into Account
+            </label>
+            <select
+              id="importAccount"
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+              className={inputClass}
+            >
+              {accounts.map((acc) => (
+                <option key={acc.id} value={acc.id}>
+                  {acc.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {mapping && (
+          <div className="grid gap-3 grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 mt-4">
+            {MAPPING_FIELDS.map(({ key, label, required }) => (
+              <div key={key}>
+                <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                  {label}
+                  {required && " *"}
+                </label>
+                <select
+                  value={mapping[key]}
+                  onChange={(e) =>
+                    setMapping({ ...mapping, [key]: e.target.value })
+                  }
+                  className={inputClass}
+                >
+                  <option value="">—</option>
+                  {headers.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <div>
+              <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                Date Format
+              </label>
+              <select
+                value={mapping.dateFormat}
+                onChange={(e) =>
+                  setMapping({
+                    ...mapping,
+                    dateFormat: e.target.value as StatementDateFormat,
+                  })
+                }
+                className={inputClass}
+              >
+                {STATEMENT_DATE_FORMATS.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="mt-4 text-sm text-rose-600 dark:text-rose-400">
+            {error}
+          </p>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
+              {counts.new} new, {counts.duplicate} possible duplicate
+              {counts.duplicate !== 1 ? "s" : ""}, {counts.skipped} skipped,{" "}
+              {counts.invalid} unreadable
+            </p>
+            <div className="mt-2 flex-1 overflow-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700/50 text-left text-xs uppercase text-gray-500 dark:text-gray-400 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2"></th>
+                    <th className="px-3 py-2">Date</th>
+                    <th className="px-3 py-2">Description</th>
+                    <th className="px-3 py-2 text-right">Amount</th>
+                    <th className="px-3 py-2">Type</th>
+                    <th className="px-3 py-2">Category</th>
+                    <th className="px-3 py-2">Weight (g)</th>
+                    <th className="px-3 py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {rows.map((row) => {
+                    const state = stateOf(row);
+                    const canImport =
+                      row.status === "new" || row.status === "duplicate";
+                    return (
+                      <tr
+                        key={row.line}
+                        className={cn(
+                          "text-gray-700 dark:text-gray-300",
+                          !canImport && "opacity-50"
+                        )}
+                      >
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            checked={canImport && state.include}
+                            disabled={!canImport}
+                            onChange={(e) =>
+                              updateRow(row, { include: e.target.checked })
+                            }
+                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            aria-label={`Import row ${row.line}`}
+                          />
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {isNaN(row.timestamp)
+                            ? "—"
+                            : format(row.timestamp, "MMM d, yyyy")}
+                        </td>
+                        <td className="px-3 py-2 max-w-xs truncate">
+                          {row.notes ?? ""}
+                        </td>
+                        <td
+                          className={cn(
+                            "px-3 py-2 text-right whitespace-nowrap",
+                            row.amount >= 0
+                              ? "text-emerald-600 dark:text-emerald-400"
+                              : "text-rose-600 dark:text-rose-400"
+                          )}
+                        >
+                          {isNaN(row.amount)
+                            ? "—"
+                            : formatCurrency(row.amount, currency)}
+                        </td>
+                        <td className="px-3 py-2">
+                          <select
+                            value={state.type}
+                            onChange={(e) =>
+                              updateRow(row, {
+                                type: e.target.value as ImportType,
+                              })
+                            }
+                            className={cellInputClass}
+                            disabled={!canImport}
+                          >
+                            {IMPORT_TYPES.map((type) => (
+                              <option key={type} value={type}>
+                                {type}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-3 py-2">
+                          <select
+                            value={state.category}
+                            onChange={(e) =>
+                              updateRow(row, { category: e.target.value })
+                            }
+                            className={cellInputClass}
+                            disabled={!canImport}
+                          >
+                            {(categories.includes(state.category)
+                              ? categories
+                              : [state.category, ...categories]
+                            ).map((cat) => (
+                              <option key={cat} value={cat}>
+                                {cat}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={state.weight || ""}
+                            onChange={(e) =>
+                              updateRow(row, {
+                                weight: parseFloat(e.target.value) || 0,
+                              })
+                            }
+                            className={cn(cellInputClass, "w-20")}
+                            disabled={!canImport || state.type === "Expense"}
+                            aria-label={`Weight for row ${row.line}`}
+                          />
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          <span
+                            className={cn(
+                              "px-2 py-0.5 rounded-full text-xs font-medium capitalize",
+                              STATUS_STYLES[row.status]
+                            )}
+                            title={
+                              row.duplicateOf
+                                ? `Matches ${formatCurrency(
+                                    row.duplicateOf.amount,
+                                    currency
+                                  )} on ${format(
+                                    row.duplicateOf.timestamp,
+                                    "MMM d, yyyy"
+                                  )}${
+                                    row.duplicateOf.notes
+                                      ? ` (${row.duplicateOf.notes})`
+                                      : ""
+                                  }`
+                                : row.message
+                            }
+                          >
+                            {row.status}
+                          </span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-3 pt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!accountId || selected.length === 0 || isImporting}
+            className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isImporting
+              ? "Importing..."
+              : `Import ${selected.length} transaction${
+                  selected.length !== 1 ? "s" : ""
+                }`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
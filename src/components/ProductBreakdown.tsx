@@ -0,0 +1,186 @@
+// src/components/ProductBreakdown.tsx
+import { useState } from "react";
+import {
+  ArchiveRestore,
+  Archive,
+  Edit,
+  Package,
+  PlusCircle,
+} from "lucide-react";
+import cn from "classnames";
+import { Product } from "../db";
+import { NO_PRODUCT, ProductSummary } from "../inventory";
+import {
+  formatCurrency,
+  formatPricePerUnit,
+  formatProductName,
+  formatWeight,
+} from "../format";
+import { useSettingsStore } from "../settings";
+import { displayUnitFor, Unit } from "../units";
+import ProductDialog, { ProductInput } from "./ProductDialog";
+
+interface ProductBreakdownProps {
+  products: Product[];
+  summaries: Record<string, ProductSummary>;
+  isLoading: boolean;
+  onAdd: (product: ProductInput & { archived: boolean }) => Promise<boolean>;
+  onUpdate: (id: string, changes: Partial<Product>) => Promise<boolean>;
+}
+
+const EMPTY_SUMMARY: ProductSummary = {
+  weightOnHand: 0,
+  salesAmount: 0,
+  salesWeight: 0,
+  dollarPerGramRatio: null,
+};
+
+export default function ProductBreakdown({
+  products,
+  summaries,
+  isLoading,
+  onAdd,
+  onUpdate,
+}: ProductBreakdownProps) {
+  const [editing, setEditing] = useState<Product | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const massUnit = useSettingsStore((state) => state.massUnit);
+  const baseCurrency = useSettingsStore((state) => state.baseCurrency);
+
+  // Archived products stay listed, last, so they can be restored
+  const rows = [...products].sort(
+    (a, b) => Number(a.archived) - Number(b.archived)
+  );
+  const unassigned = summaries[NO_PRODUCT];
+
+  const handleSave = (input: ProductInput) =>
+    editing
+      ? onUpdate(editing.id, input)
+      : onAdd({ ...input, archived: false });
+
+  const renderQuantities = (summary: ProductSummary, unit: Unit) => (
+    <>
+      <td
+        className={cn(
+          "px-4 py-3 text-right",
+          summary.weightOnHand < 0 && "text-rose-600"
+        )}
+      >
+        {formatWeight(summary.weightOnHand, unit)}
+      </td>
+      <td className="px-4 py-3 text-right">
+        {formatCurrency(summary.salesAmount, baseCurrency)}
+      </td>
+      <td className="px-4 py-3 text-right">
+        {summary.dollarPerGramRatio !== null
+          ? formatPricePerUnit(summary.dollarPerGramRatio, unit, baseCurrency)
+          : "N/A"}
+      </td>
+    </>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow border border-gray-100 dark:border-gray-700 overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-gray-100 dark:border-gray-700">
+        <div className="flex items-center gap-2 text-gray-900 dark:text-white font-semibold">
+          <Package className="h-5 w-5 text-indigo-500" />
+          Products
+        </div>
+        <button
+          onClick={() => {
+            setEditing(null);
+            setShowForm(true);
+          }}
+          className="inline-flex items-center px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium transition-colors"
+        >
+          <PlusCircle className="h-4 w-4 mr-2" />
+          Add Product
+        </button>
+      </div>
+      {rows.length === 0 && !unassigned ? (
+        <p className="p-6 text-center text-gray-500 dark:text-gray-400">
+          No products yet. Add one to track stock and pricing separately.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700/50 text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-2">Product</th>
+                <th className="px-4 py-2 text-right">On Hand</th>
+                <th className="px-4 py-2 text-right">Sales</th>
+                <th className="px-4 py-2 text-right">Ratio</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+              {rows.map((product) => (
+                <tr
+                  key={product.id}
+                  className={cn(product.archived && "opacity-60")}
+                >
+                  <td className="px-4 py-3 font-medium text-gray-900 dark:text-white">
+                    {formatProductName(product)}
+                    {product.archived && (
+                      <span className="ml-2 text-xs text-gray-500">
+                        Archived
+                      </span>
+                    )}
+                  </td>
+                  {renderQuantities(
+                    summaries[product.id] ?? EMPTY_SUMMARY,
+                    displayUnitFor(product.unit, massUnit)
+                  )}
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => {
+                        setEditing(product);
+                        setShowForm(true);
+                      }}
+                      className="p-1 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400"
+                      title="Edit product"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() =>
+                        onUpdate(product.id, { archived: !product.archived })
+                      }
+                      className="p-1 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400"
+                      title={
+                        product.archived ? "Restore product" : "Archive product"
+                      }
+                    >
+                      {product.archived ? (
+                        <ArchiveRestore className="h-4 w-4" />
+                      ) : (
+                        <Archive className="h-4 w-4" />
+                      )}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {unassigned && (
+                <tr>
+                  <td className="px-4 py-3 italic text-gray-500 dark:text-gray-400">
+                    No product
+                  </td>
+                  {renderQuantities(unassigned, massUnit)}
+                  <td></td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {showForm && (
+        <ProductDialog
+          product={editing}
+          isLoading={isLoading}
+          onSave={handleSave}
+          onClose={() => setShowForm(false)}
+        />
+      )}
+    </div>
+  );
+}
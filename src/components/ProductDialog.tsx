@@ -0,0 +1,129 @@
+// src/components/ProductDialog.tsx
+import React, { useState } from "react";
+import { X } from "lucide-react";
+import { Product } from "../db";
+import { Unit, UNITS } from "../units";
+
+export type ProductInput = Pick<Product, "name" | "unit" | "variant">;
+
+interface ProductDialogProps {
+  product: Product | null; // null when adding
+  isLoading: boolean;
+  onSave: (product: ProductInput) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+export default function ProductDialog({
+  product,
+  isLoading,
+  onSave,
+  onClose,
+}: ProductDialogProps) {
+  const [name, setName] = useState(product?.name ?? "");
+  const [unit, setUnit] = useState<Unit>(product?.unit ?? "g");
+  const [variant, setVariant] = useState(product?.variant ?? "");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    const saved = await onSave({
+      name: name.trim(),
+      unit,
+      variant: variant.trim() || undefined,
+    });
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg w-full max-w-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {product ? "Edit Product" : "Add Product"}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label
+              htmlFor="productName"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Product Name
+            </label>
+            <input
+              id="productName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="productUnit"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Unit
+              </label>
+              <select
+                id="productUnit"
+                value={unit}
+                onChange={(e) => setUnit(e.target.value as Unit)}
+                className={inputClass}
+              >
+                {UNITS.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor="productVariant"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Variant / Grade
+              </label>
+              <input
+                id="productVariant"
+                type="text"
+                value={variant}
+                onChange={(e) => setVariant(e.target.value)}
+                className={inputClass}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+            >
+              {product ? "Save Changes" : "Add Product"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
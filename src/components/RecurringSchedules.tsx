@@ -0,0 +1,301 @@
+// src/components/RecurringSchedules.tsx
+import { useState } from "react";
+import { addDays, format } from "date-fns";
+import {
+  AlertTriangle,
+  CalendarClock,
+  Check,
+  Edit,
+  PlusCircle,
+  SkipForward,
+  Trash2,
+} from "lucide-react";
+import cn from "classnames";
+import { Account, Category, Schedule } from "../db";
+import { currencyOf } from "../currency";
+import { formatCurrency } from "../format";
+import {
+  amountRange,
+  dueOccurrences,
+  isFinished,
+  SCHEDULE_FREQUENCIES,
+  SCHEDULE_UNITS,
+  upcomingOccurrences,
+} from "../schedules";
+import ScheduleDialog, { ScheduleInput } from "./ScheduleDialog";
+
+interface RecurringSchedulesProps {
+  schedules: Schedule[];
+  accounts: Account[];
+  categories: Category[];
+  isLoading: boolean;
+  onAdd: (schedule: ScheduleInput) => Promise<boolean>;
+  onUpdate: (id: string, changes: Partial<Schedule>) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+  onRecord: (id: string, amount?: number) => Promise<boolean>;
+  onSkip: (id: string) => Promise<boolean>;
+}
+
+const UPCOMING_DAYS = 30;
+
+const describeRule = (schedule: Schedule) => {
+  if (schedule.frequency !== "custom") {
+    return SCHEDULE_FREQUENCIES.find(
+      ({ value }) => value === schedule.frequency
+    )?.label;
+  }
+  const unit = SCHEDULE_UNITS.find(
+    ({ value }) => value === schedule.interval_unit
+  )?.label.toLowerCase();
+  return `Every ${schedule.interval} ${unit}`;
+};
+
+export default function RecurringSchedules({
+  schedules,
+  accounts,
+  categories,
+  isLoading,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onRecord,
+  onSkip,
+}: RecurringSchedulesProps) {
+  const [editing, setEditing] = useState<Schedule | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  // Amounts typed into the due queue, by schedule id
+  const [amountInputs, setAmountInputs] = useState<Record<string, string>>({});
+
+  const now = Date.now();
+  const due = schedules
+    .map((schedule) => ({
+      schedule,
+      count: dueOccurrences(schedule, now).length,
+    }))
+    .filter(({ count }) => count > 0);
+  const upcoming = upcomingOccurrences(
+    schedules,
+    addDays(now, UPCOMING_DAYS).getTime(),
+    now
+  );
+
+  const currencyFor = (schedule: Schedule) =>
+    currencyOf(accounts.find((acc) => acc.id === schedule.template.account_id));
+
+  const handleSave = (input: ScheduleInput) =>
+    editing ? onUpdate(editing.id, input) : onAdd(input);
+
+  const handleRecord = async (schedule: Schedule) => {
+    const input = amountInputs[schedule.id];
+    const amount = input ? parseFloat(input) : undefined;
+    if (amount !== undefined && (isNaN(amount) || amount <= 0)) return;
+    if (await onRecord(schedule.id, amount)) {
+      setAmountInputs((inputs) => {
+        const next = { ...inputs };
+        delete next[schedule.id];
+        return next;
+      });
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow border border-gray-100 dark:border-gray-700 overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-gray-100 dark:border-gray-700">
+        <div className="flex items-center gap-2 text-gray-900 dark:text-white font-semibold">
+          <CalendarClock className="h-5 w-5 text-indigo-500" />
+          Recurring
+        </div>
+        <button
+          onClick={() => {
+            setEditing(null);
+            setShowForm(true);
+          }}
+          className="inline-flex items-center px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium transition-colors"
+        >
+          <PlusCircle className="h-4 w-4 mr-2" />
+          Add Schedule
+        </button>
+      </div>
+
+      {due.length > 0 && (
+        <div className="p-4 border-b border-gray-100 dark:border-gray-700 bg-amber-50 dark:bg-amber-900/20">
+          <h4 className="text-sm font-semibold text-amber-800 dark:text-amber-300 mb-3">
+            Due — confirm or skip
+          </h4>
+          <ul className="space-y-3 text-sm">
+            {due.map(({ schedule, count }) => {
+              const [min, max] = amountRange(schedule);
+              const input = amountInputs[schedule.id];
+              const amount = input
+                ? parseFloat(input)
+                : Math.abs(schedule.template.amount);
+              const outOfRange = amount < min || amount > max;
+              return (
+                <li
+                  key={schedule.id}
+                  className="flex flex-wrap items-center gap-3"
+                >
+                  <div className="flex-1 min-w-[10rem]">
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {schedule.name}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {format(schedule.next_due, "PP")}
+                      {count > 1 && ` · ${count - 1} more due`}
+                    </p>
+                  </div>
+                  <input
+                    type="number"
+                    aria-label={`Amount for ${schedule.name}`}
+                    step="0.01"
+                    min="0.01"
+                    value={input ?? String(Math.abs(schedule.template.amount))}
+                    onChange={(e) =>
+                      setAmountInputs((inputs) => ({
+                        ...inputs,
+                        [schedule.id]: e.target.value,
+                      }))
+                    }
+                    className={cn(
+                      "w-28 px-3 py-1.5 rounded-lg border bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm",
+                      outOfRange
+                        ? "border-amber-500"
+                        : "border-gray-300 dark:border-gray-600"
+                    )}
+                  />
+                  <button
+                    onClick={() => handleRecord(schedule)}
+                    disabled={isLoading}
+                    className="inline-flex items-center px-3 py-1.5 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white text-sm disabled:opacity-50"
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Record
+                  </button>
+                  <button
+                    onClick={() => onSkip(schedule.id)}
+                    disabled={isLoading}
+                    className="inline-flex items-center px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    <SkipForward className="h-4 w-4 mr-1" />
+                    Skip
+                  </button>
+                  {outOfRange && !isNaN(amount) && (
+                    <p className="w-full flex items-center gap-1 text-xs text-amber-700 dark:text-amber-400">
+                      <AlertTriangle className="h-3 w-3" />
+                      Usually {formatCurrency(min, currencyFor(schedule))}
+                      {max > min &&
+                        ` to ${formatCurrency(max, currencyFor(schedule))}`}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {schedules.length === 0 ? (
+        <p className="p-6 text-center text-gray-500 dark:text-gray-400">
+          No recurring transactions yet. Add rent, bills or subscriptions to
+          have them recorded for you.
+        </p>
+      ) : (
+        <div className="grid gap-6 p-4 md:grid-cols-2">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              Upcoming (next {UPCOMING_DAYS} days)
+            </h4>
+            {upcoming.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Nothing coming up.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                {upcoming.map(({ schedule, timestamp }) => (
+                  <li
+                    key={`${schedule.id}-${timestamp}`}
+                    className="flex justify-between py-1.5 text-gray-700 dark:text-gray-300"
+                  >
+                    <span>
+                      <span className="text-gray-500 dark:text-gray-400 mr-2">
+                        {format(timestamp, "MMM d")}
+                      </span>
+                      {schedule.name}
+                    </span>
+                    <span
+                      className={cn(
+                        schedule.template.amount < 0
+                          ? "text-rose-600"
+                          : "text-emerald-600"
+                      )}
+                    >
+                      {formatCurrency(
+                        schedule.template.amount,
+                        currencyFor(schedule)
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              Schedules
+            </h4>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              {schedules.map((schedule) => (
+                <li
+                  key={schedule.id}
+                  className={cn(
+                    "flex items-center gap-2 py-1.5",
+                    isFinished(schedule) && "opacity-60"
+                  )}
+                >
+                  <span className="flex-1 text-gray-900 dark:text-white">
+                    {schedule.name}
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                      {describeRule(schedule)}
+                      {schedule.auto_post && " · Automatic"}
+                      {isFinished(schedule) && " · Ended"}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => {
+                      setEditing(schedule);
+                      setShowForm(true);
+                    }}
+                    className="p-1 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400"
+                    title="Edit schedule"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(schedule.id)}
+                    className="p-1 text-gray-400 hover:text-rose-600 dark:hover:text-rose-400"
+                    title="Delete schedule"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <ScheduleDialog
+          schedule={editing}
+          accounts={accounts.filter(
+            (acc) => !acc.archived || acc.id === editing?.template.account_id
+          )}
+          categories={categories}
+          isLoading={isLoading}
+          onSave={handleSave}
+          onClose={() => setShowForm(false)}
+        />
+      )}
+    </div>
+  );
+}
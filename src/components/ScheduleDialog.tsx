@@ -0,0 +1,416 @@
+// src/components/ScheduleDialog.tsx
+import React, { useState } from "react";
+import { endOfDay, format, parse, startOfDay } from "date-fns";
+import { X } from "lucide-react";
+import cn from "classnames";
+import {
+  Account,
+  Category,
+  Schedule,
+  ScheduleFrequency,
+  ScheduleTemplate,
+  ScheduleUnit,
+  TransactionType,
+} from "../db";
+import { categoryPath, categoryTree } from "../categories";
+import { currencyOf } from "../currency";
+import { currencySymbol } from "../format";
+import {
+  SCHEDULE_FREQUENCIES,
+  SCHEDULE_TYPES,
+  SCHEDULE_UNITS,
+  signedAmount,
+} from "../schedules";
+import { scaleSplits } from "../splits";
+
+export type ScheduleInput = Omit<
+  Schedule,
+  "id" | "user_id" | "next_due" | "created_at" | "updated_at"
+>;
+
+interface ScheduleDialogProps {
+  schedule: Schedule | null; // null when adding
+  template?: ScheduleTemplate; // Prefills a new schedule, e.g. from history
+  accounts: Account[];
+  categories: Category[];
+  isLoading: boolean;
+  onSave: (schedule: ScheduleInput) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+const toDateInput = (timestamp: number) => format(timestamp, "yyyy-MM-dd");
+const fromDateInput = (value: string) => parse(value, "yyyy-MM-dd", new Date());
+
+export default function ScheduleDialog({
+  schedule,
+  template: initialTemplate,
+  accounts,
+  categories,
+  isLoading,
+  onSave,
+  onClose,
+}: ScheduleDialogProps) {
+  const template = schedule?.template ?? initialTemplate;
+  const [name, setName] = useState(schedule?.name ?? template?.notes ?? "");
+  const [type, setType] = useState<TransactionType>(
+    template?.type ?? "Expense"
+  );
+  const [accountId, setAccountId] = useState(
+    template?.account_id ?? accounts[0]?.id ?? ""
+  );
+  const [category, setCategory] = useState(template?.category ?? "");
+  const [amountInput, setAmountInput] = useState(
+    template ? String(Math.abs(template.amount)) : ""
+  );
+  const [frequency, setFrequency] = useState<ScheduleFrequency>(
+    schedule?.frequency ?? "monthly"
+  );
+  const [intervalInput, setIntervalInput] = useState(
+    String(schedule?.interval ?? 1)
+  );
+  const [intervalUnit, setIntervalUnit] = useState<ScheduleUnit>(
+    schedule?.interval_unit ?? "month"
+  );
+  const [startDate, setStartDate] = useState(
+    toDateInput(schedule?.start_date ?? Date.now())
+  );
+  const [endDate, setEndDate] = useState(
+    schedule?.end_date ? toDateInput(schedule.end_date) : ""
+  );
+  const [variance, setVariance] = useState(
+    String(schedule?.amount_variance ?? 0)
+  );
+  const [autoPost, setAutoPost] = useState(schedule?.auto_post ?? false);
+
+  const account = accounts.find((acc) => acc.id === accountId);
+  const varies = parseFloat(variance) > 0;
+  const categoryOptions = categoryTree(
+    categories.filter((cat) => !cat.archived || cat.name === category)
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(amountInput);
+    const every = parseInt(intervalInput, 10);
+    const spread = parseFloat(variance || "0");
+    if (!name.trim() || !accountId || isNaN(amount) || amount <= 0) return;
+    if (isNaN(every) || every < 1 || isNaN(spread) || spread < 0) return;
+
+    const start = startOfDay(fromDateInput(startDate)).getTime();
+    const end = endDate
+      ? endOfDay(fromDateInput(endDate)).getTime()
+      : undefined;
+    if (end !== undefined && end < start) return;
+
+    const signed = signedAmount(type, amount);
+    const saved = await onSave({
+      name: name.trim(),
+      template: {
+        type,
+        amount: signed,
+        // Quantity and product carry over from the template; expenses have
+        // neither
+        weightChange:
+          type === "Purchase"
+            ? Math.abs(template?.weightChange ?? 0)
+            : type === "Sale"
+            ? -Math.abs(template?.weightChange ?? 0)
+            : 0,
+        unit: type === "Expense" ? undefined : template?.unit,
+        product_id: type === "Expense" ? undefined : template?.product_id,
+        account_id: accountId,
+        category: category || undefined,
+        notes: template?.notes,
+        purpose: template?.purpose,
+        business_percent: template?.business_percent,
+        // Split lines keep their shares when the amount changes
+        splits:
+          template?.splits &&
+          scaleSplits(template.splits, template.amount, signed),
+      },
+      frequency,
+      interval: frequency === "custom" ? every : 1,
+      interval_unit: intervalUnit,
+      start_date: start,
+      end_date: end,
+      amount_variance: spread,
+      auto_post: autoPost && !varies,
+    });
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg w-full max-w-lg max-h-full overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {schedule
+              ? "Edit Recurring Transaction"
+              : "Add Recurring Transaction"}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label
+              htmlFor="scheduleName"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Name
+            </label>
+            <input
+              id="scheduleName"
+              type="text"
+              placeholder="e.g., Rent"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="scheduleType"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Type
+              </label>
+              <select
+                id="scheduleType"
+                value={type}
+                onChange={(e) => setType(e.target.value as TransactionType)}
+                className={inputClass}
+              >
+                {SCHEDULE_TYPES.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor="scheduleAmount"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Amount ({currencySymbol(currencyOf(account))})
+              </label>
+              <input
+                id="scheduleAmount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={amountInput}
+                onChange={(e) => setAmountInput(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="scheduleAccount"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Account
+              </label>
+              <select
+                id="scheduleAccount"
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className={inputClass}
+                required
+              >
+                {accounts.map((acc) => (
+                  <option key={acc.id} value={acc.id}>
+                    {acc.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor="scheduleCategory"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Category
+              </label>
+              {template?.splits?.length ? (
+                <p className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
+                  Split across {template.splits.length} lines
+                </p>
+              ) : (
+                <select
+                  id="scheduleCategory"
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">None</option>
+                  {categoryOptions.map(({ category: cat }) => (
+                    <option key={cat.id} value={cat.name}>
+                      {categoryPath(cat, categories)}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="scheduleFrequency"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Repeats
+              </label>
+              <select
+                id="scheduleFrequency"
+                value={frequency}
+                onChange={(e) =>
+                  setFrequency(e.target.value as ScheduleFrequency)
+                }
+                className={inputClass}
+              >
+                {SCHEDULE_FREQUENCIES.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {frequency === "custom" && (
+              <div>
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Every
+                </span>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    aria-label="Interval"
+                    min="1"
+                    step="1"
+                    value={intervalInput}
+                    onChange={(e) => setIntervalInput(e.target.value)}
+                    className={inputClass}
+                    required
+                  />
+                  <select
+                    aria-label="Interval unit"
+                    value={intervalUnit}
+                    onChange={(e) =>
+                      setIntervalUnit(e.target.value as ScheduleUnit)
+                    }
+                    className={inputClass}
+                  >
+                    {SCHEDULE_UNITS.map(({ value, label }) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="scheduleStart"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                First Occurrence
+              </label>
+              <input
+                id="scheduleStart"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="scheduleEnd"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Ends (optional)
+              </label>
+              <input
+                id="scheduleEnd"
+                type="date"
+                min={startDate}
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label
+              htmlFor="scheduleVariance"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Amount Varies By (%)
+            </label>
+            <input
+              id="scheduleVariance"
+              type="number"
+              min="0"
+              step="1"
+              value={variance}
+              onChange={(e) => setVariance(e.target.value)}
+              className={inputClass}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              For bills that change each time. You confirm the actual amount
+              when one comes due.
+            </p>
+          </div>
+          <label
+            className={cn(
+              "flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300",
+              varies && "opacity-50"
+            )}
+          >
+            <input
+              type="checkbox"
+              checked={autoPost && !varies}
+              disabled={varies}
+              onChange={(e) => setAutoPost(e.target.checked)}
+              className="rounded border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500"
+            />
+            Record automatically when due, without asking
+          </label>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading || !accountId}
+              className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+            >
+              {schedule ? "Save Changes" : "Add Schedule"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
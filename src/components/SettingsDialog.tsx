@@ -0,0 +1,130 @@
+// src/components/SettingsDialog.tsx
+import { X } from "lucide-react";
+import { COSTING_METHODS, CostingMethod } from "../inventory";
+import { useSettingsStore } from "../settings";
+import { MASS_UNITS, MassUnit } from "../units";
+import { CURRENCIES } from "../currency";
+import ExchangeRateTable from "./ExchangeRateTable";
+
+interface SettingsDialogProps {
+  onClose: () => void;
+}
+
+export default function SettingsDialog({ onClose }: SettingsDialogProps) {
+  const costingMethod = useSettingsStore((state) => state.costingMethod);
+  const setCostingMethod = useSettingsStore((state) => state.setCostingMethod);
+  const massUnit = useSettingsStore((state) => state.massUnit);
+  const setMassUnit = useSettingsStore((state) => state.setMassUnit);
+  const baseCurrency = useSettingsStore((state) => state.baseCurrency);
+  const setBaseCurrency = useSettingsStore((state) => state.setBaseCurrency);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg w-full max-w-md max-h-full overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Settings
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="space-y-4">
+          <div>
+            <label
+              htmlFor="costingMethod"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Inventory Costing Method
+            </label>
+            <select
+              id="costingMethod"
+              value={costingMethod}
+              onChange={(e) =>
+                setCostingMethod(e.target.value as CostingMethod)
+              }
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              {COSTING_METHODS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Decides which purchase cost each sale is matched against.
+            </p>
+          </div>
+          <div>
+            <label
+              htmlFor="massUnit"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Weight Display Unit
+            </label>
+            <select
+              id="massUnit"
+              value={massUnit}
+              onChange={(e) => setMassUnit(e.target.value as MassUnit)}
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              {MASS_UNITS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Used for weights and price ratios. Products sold by the piece
+              always show per unit.
+            </p>
+          </div>
+          <div>
+            <label
+              htmlFor="baseCurrency"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Reporting Currency
+            </label>
+            <select
+              id="baseCurrency"
+              value={baseCurrency}
+              onChange={(e) => setBaseCurrency(e.target.value)}
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              {CURRENCIES.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Net cash, breakdowns and profit are converted into it.
+            </p>
+          </div>
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Exchange Rates
+            </h4>
+            <ExchangeRateTable />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Each transaction uses the latest rate dated on or before its day;
+              balances use the newest.
+            </p>
+          </div>
+        </div>
+        <div className="flex justify-end pt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+// src/components/ShrinkageReport.tsx
+import { useMemo } from "react";
+import { format } from "date-fns";
+import { Scale } from "lucide-react";
+import { Transaction } from "../db";
+import { summarizeAdjustments } from "../inventory";
+import { formatWeight, formatWeightChange } from "../format";
+import { MassUnit } from "../units";
+
+interface ShrinkageReportProps {
+  transactions: Transaction[]; // Mass-tracked products only
+  unit: MassUnit;
+}
+
+export default function ShrinkageReport({
+  transactions,
+  unit,
+}: ShrinkageReportProps) {
+  const summary = useMemo(
+    () => summarizeAdjustments(transactions),
+    [transactions]
+  );
+  const reasons = Object.entries(summary.byReason);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow border border-gray-100 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Shrinkage
+        </h3>
+        <div className="p-2 rounded-lg bg-amber-50 dark:bg-amber-900/30 text-amber-600 dark:text-amber-300">
+          <Scale className="h-5 w-5" />
+        </div>
+      </div>
+      {reasons.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 text-center py-4">
+          No stock-take adjustments recorded.
+        </p>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-3">
+          <div className="space-y-2">
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Written off
+            </p>
+            <p className="text-2xl font-bold text-rose-600 dark:text-rose-400">
+              {formatWeight(summary.totalLoss, unit)}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Found {formatWeight(summary.totalGain, unit)}
+              {summary.lossRate !== null &&
+                ` · ${(summary.lossRate * 100).toFixed(1)}% of purchases`}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              By reason
+            </p>
+            <ul className="space-y-2">
+              {reasons.map(([reason, { weight, count }]) => (
+                <li key={reason} className="flex justify-between text-sm">
+                  <span className="text-gray-700 dark:text-gray-300">
+                    {reason} ({count})
+                  </span>
+                  <span
+                    className={
+                      weight < 0
+                        ? "text-rose-600 dark:text-rose-400"
+                        : "text-emerald-600 dark:text-emerald-400"
+                    }
+                  >
+                    {formatWeightChange(weight, unit)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              By month
+            </p>
+            <ul className="space-y-2">
+              {summary.byMonth.slice(0, 6).map(({ month, loss, gain }) => (
+                <li key={month} className="flex justify-between text-sm">
+                  <span className="text-gray-700 dark:text-gray-300">
+                    {format(new Date(`${month}-01T00:00:00`), "MMM yyyy")}
+                  </span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    <span className="text-rose-600 dark:text-rose-400">
+                      -{formatWeight(loss, unit)}
+                    </span>
+                    {gain > 0 && (
+                      <span className="ml-2 text-emerald-600 dark:text-emerald-400">
+                        +{formatWeight(gain, unit)}
+                      </span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
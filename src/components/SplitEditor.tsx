@@ -0,0 +1,172 @@
+// src/components/SplitEditor.tsx
+import { PlusCircle, Trash2 } from "lucide-react";
+import cn from "classnames";
+import { Category, Purpose } from "../db";
+import { categoryTree } from "../categories";
+import { formatCurrency } from "../format";
+import { DEFAULT_BUSINESS_PERCENT, PURPOSES } from "../purpose";
+import { SplitLineInput, splitRemainder, splitsBalance } from "../splits";
+
+interface SplitEditorProps {
+  lines: SplitLineInput[];
+  total: number; // Unsigned; NaN until the amount is filled in
+  currency: string;
+  categories: Category[]; // Active categories to pick from
+  disabled: boolean;
+  onChange: (lines: SplitLineInput[]) => void;
+  onUnsplit: () => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+const emptySplitLine = (amount = ""): SplitLineInput => ({
+  category: "",
+  purpose: "Personal",
+  businessPercent: String(DEFAULT_BUSINESS_PERCENT),
+  amount,
+});
+
+export default function SplitEditor({
+  lines,
+  total,
+  currency,
+  categories,
+  disabled,
+  onChange,
+  onUnsplit,
+}: SplitEditorProps) {
+  const amounts = lines.map((line) => ({
+    amount: parseFloat(line.amount) || 0,
+  }));
+  const remaining = isNaN(total) ? 0 : splitRemainder(amounts, total);
+  const balanced = isNaN(total) || splitsBalance(amounts, total);
+
+  const update = (index: number, changes: Partial<SplitLineInput>) =>
+    onChange(
+      lines.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Split across categories
+        </span>
+        <button
+          type="button"
+          onClick={onUnsplit}
+          className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          Don't split
+        </button>
+      </div>
+      {lines.map((line, index) => (
+        <div key={index} className="flex flex-wrap sm:flex-nowrap gap-2">
+          <select
+            aria-label={`Line ${index + 1} category`}
+            value={line.category}
+            onChange={(e) => update(index, { category: e.target.value })}
+            className={inputClass}
+            disabled={disabled}
+          >
+            <option value="">No category</option>
+            {/* Keeps an archived or unknown category on edit */}
+            {line.category &&
+              !categories.some((cat) => cat.name === line.category) && (
+                <option value={line.category}>{line.category}</option>
+              )}
+            {categoryTree(categories).map(({ category, depth }) => (
+              <option key={category.id} value={category.name}>
+                {depth > 0 ? "\u00a0\u00a0\u00a0" : ""}
+                {category.name}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label={`Line ${index + 1} purpose`}
+            value={line.purpose}
+            onChange={(e) =>
+              update(index, { purpose: e.target.value as Purpose })
+            }
+            className={cn(inputClass, "sm:w-32 shrink-0")}
+            disabled={disabled}
+          >
+            {PURPOSES.map((purpose) => (
+              <option key={purpose} value={purpose}>
+                {purpose}
+              </option>
+            ))}
+          </select>
+          {line.purpose === "Mixed" && (
+            <input
+              type="number"
+              aria-label={`Line ${index + 1} business percentage`}
+              title="% business"
+              min="0"
+              max="100"
+              step="1"
+              value={line.businessPercent}
+              onChange={(e) =>
+                update(index, { businessPercent: e.target.value })
+              }
+              className={cn(inputClass, "sm:w-20 shrink-0")}
+              required
+              disabled={disabled}
+            />
+          )}
+          <input
+            type="number"
+            aria-label={`Line ${index + 1} amount`}
+            step="0.01"
+            min="0.01"
+            placeholder="0.00"
+            value={line.amount}
+            onChange={(e) => update(index, { amount: e.target.value })}
+            className={cn(inputClass, "sm:w-28 shrink-0")}
+            required
+            disabled={disabled}
+          />
+          <button
+            type="button"
+            onClick={() => onChange(lines.filter((_, i) => i !== index))}
+            className="p-2 text-gray-400 hover:text-rose-600 dark:hover:text-rose-400 disabled:opacity-50"
+            title="Remove line"
+            disabled={disabled || lines.length <= 2}
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={() =>
+            onChange([
+              ...lines,
+              emptySplitLine(remaining > 0 ? remaining.toFixed(2) : ""),
+            ])
+          }
+          className="inline-flex items-center text-indigo-600 dark:text-indigo-400 hover:underline"
+          disabled={disabled}
+        >
+          <PlusCircle className="h-4 w-4 mr-1" />
+          Add line
+        </button>
+        <span
+          className={cn(
+            balanced
+              ? "text-gray-500 dark:text-gray-400"
+              : "text-amber-600 dark:text-amber-400"
+          )}
+        >
+          {balanced
+            ? "Lines add up to the total"
+            : remaining > 0
+            ? `${formatCurrency(remaining, currency)} left to assign`
+            : `${formatCurrency(-remaining, currency)} over the total`}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+// src/components/StockTakeDialog.tsx
+import React, { useState } from "react";
+import { X } from "lucide-react";
+import { ADJUSTMENT_REASONS, AdjustmentReason, Product } from "../db";
+import { NO_PRODUCT, ProductSummary } from "../inventory";
+import { formatProductName, formatWeight, formatWeightChange } from "../format";
+import { useSettingsStore } from "../settings";
+import { displayUnitFor, isCountUnit, toBaseQuantity } from "../units";
+
+interface StockTakeDialogProps {
+  products: Product[]; // Active products only
+  productSummaries: Record<string, ProductSummary>;
+  isLoading: boolean;
+  onRecord: (
+    variance: number,
+    reason: AdjustmentReason,
+    productId?: string,
+    notes?: string
+  ) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export default function StockTakeDialog({
+  products,
+  productSummaries,
+  isLoading,
+  onRecord,
+  onClose,
+}: StockTakeDialogProps) {
+  const [productId, setProductId] = useState(products[0]?.id ?? NO_PRODUCT);
+  const [countedInput, setCountedInput] = useState("");
+  const [reason, setReason] = useState<AdjustmentReason>("Spillage");
+  const [notes, setNotes] = useState("");
+  const massUnit = useSettingsStore((state) => state.massUnit);
+
+  // Each product is counted on its own, in its own unit
+  const unit = displayUnitFor(
+    products.find((product) => product.id === productId)?.unit,
+    massUnit
+  );
+  const weightOnHand = productSummaries[productId]?.weightOnHand ?? 0;
+  const counted = parseFloat(countedInput);
+  // Rounded to the precision the scale and the form work in
+  const variance = isNaN(counted)
+    ? null
+    : Math.round((toBaseQuantity(counted, unit) - weightOnHand) * 100) / 100;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (variance === null || variance === 0) return;
+    if (
+      await onRecord(
+        variance,
+        reason,
+        productId || undefined,
+        notes || undefined
+      )
+    ) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg w-full max-w-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Stock Take
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label
+              htmlFor="stockTakeProduct"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Product
+            </label>
+            <select
+              id="stockTakeProduct"
+              value={productId}
+              onChange={(e) => setProductId(e.target.value)}
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              {products.map((product) => (
+                <option key={product.id} value={product.id}>
+                  {formatProductName(product)}
+                </option>
+              ))}
+              <option value={NO_PRODUCT}>No product</option>
+            </select>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-500 dark:text-gray-400">
+              Expected on hand
+            </span>
+            <span className="font-medium text-gray-900 dark:text-white">
+              {formatWeight(weightOnHand, unit)}
+            </span>
+          </div>
+          <div>
+            <label
+              htmlFor="counted"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              {isCountUnit(unit) ? "Pieces counted" : "Weight on the scale"}
+            </label>
+            <div className="relative">
+              <input
+                id="counted"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                value={countedInput}
+                onChange={(e) => setCountedInput(e.target.value)}
+                className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                required
+                autoFocus
+              />
+              <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+                <span className="text-gray-500">{unit}</span>
+              </div>
+            </div>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-500 dark:text-gray-400">Variance</span>
+            <span
+              className={`font-semibold ${
+                variance === null || variance === 0
+                  ? "text-gray-500 dark:text-gray-400"
+                  : variance > 0
+                  ? "text-emerald-600 dark:text-emerald-400"
+                  : "text-rose-600 dark:text-rose-400"
+              }`}
+            >
+              {variance === null ? "—" : formatWeightChange(variance, unit)}
+            </span>
+          </div>
+          <div>
+            <label
+              htmlFor="reason"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Reason
+            </label>
+            <select
+              id="reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value as AdjustmentReason)}
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              {ADJUSTMENT_REASONS.map((r) => (
+                <option key={r} value={r}>
+                  {r}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label
+              htmlFor="stockTakeNotes"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Notes (Optional)
+            </label>
+            <input
+              id="stockTakeNotes"
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading || variance === null || variance === 0}
+              className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Record Adjustment
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+// src/components/SyncStatus.tsx
+import { useState } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { format } from "date-fns";
+import {
+  AlertTriangle,
+  CloudOff,
+  CloudUpload,
+  Cloud,
+  Radio,
+  RefreshCw,
+  X,
+} from "lucide-react";
+import cn from "classnames";
+import { db } from "../db";
+import { useAppStore } from "../store";
+
+export default function SyncStatus() {
+  const [showConflicts, setShowConflicts] = useState(false);
+  const user = useAppStore((state) => state.user);
+  const isOnline = useAppStore((state) => state.isOnline);
+  const isSyncing = useAppStore((state) => state.isSyncing);
+  const lastSyncError = useAppStore((state) => state.lastSyncError);
+  const realtimeStatus = useAppStore((state) => state.realtimeStatus);
+  const syncOutbox = useAppStore((state) => state.syncOutbox);
+
+  const userId = user?.id ?? "";
+  const pendingCount = useLiveQuery(
+    () => db.outbox.where("user_id").equals(userId).count(),
+    [userId],
+    0
+  );
+  const conflicts = useLiveQuery(
+    () =>
+      db.conflicts
+        .where("user_id")
+        .equals(userId)
+        .reverse()
+        .sortBy("detected_at"),
+    [userId],
+    []
+  );
+
+  const dismissConflicts = async () => {
+    await db.conflicts.where("user_id").equals(userId).delete();
+    setShowConflicts(false);
+  };
+
+  const { icon, label, tone } = !isOnline
+    ? {
+        icon: <CloudOff className="h-4 w-4" />,
+        label:
+          pendingCount > 0 ? `Offline · ${pendingCount} pending` : "Offline",
+        tone: "bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200",
+      }
+    : isSyncing
+    ? {
+        icon: <RefreshCw className="h-4 w-4 animate-spin" />,
+        label: "Syncing...",
+        tone: "bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200",
+      }
+    : pendingCount > 0
+    ? {
+        icon: <CloudUpload className="h-4 w-4" />,
+        label: `${pendingCount} pending`,
+        tone: lastSyncError
+          ? "bg-rose-100 dark:bg-rose-900/30 text-rose-800 dark:text-rose-200"
+          : "bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200",
+      }
+    : {
+        icon: <Cloud className="h-4 w-4" />,
+        label: "Synced",
+        tone: "bg-emerald-100 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-200",
+      };
+
+  return (
+    <div className="relative flex items-center gap-2">
+      <button
+        onClick={() => syncOutbox()}
+        disabled={!isOnline || isSyncing || pendingCount === 0}
+        title={lastSyncError ?? undefined}
+        className={cn(
+          "inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium disabled:cursor-default",
+          tone
+        )}
+      >
+        {icon}
+        {label}
+      </button>
+      {isOnline && userId && (
+        <span
+          title={
+            realtimeStatus === "connected"
+              ? "Changes from your other devices appear as they happen"
+              : "Changes from your other devices appear after a reload"
+          }
+          className={cn(
+            "inline-flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium",
+            realtimeStatus === "connected"
+              ? "bg-emerald-100 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-200"
+              : realtimeStatus === "connecting"
+              ? "bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200"
+              : "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+          )}
+        >
+          <Radio
+            className={cn(
+              "h-4 w-4",
+              realtimeStatus === "connecting" && "animate-pulse"
+            )}
+          />
+          {realtimeStatus === "connected"
+            ? "Live"
+            : realtimeStatus === "connecting"
+            ? "Connecting..."
+            : "Not live"}
+        </span>
+      )}
+      {conflicts.length > 0 && (
+        <button
+          onClick={() => setShowConflicts(!showConflicts)}
+          className="inline-flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium bg-rose-100 dark:bg-rose-900/30 text-rose-800 dark:text-rose-200"
+        >
+          <AlertTriangle className="h-4 w-4" />
+          {conflicts.length} conflict{conflicts.length !== 1 ? "s" : ""}
+        </button>
+      )}
+
+      {showConflicts && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-100 dark:border-gray-700 p-4 z-40">
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+              Changed on another device
+            </h3>
+            <button
+              onClick={() => setShowConflicts(false)}
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {conflicts.map((conflict) => (
+              <li
+                key={conflict.id}
+                className="text-xs text-gray-600 dark:text-gray-300"
+              >
+                <span className="font-medium capitalize">
+                  {conflict.op} on {conflict.table.replace(/s$/, "")} #
+                  {conflict.row_id}
+                </span>
+                {" — "}
+                {conflict.resolution === "kept_local"
+                  ? "your change was kept"
+                  : conflict.remote
+                  ? "the other device's change was kept"
+                  : "the row was deleted elsewhere"}
+                <span className="block text-gray-400">
+                  {format(new Date(conflict.detected_at), "MMM d, h:mm a")}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={dismissConflicts}
+            className="mt-3 w-full px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Dismiss all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+// src/components/TransactionFilterBar.tsx
+import {
+  Listbox,
+  ListboxButton,
+  ListboxOption,
+  ListboxOptions,
+} from "@headlessui/react";
+import { Check, ChevronDown, Search, X } from "lucide-react";
+import cn from "classnames";
+import { Account, TransactionType } from "../db";
+import {
+  DATE_PRESETS,
+  DEFAULT_FILTERS,
+  DatePreset,
+  SORT_OPTIONS,
+  SortKey,
+  TransactionFilters,
+  isFiltered,
+} from "../filters";
+import { MassUnit } from "../units";
+
+const TRANSACTION_TYPES: TransactionType[] = [
+  "Sale",
+  "Purchase",
+  "Expense",
+  "Transfer",
+  "Adjustment",
+];
+
+const inputClass =
+  "px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+interface MultiSelectProps<T extends string> {
+  label: string;
+  options: { value: T; label: string }[];
+  selected: T[];
+  onChange: (selected: T[]) => void;
+}
+
+function MultiSelect<T extends string>({
+  label,
+  options,
+  selected,
+  onChange,
+}: MultiSelectProps<T>) {
+  return (
+    <Listbox value={selected} onChange={onChange} multiple>
+      <ListboxButton
+        className={cn(inputClass, "inline-flex items-center gap-2 text-left")}
+      >
+        {label}
+        {selected.length > 0 && (
+          <span className="px-1.5 rounded-full bg-indigo-100 dark:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300 text-xs">
+            {selected.length}
+          </span>
+        )}
+        <ChevronDown className="h-4 w-4 text-gray-400" />
+      </ListboxButton>
+      <ListboxOptions
+        anchor="bottom start"
+        className="z-40 mt-1 w-56 max-h-64 overflow-y-auto rounded-lg bg-white dark:bg-gray-800 shadow-lg border border-gray-100 dark:border-gray-700 p-1 focus:outline-none"
+      >
+        {options.length === 0 && (
+          <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+            Nothing to choose from
+          </p>
+        )}
+        {options.map((option) => (
+          <ListboxOption
+            key={option.value}
+            value={option.value}
+            className="group flex items-center gap-2 px-3 py-2 rounded-md text-sm text-gray-700 dark:text-gray-300 cursor-pointer data-[focus]:bg-gray-100 dark:data-[focus]:bg-gray-700"
+          >
+            <Check className="h-4 w-4 text-indigo-600 invisible group-data-[selected]:visible" />
+            {option.label}
+          </ListboxOption>
+        ))}
+      </ListboxOptions>
+    </Listbox>
+  );
+}
+
+interface TransactionFilterBarProps {
+  filters: TransactionFilters;
+  onChange: (filters: TransactionFilters) => void;
+  accounts: Account[];
+  categories: string[];
+  weightUnit: MassUnit;
+}
+
+export default function TransactionFilterBar({
+  filters,
+  onChange,
+  accounts,
+  categories,
+  weightUnit,
+}: TransactionFilterBarProps) {
+  const update = (changes: Partial<TransactionFilters>) =>
+    onChange({ ...filters, ...changes });
+
+  const numberInput = (
+    key: "minAmount" | "maxAmount" | "minWeight" | "maxWeight",
+    placeholder: string
+  ) => (
+    <input
+      type="number"
+      step="0.01"
+      min="0"
+      placeholder={placeholder}
+      value={filters[key] ?? ""}
+      onChange={(e) => {
+        const value = parseFloat(e.target.value);
+        update({ [key]: isNaN(value) ? undefined : value });
+      }}
+      className={cn(inputClass, "w-24")}
+      aria-label={placeholder}
+    />
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-4 rounded-xl shadow border border-gray-100 dark:border-gray-700 mb-4 space-y-3">
+      <div className="flex flex-wrap gap-3">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="search"
+            placeholder="Search notes..."
+            value={filters.search}
+            onChange={(e) => update({ search: e.target.value })}
+            className={cn(inputClass, "w-full pl-9")}
+          />
+        </div>
+        <select
+          value={filters.preset}
+          onChange={(e) => update({ preset: e.target.value as DatePreset })}
+          className={inputClass}
+          aria-label="Date range"
+        >
+          {DATE_PRESETS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {filters.preset === "custom" && (
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={filters.from ?? ""}
+              onChange={(e) => update({ from: e.target.value || undefined })}
+              className={inputClass}
+              aria-label="From date"
+            />
+            <span className="text-gray-500">–</span>
+            <input
+              type="date"
+              value={filters.to ?? ""}
+              onChange={(e) => update({ to: e.target.value || undefined })}
+              className={inputClass}
+              aria-label="To date"
+            />
+          </div>
+        )}
+        <select
+          value={filters.sort}
+          onChange={(e) => update({ sort: e.target.value as SortKey })}
+          className={inputClass}
+          aria-label="Sort order"
+        >
+          {SORT_OPTIONS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <MultiSelect
+          label="Accounts"
+          options={accounts.map((acc) => ({ value: acc.id, label: acc.name }))}
+          selected={filters.accountIds}
+          onChange={(accountIds) => update({ accountIds })}
+        />
+        <MultiSelect
+          label="Types"
+          options={TRANSACTION_TYPES.map((type) => ({
+            value: type,
+            label: type,
+          }))}
+          selected={filters.types}
+          onChange={(types) => update({ types })}
+        />
+        <MultiSelect
+          label="Categories"
+          options={categories.map((cat) => ({ value: cat, label: cat }))}
+          selected={filters.categories}
+          onChange={(categories) => update({ categories })}
+        />
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <span>$</span>
+          {numberInput("minAmount", "Min")}
+          <span>–</span>
+          {numberInput("maxAmount", "Max")}
+        </div>
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <span>{weightUnit}</span>
+          {numberInput("minWeight", "Min")}
+          <span>–</span>
+          {numberInput("maxWeight", "Max")}
+        </div>
+        {isFiltered(filters) && (
+          <button
+            onClick={() => onChange({ ...DEFAULT_FILTERS, sort: filters.sort })}
+            className="inline-flex items-center text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+          >
+            <X className="h-4 w-4 mr-1" />
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+// src/components/VirtualList.tsx
+import { ReactNode, useEffect, useLayoutEffect, useRef, useState } from "react";
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string | number;
+  estimateHeight: (item: T) => number; // Used until the item has rendered
+  renderItem: (item: T) => ReactNode;
+  overscan?: number; // Pixels rendered beyond each edge of the window
+  onEndReached?: () => void; // The last item came within range
+}
+
+// Renders only the items near the visible part of a list that scrolls with
+// the page. Heights are measured as items render, so rows can differ in size
+// and grow (expanded splits, long notes) without breaking the layout.
+export default function VirtualList<T>({
+  items,
+  getKey,
+  estimateHeight,
+  renderItem,
+  overscan = 600,
+  onEndReached,
+}: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const innerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const onEndReachedRef = useRef(onEndReached);
+  const [, setMeasured] = useState(0);
+  const [view, setView] = useState({ top: 0, bottom: window.innerHeight });
+
+  // The visible part of the window, relative to the top of the list. Content
+  // above the list can change size without a scroll, so body resizes count too.
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const top = -container.getBoundingClientRect().top;
+        const bottom = top + window.innerHeight;
+        setView((prev) =>
+          prev.top === top && prev.bottom === bottom ? prev : { top, bottom }
+        );
+      });
+    };
+    const resizeObserver = new ResizeObserver(update);
+    resizeObserver.observe(document.body);
+    window.addEventListener("scroll", update, { passive: true });
+    window.addEventListener("resize", update);
+    update();
+    return () => {
+      cancelAnimationFrame(frame);
+      resizeObserver.disconnect();
+      window.removeEventListener("scroll", update);
+      window.removeEventListener("resize", update);
+    };
+  }, []);
+
+  const offsets = [0];
+  items.forEach((item, i) =>
+    offsets.push(
+      offsets[i] +
+        (heights.current.get(String(getKey(item))) ?? estimateHeight(item))
+    )
+  );
+  // The first item whose bottom edge is below y
+  const indexAt = (y: number) => {
+    let low = 0;
+    let high = items.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (offsets[mid + 1] <= y) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+  const start = indexAt(view.top - overscan);
+  const end = Math.min(items.length, indexAt(view.bottom + overscan) + 1);
+
+  // Records the height of every rendered item; a change renders again with
+  // the corrected offsets
+  useLayoutEffect(() => {
+    let changed = false;
+    Array.from(innerRef.current?.children ?? []).forEach((child) => {
+      const element = child as HTMLElement;
+      const key = element.dataset.key as string;
+      if (heights.current.get(key) !== element.offsetHeight) {
+        heights.current.set(key, element.offsetHeight);
+        changed = true;
+      }
+    });
+    if (changed) setMeasured((count) => count + 1);
+  }, [items, start, end, renderItem]);
+
+  useEffect(() => {
+    onEndReachedRef.current = onEndReached;
+  });
+  useEffect(() => {
+    if (items.length > 0 && end === items.length) onEndReachedRef.current?.();
+  }, [end, items.length]);
+
+  return (
+    <div
+      ref={containerRef}
+      style={{ position: "relative", height: offsets[items.length] }}
+    >
+      <div
+        ref={innerRef}
+        style={{ transform: `translateY(${offsets[start]}px)` }}
+      >
+        {items.slice(start, end).map((item) => {
+          const key = String(getKey(item));
+          return (
+            <div key={key} data-key={key}>
+              {renderItem(item)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+// src/csv.ts
+import { format } from "date-fns";
+import { Account, Product, Transaction } from "./db";
+import { formatProductName } from "./format";
+import { baseUnitOf } from "./units";
+import { currencyOf } from "./currency";
+import { categoriesOf, linesOf } from "./splits";
+
+export type DateFormat = "iso" | "datetime" | "us" | "eu";
+
+export const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: "iso", label: "ISO 8601 (2025-01-31T14:05:00.000Z)" },
+  { value: "datetime", label: "Local date & time (2025-01-31 09:05:00)" },
+  { value: "us", label: "MM/DD/YYYY" },
+  { value: "eu", label: "DD/MM/YYYY" },
+];
+
+export type NumberFormat = "point" | "comma";
+
+// Decimal-comma locales read "," as part of the number, so those files are
+// semicolon-separated instead
+export const NUMBER_FORMATS: { value: NumberFormat; label: string }[] = [
+  { value: "point", label: "1234.56 (comma-separated)" },
+  { value: "comma", label: "1234,56 (semicolon-separated)" },
+];
+
+export interface CsvOptions {
+  dateFormat: DateFormat;
+  numberFormat: NumberFormat;
+}
+
+type CsvCell =
+  | { kind: "text"; value: string | null | undefined }
+  | { kind: "number"; value: number }
+  | { kind: "date"; value: number };
+
+export interface CsvColumn<T> {
+  key: string;
+  label: string;
+  cell: (row: T) => CsvCell;
+}
+
+const text = (value: string | null | undefined): CsvCell => ({
+  kind: "text",
+  value,
+});
+const number = (value: number): CsvCell => ({ kind: "number", value });
+const date = (value: number): CsvCell => ({ kind: "date", value });
+
+// --- Column Sets ---
+export const transactionColumns = (
+  accounts: Account[],
+  products: Product[]
+): CsvColumn<Transaction>[] => {
+  const accountNames = new Map(accounts.map((acc) => [acc.id, acc.name]));
+  const accountCurrencies = new Map(
+    accounts.map((acc) => [acc.id, currencyOf(acc)])
+  );
+  const productNames = new Map(
+    products.map((product) => [product.id, formatProductName(product)])
+  );
+  const productUnits = new Map(
+    products.map((product) => [product.id, baseUnitOf(product.unit)])
+  );
+  return [
+    { key: "date", label: "Date", cell: (tx) => date(tx.timestamp) },
+    { key: "type", label: "Type", cell: (tx) => text(tx.type) },
+    {
+      key: "account",
+      label: "Account",
+      cell: (tx) => text(accountNames.get(tx.account_id) ?? "Unknown"),
+    },
+    {
+      // Split rows list each line's category
+      key: "category",
+      label: "Category",
+      cell: (tx) => text(categoriesOf(tx).join("; ") || undefined),
+    },
+    {
+      key: "product",
+      label: "Product",
+      cell: (tx) =>
+        text(tx.product_id ? productNames.get(tx.product_id) : undefined),
+    },
+    { key: "amount", label: "Amount", cell: (tx) => number(tx.amount) },
+    {
+      key: "currency",
+      label: "Currency",
+      cell: (tx) => text(accountCurrencies.get(tx.account_id)),
+    },
+    {
+      key: "weight",
+      label: "Quantity Change",
+      cell: (tx) => number(tx.weightChange),
+    },
+    {
+      // Quantities are exported as stored: grams, or pieces
+      key: "unit",
+      label: "Unit",
+      cell: (tx) =>
+        text((tx.product_id && productUnits.get(tx.product_id)) || "g"),
+    },
+    {
+      key: "purpose",
+      label: "Purpose",
+      cell: (tx) =>
+        text(
+          [...new Set(linesOf(tx).map((line) => line.purpose))]
+            .filter(Boolean)
+            .join("; ") || undefined
+        ),
+    },
+    {
+      key: "businessPercent",
+      label: "Business %",
+      cell: (tx) =>
+        tx.business_percent !== undefined
+          ? number(tx.business_percent)
+          : text(undefined),
+    },
+    { key: "notes", label: "Notes", cell: (tx) => text(tx.notes) },
+    {
+      key: "reason",
+      label: "Adjustment Reason",
+      cell: (tx) => text(tx.adjustment_reason),
+    },
+    { key: "id", label: "Transaction ID", cell: (tx) => text(String(tx.id)) },
+  ];
+};
+
+export const accountColumns = (
+  balances: Record<string, number>
+): CsvColumn<Account>[] => [
+  { key: "name", label: "Name", cell: (acc) => text(acc.name) },
+  { key: "type", label: "Type", cell: (acc) => text(acc.type) },
+  { key: "currency", label: "Currency", cell: (acc) => text(currencyOf(acc)) },
+  {
+    key: "opening",
+    label: "Opening Balance",
+    cell: (acc) => number(acc.opening_balance),
+  },
+  {
+    key: "balance",
+    label: "Current Balance",
+    cell: (acc) => number(balances[acc.id] ?? acc.opening_balance),
+  },
+  {
+    key: "archived",
+    label: "Archived",
+    cell: (acc) => text(acc.archived ? "Yes" : "No"),
+  },
+  { key: "id", label: "Account ID", cell: (acc) => text(acc.id) },
+];
+
+export const DEFAULT_TRANSACTION_COLUMNS = [
+  "date",
+  "type",
+  "account",
+  "category",
+  "purpose",
+  "product",
+  "amount",
+  "weight",
+  "unit",
+  "notes",
+];
+
+export const DEFAULT_ACCOUNT_COLUMNS = ["name", "type", "balance"];
+
+// --- Serialization ---
+const formatDate = (ms: number, dateFormat: DateFormat): string => {
+  switch (dateFormat) {
+    case "iso":
+      return new Date(ms).toISOString();
+    case "datetime":
+      return format(ms, "yyyy-MM-dd HH:mm:ss");
+    case "us":
+      return format(ms, "MM/dd/yyyy");
+    case "eu":
+      return format(ms, "dd/MM/yyyy");
+  }
+};
+
+const formatCell = (cell: CsvCell, options: CsvOptions): string => {
+  switch (cell.kind) {
+    case "date":
+      return formatDate(cell.value, options.dateFormat);
+    case "number": {
+      const value = cell.value.toFixed(2);
+      return options.numberFormat === "comma" ? value.replace(".", ",") : value;
+    }
+    case "text": {
+      const value = cell.value ?? "";
+      // Keep spreadsheets from evaluating free text such as notes as formulas
+      return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    }
+  }
+};
+
+const escapeField = (value: string, delimiter: string): string =>
+  value.includes(delimiter) || /["\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+export const toCsv = <T>(
+  rows: T[],
+  columns: CsvColumn<T>[],
+  options: CsvOptions
+): string => {
+  const delimiter = options.numberFormat === "comma" ? ";" : ",";
+  const line = (fields: string[]) =>
+    fields.map((field) => escapeField(field, delimiter)).join(delimiter);
+
+  return [
+    line(columns.map((column) => column.label)),
+    ...rows.map((row) =>
+      line(columns.map((column) => formatCell(column.cell(row), options)))
+    ),
+  ].join("\r\n");
+};
+
+export const downloadCsv = (filename: string, csv: string) => {
+  // The BOM lets Excel detect UTF-8 instead of guessing the code page
+  const blob = new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// --- Parsing ---
+
+// Guesses the delimiter from the header line, ignoring quoted text
+const detectDelimiter = (input: string): string => {
+  const header = input.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, "");
+  return [",", ";", "\t"].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length
+      ? candidate
+      : best
+  );
+};
+
+// RFC 4180 parser: quoted fields may hold delimiters, doubled quotes and
+// line breaks. Blank lines are dropped.
+export const parseCsv = (input: string): string[][] => {
+  const source = input.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+};
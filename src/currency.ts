@@ -0,0 +1,134 @@
+// src/currency.ts
+import { format } from "date-fns";
+import { Account, Transaction } from "./db";
+import { scaleSplits } from "./splits";
+
+// Accounts hold one currency each; totals are reported in a base currency
+export const DEFAULT_CURRENCY = "USD";
+
+export const CURRENCIES: { value: string; label: string }[] = [
+  { value: "USD", label: "US Dollar (USD)" },
+  { value: "EUR", label: "Euro (EUR)" },
+  { value: "GBP", label: "British Pound (GBP)" },
+  { value: "CAD", label: "Canadian Dollar (CAD)" },
+  { value: "AUD", label: "Australian Dollar (AUD)" },
+  { value: "MXN", label: "Mexican Peso (MXN)" },
+  { value: "JPY", label: "Japanese Yen (JPY)" },
+  { value: "CHF", label: "Swiss Franc (CHF)" },
+];
+
+// 1 unit of `from` is worth `rate` units of `to`, from `date` onwards
+export interface ExchangeRate {
+  id: string;
+  from: string;
+  to: string;
+  date: string; // yyyy-MM-dd
+  rate: number;
+}
+
+export const currencyOf = (account: Account | undefined): string =>
+  account?.currency ?? DEFAULT_CURRENCY;
+
+// The rate in effect on a day: the latest one dated on or before it, or the
+// earliest one when the day predates the table. Pairs work in either
+// direction.
+export const findRate = (
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  timestamp: number
+): number | null => {
+  if (from === to) return 1;
+  const day = format(timestamp, "yyyy-MM-dd");
+  const quotes = rates
+    .filter(
+      (r) =>
+        r.rate > 0 &&
+        ((r.from === from && r.to === to) || (r.from === to && r.to === from))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (quotes.length === 0) return null;
+
+  const quote = quotes.filter((r) => r.date <= day).pop() ?? quotes[0];
+  return quote.from === from ? quote.rate : 1 / quote.rate;
+};
+
+// Rates found so far per rate table, target currency and currency-day.
+// Summaries are recalculated on every write; the settings store replaces the
+// table when it changes, so a cached rate is never stale.
+const rateCache = new WeakMap<
+  ExchangeRate[],
+  Map<string, Map<string, number | null>>
+>();
+
+// findRate into one currency, remembering each currency and day it is asked
+export const rateLookup = (rates: ExchangeRate[], to: string) => {
+  const byTarget = rateCache.get(rates) ?? new Map();
+  rateCache.set(rates, byTarget);
+  const found: Map<string, number | null> = byTarget.get(to) ?? new Map();
+  byTarget.set(to, found);
+
+  return (from: string, timestamp: number): number | null => {
+    if (from === to) return 1;
+    const key = `${from} ${format(timestamp, "yyyy-MM-dd")}`;
+    if (!found.has(key)) found.set(key, findRate(rates, from, to, timestamp));
+    return found.get(key) ?? null;
+  };
+};
+
+export interface BaseConversion {
+  baseAmounts: Record<number, number>; // transaction id -> amount in base
+  baseBalances: Record<string, number>; // account id -> balance in base
+  missingRates: string[]; // Currencies counted 1:1 for want of a rate
+}
+
+// Transactions convert at the rate of their own day, balances at today's
+export const convertToBase = (
+  accounts: Account[],
+  transactions: Transaction[],
+  accountBalances: Record<string, number>,
+  rates: ExchangeRate[],
+  baseCurrency: string,
+  now: number = Date.now()
+): BaseConversion => {
+  const currencies = new Map(accounts.map((acc) => [acc.id, currencyOf(acc)]));
+  const missing = new Set<string>();
+  const rateOn = rateLookup(rates, baseCurrency);
+  const convert = (amount: number, currency: string, timestamp: number) => {
+    const rate = rateOn(currency, timestamp);
+    if (rate === null) missing.add(currency);
+    return amount * (rate ?? 1);
+  };
+
+  const baseAmounts: Record<number, number> = {};
+  transactions.forEach((tx) => {
+    baseAmounts[tx.id] = convert(
+      tx.amount,
+      currencies.get(tx.account_id) ?? DEFAULT_CURRENCY,
+      tx.timestamp
+    );
+  });
+  const baseBalances: Record<string, number> = {};
+  accounts.forEach((acc) => {
+    baseBalances[acc.id] = convert(
+      accountBalances[acc.id] ?? acc.opening_balance,
+      currencyOf(acc),
+      now
+    );
+  });
+
+  return { baseAmounts, baseBalances, missingRates: [...missing].sort() };
+};
+
+// Copies of the transactions with amounts in the base currency, for reports
+export const inBaseCurrency = (
+  transactions: Transaction[],
+  baseAmounts: Record<number, number>
+): Transaction[] =>
+  transactions.map((tx) => {
+    if (!(tx.id in baseAmounts)) return tx;
+    const amount = baseAmounts[tx.id];
+    // Split lines convert at the same rate as their total
+    const splits = tx.splits && scaleSplits(tx.splits, tx.amount, amount);
+    return { ...tx, amount, splits };
+  });
@@ -1,11 +1,57 @@
 // src/db.ts
+import Dexie, { type EntityTable } from "dexie";
+import { Unit } from "./units";
+
 export interface Account {
   id: string;
   user_id: string;
   name: string;
   type: string;
-  current_balance: number;
+  opening_balance: number; // Balance before the first recorded transaction
+  currency: string; // ISO 4217 code; amounts on the account are in it
+  archived: boolean; // Hidden from pickers but kept for its history
+  created_at: number; // JS timestamp (ms)
+  updated_at: number; // JS timestamp (ms)
+}
+
+// Something bought and sold; inventory is tracked separately per product
+export interface Product {
+  id: string;
+  user_id: string;
+  name: string;
+  unit: Unit; // Default entry unit; "each" products are counted in pieces
+  variant?: string; // Optional grade or variant label
+  archived: boolean; // Hidden from pickers but kept for its history
   created_at: number; // JS timestamp (ms)
+  updated_at: number; // JS timestamp (ms)
+}
+
+// A user-defined transaction category; transactions refer to it by name
+export interface Category {
+  id: string;
+  user_id: string;
+  name: string; // Unique per user
+  icon: string; // Key into CATEGORY_ICONS
+  color: string; // Hex color for the icon
+  parent_id?: string; // Nests the category one level under another
+  archived: boolean; // Hidden from pickers but kept for its history
+  created_at: number; // JS timestamp (ms)
+  updated_at: number; // JS timestamp (ms)
+}
+
+export type BudgetPeriod = "weekly" | "monthly";
+
+// A spending limit on Expense transactions in a category and its children
+export interface Budget {
+  id: string;
+  user_id: string;
+  category_id: string;
+  account_id?: string; // Only count this account; unset counts every account
+  period: BudgetPeriod;
+  amount: number; // Per period, in the base currency
+  rollover: boolean; // Carry unspent amounts into the next period
+  created_at: number; // JS timestamp (ms); periods are counted from here
+  updated_at: number; // JS timestamp (ms)
 }
 
 export type TransactionType =
@@ -15,26 +61,325 @@ export type TransactionType =
   | "Transfer"
   | "Adjustment";
 
+// Why a stock-take found a different weight than the ledger
+export type AdjustmentReason =
+  | "Spillage"
+  | "Sample"
+  | "Personal Use"
+  | "Scale Error"
+  | "Other";
+
+export const ADJUSTMENT_REASONS: AdjustmentReason[] = [
+  "Spillage",
+  "Sample",
+  "Personal Use",
+  "Scale Error",
+  "Other",
+];
+
+// What a transaction was for, separate from its category
+export type Purpose = "Personal" | "Business" | "Mixed";
+
+// One line of a transaction split across categories. Line amounts share the
+// parent's sign and sum to its amount.
+export interface TransactionSplit {
+  category?: string;
+  purpose?: Purpose;
+  business_percent?: number; // 0-100; only set on Mixed lines
+  amount: number;
+}
+
 export interface Transaction {
-  id: number;
+  id: number; // Negative while the row only exists locally
+  client_id: string; // Set by the device that created the row; never changes
   timestamp: number; // JS timestamp (ms)
   type: TransactionType;
   amount: number;
-  weightChange: number;
+  weightChange: number; // Grams, or pieces for "each" products
+  unit?: Unit; // Unit the quantity was entered in; unset means grams
   notes?: string;
   account_id: string;
-  category?: string;
+  category?: string; // Category name; renames and merges rewrite it
   user_id: string;
   created_at: number; // JS timestamp (ms)
+  updated_at: number; // JS timestamp (ms)
   related_transaction_id?: number;
+  adjustment_reason?: AdjustmentReason; // Only set on Adjustment transactions
+  product_id?: string; // Purchases, sales and adjustments; unset is unassigned
+  purpose?: Purpose; // Unset on rows from before purpose was tracked
+  business_percent?: number; // 0-100; only set on Mixed transactions
+  splits?: TransactionSplit[]; // When set, category and purpose are per line
 }
 
 // Helper types for database operations
 export type TransactionInsert = Omit<
   Transaction,
-  "id" | "user_id" | "created_at" | "timestamp"
+  "id" | "client_id" | "user_id" | "created_at" | "updated_at" | "timestamp"
 > & {
   timestamp?: string; // ISO string for Supabase
 };
 
 export type TransactionUpdate = Partial<TransactionInsert>;
+
+export type ScheduleFrequency = "daily" | "weekly" | "monthly" | "custom";
+export type ScheduleUnit = "day" | "week" | "month" | "year";
+
+// The transaction each occurrence of a schedule creates
+export type ScheduleTemplate = Omit<
+  TransactionInsert,
+  "timestamp" | "related_transaction_id" | "adjustment_reason"
+>;
+
+// A transaction that repeats, such as rent or a subscription
+export interface Schedule {
+  id: string;
+  user_id: string;
+  name: string;
+  template: ScheduleTemplate;
+  frequency: ScheduleFrequency;
+  interval: number; // Every N interval_units; only used by "custom"
+  interval_unit: ScheduleUnit; // Only used by "custom"
+  start_date: number; // JS timestamp (ms) of the first occurrence
+  end_date?: number; // JS timestamp (ms); no occurrences after it
+  next_due: number; // JS timestamp (ms) of the earliest unhandled occurrence
+  amount_variance: number; // Percent each occurrence may differ by
+  auto_post: boolean; // Record due occurrences without asking
+  created_at: number; // JS timestamp (ms)
+  updated_at: number; // JS timestamp (ms)
+}
+
+// A move between two accounts, written as a linked outgoing/incoming pair
+export interface TransferInput {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number; // Positive amount leaving fromAccountId
+  receivedAmount?: number; // Arriving in toAccountId's currency; defaults to amount
+  fee: number; // Charged to fromAccountId; 0 for none
+  notes?: string;
+  timestamp?: string; // ISO string for Supabase
+}
+
+// --- Offline Sync ---
+export type SyncTable =
+  | "accounts"
+  | "products"
+  | "categories"
+  | "budgets"
+  | "schedules"
+  | "transactions";
+// "recategorize" moves every transaction, loaded or not, from one category
+// name to another; its payload holds the two names
+export type SyncOperation = "insert" | "update" | "delete" | "recategorize";
+
+// A pending write that still has to be replayed against Supabase
+export interface OutboxEntry {
+  seq?: number;
+  user_id: string;
+  table: SyncTable;
+  op: SyncOperation;
+  row_id: string | number;
+  payload: Record<string, unknown>; // Supabase column names
+  base_updated_at: number | null; // Server version the change was made against
+  reassign_to?: string; // Account deletes: where its transactions move
+  in_flight?: boolean; // Being replayed; later writes queue behind it
+  queued_at: number;
+  attempts: number;
+  last_error?: string;
+}
+
+// A write that collided with a change made on another device
+export interface SyncConflict {
+  id?: number;
+  user_id: string;
+  table: SyncTable;
+  row_id: string | number;
+  op: SyncOperation;
+  local: Record<string, unknown>;
+  remote: Record<string, unknown> | null;
+  resolution: "kept_local" | "kept_remote";
+  detected_at: number;
+}
+
+// Where the loaded history starts: every transaction from this one on is held
+// locally, in (timestamp, id) order
+export interface HistoryCursor {
+  timestamp: number; // JS timestamp (ms)
+  at: string; // The server's own timestamp, which keeps its microseconds
+  id: number;
+}
+
+// What the transactions before the cursor add up to for one account and
+// product, from the server. Amounts are in the account's currency.
+export interface HistoryTotal {
+  account_id: string;
+  product_id?: string;
+  amount: number;
+  weightChange: number;
+  salesAmount: number;
+  salesWeight: number; // Sum of magnitudes
+  count: number;
+}
+
+// Expense spending before the cursor for one local day, account and
+// category, from the server, in the account's currency. Split lines count
+// under their own categories.
+export interface HistoryExpenseTotal {
+  day: number; // Local midnight
+  account_id: string;
+  category: string;
+  amount: number;
+}
+
+// Purchase stock not yet sold or written off, at what it cost per unit
+export interface CostingLot {
+  weight: number;
+  unitCost: number;
+}
+
+// A cost-of-goods replay stopped part way through the history, in the base
+// currency: the lots left per product and the running totals
+export interface CostingState {
+  lots: Record<string, CostingLot[]>;
+  lastUnitCosts: Record<string, number>;
+  revenue: number;
+  costOfGoodsSold: number;
+  shrinkageCost: number;
+  uncostedWeight: number;
+  purchasedWeight: number;
+  purchasedCost: number;
+}
+
+// The replay of the history before the cursor, from the server. key records
+// what it was computed for (the cursor, costing method, base currency, rates
+// and time zone); it is only used while they still match.
+export interface HistoryCosting {
+  key: string;
+  state: CostingState;
+  missingRates: string[];
+}
+
+// How much of a user's transaction history this device holds, and where the
+// next pull picks up
+export interface SyncState {
+  user_id: string;
+  pulled_at: number; // Newest server updated_at pulled, as a JS timestamp
+  deleted_at: number; // Newest audit delete pulled, as a JS timestamp
+  cursor: HistoryCursor | null; // Null once the whole history is held
+  totals_before: HistoryTotal[];
+  expenses_before: HistoryExpenseTotal[];
+  costing_before: HistoryCosting | null;
+}
+
+// Device state kept across reloads, by key
+export interface MetaEntry {
+  key: string;
+  value: number;
+}
+
+// The client id the migration that added the column gave existing rows
+const legacyClientId = (id: number) =>
+  `00000000-0000-4000-8000-${id.toString(16).padStart(12, "0")}`;
+
+class FlowlyDatabase extends Dexie {
+  accounts!: EntityTable<Account, "id">;
+  products!: EntityTable<Product, "id">;
+  categories!: EntityTable<Category, "id">;
+  budgets!: EntityTable<Budget, "id">;
+  schedules!: EntityTable<Schedule, "id">;
+  transactions!: EntityTable<Transaction, "id">;
+  outbox!: EntityTable<OutboxEntry, "seq">;
+  conflicts!: EntityTable<SyncConflict, "id">;
+  meta!: EntityTable<MetaEntry, "key">;
+  syncState!: EntityTable<SyncState, "user_id">;
+
+  constructor() {
+    super("flowly");
+    this.version(1).stores({
+      accounts: "id, user_id, name",
+      transactions: "id, user_id, account_id, timestamp",
+      outbox: "++seq, user_id, [table+row_id]",
+      conflicts: "++id, user_id, detected_at",
+    });
+    // Balances are derived from the ledger; the typed figure becomes the
+    // opening balance
+    this.version(2)
+      .stores({})
+      .upgrade((tx) =>
+        tx
+          .table("accounts")
+          .toCollection()
+          .modify((acc) => {
+            acc.opening_balance = acc.current_balance ?? 0;
+            delete acc.current_balance;
+          })
+      );
+    this.version(3).stores({
+      products: "id, user_id, name",
+      transactions: "id, user_id, account_id, product_id, timestamp",
+    });
+    // Accounts created before currencies were tracked held dollars
+    this.version(4)
+      .stores({})
+      .upgrade((tx) =>
+        tx
+          .table("accounts")
+          .toCollection()
+          .modify((acc) => {
+            acc.currency = acc.currency ?? "USD";
+          })
+      );
+    this.version(5).stores({
+      categories: "id, user_id, name",
+    });
+    this.version(6).stores({
+      budgets: "id, user_id, category_id",
+    });
+    this.version(7).stores({
+      schedules: "id, user_id, next_due",
+    });
+    // Synced rows take the client id the server derived for them; rows not
+    // yet synced get a fresh one, carried into their queued insert
+    this.version(8)
+      .stores({
+        transactions:
+          "id, user_id, account_id, product_id, timestamp, client_id",
+      })
+      .upgrade(async (tx) => {
+        const clientIds = new Map<number, string>();
+        await tx
+          .table("transactions")
+          .toCollection()
+          .modify((row) => {
+            row.client_id =
+              row.id > 0 ? legacyClientId(row.id) : crypto.randomUUID();
+            clientIds.set(row.id, row.client_id);
+          });
+        await tx
+          .table("outbox")
+          .filter((e) => e.table === "transactions" && e.op === "insert")
+          .modify((e) => {
+            e.payload.client_id = clientIds.get(e.row_id);
+          });
+      });
+    this.version(9).stores({
+      meta: "key",
+    });
+    this.version(10).stores({
+      syncState: "user_id",
+    });
+  }
+}
+
+export const db = new FlowlyDatabase();
+
+// Rows created offline get negative ids until Supabase assigns the real one.
+// The last one handed out is kept, so ids only ever count down and one is
+// never reused, even after the row that had it has synced and been renumbered.
+export const nextLocalTransactionId = () =>
+  db.transaction("rw", db.meta, db.transactions, async () => {
+    const last = await db.meta.get("lastLocalTransactionId");
+    const lowest = await db.transactions.orderBy("id").first();
+    const id = Math.min(last?.value ?? 0, lowest?.id ?? 0) - 1;
+    await db.meta.put({ key: "lastLocalTransactionId", value: id });
+    return id;
+  });
@@ -0,0 +1,213 @@
+// src/filters.ts
+import {
+  endOfDay,
+  startOfDay,
+  startOfMonth,
+  startOfYear,
+  subDays,
+  subMonths,
+} from "date-fns";
+import { Transaction, TransactionType } from "./db";
+import { MassUnit, toBaseQuantity } from "./units";
+import { linesOf } from "./splits";
+
+export type DatePreset =
+  | "all"
+  | "today"
+  | "7d"
+  | "30d"
+  | "month"
+  | "lastMonth"
+  | "year"
+  | "custom";
+
+export const DATE_PRESETS: { value: DatePreset; label: string }[] = [
+  { value: "all", label: "All time" },
+  { value: "today", label: "Today" },
+  { value: "7d", label: "Last 7 days" },
+  { value: "30d", label: "Last 30 days" },
+  { value: "month", label: "This month" },
+  { value: "lastMonth", label: "Last month" },
+  { value: "year", label: "This year" },
+  { value: "custom", label: "Custom range" },
+];
+
+export type SortKey =
+  | "newest"
+  | "oldest"
+  | "amountDesc"
+  | "amountAsc"
+  | "weightDesc"
+  | "weightAsc";
+
+export const SORT_OPTIONS: { value: SortKey; label: string }[] = [
+  { value: "newest", label: "Newest first" },
+  { value: "oldest", label: "Oldest first" },
+  { value: "amountDesc", label: "Amount: high to low" },
+  { value: "amountAsc", label: "Amount: low to high" },
+  { value: "weightDesc", label: "Weight: high to low" },
+  { value: "weightAsc", label: "Weight: low to high" },
+];
+
+export interface TransactionFilters {
+  preset: DatePreset;
+  from?: string; // yyyy-MM-dd, custom range only
+  to?: string; // yyyy-MM-dd, custom range only
+  accountIds: string[];
+  types: TransactionType[];
+  categories: string[];
+  minAmount?: number; // Amount and weight ranges compare magnitudes
+  maxAmount?: number;
+  minWeight?: number; // In the display unit, not grams
+  maxWeight?: number;
+  search: string;
+  sort: SortKey;
+}
+
+export const DEFAULT_FILTERS: TransactionFilters = {
+  preset: "all",
+  accountIds: [],
+  types: [],
+  categories: [],
+  search: "",
+  sort: "newest",
+};
+
+// --- URL Persistence ---
+const NUMBER_PARAMS = [
+  "minAmount",
+  "maxAmount",
+  "minWeight",
+  "maxWeight",
+] as const;
+
+export const filtersFromSearch = (search: string): TransactionFilters => {
+  const params = new URLSearchParams(search);
+  const filters: TransactionFilters = {
+    ...DEFAULT_FILTERS,
+    preset: (params.get("range") as DatePreset) || DEFAULT_FILTERS.preset,
+    from: params.get("from") || undefined,
+    to: params.get("to") || undefined,
+    accountIds: params.getAll("account"),
+    types: params.getAll("type") as TransactionType[],
+    categories: params.getAll("category"),
+    search: params.get("q") || "",
+    sort: (params.get("sort") as SortKey) || DEFAULT_FILTERS.sort,
+  };
+  NUMBER_PARAMS.forEach((key) => {
+    const value = parseFloat(params.get(key) ?? "");
+    if (!isNaN(value)) filters[key] = value;
+  });
+  return filters;
+};
+
+// Only non-default values are written so shared links stay short
+export const filtersToSearch = (filters: TransactionFilters): string => {
+  const params = new URLSearchParams();
+  if (filters.preset !== DEFAULT_FILTERS.preset)
+    params.set("range", filters.preset);
+  if (filters.preset === "custom") {
+    if (filters.from) params.set("from", filters.from);
+    if (filters.to) params.set("to", filters.to);
+  }
+  filters.accountIds.forEach((id) => params.append("account", id));
+  filters.types.forEach((type) => params.append("type", type));
+  filters.categories.forEach((cat) => params.append("category", cat));
+  NUMBER_PARAMS.forEach((key) => {
+    const value = filters[key];
+    if (value !== undefined) params.set(key, String(value));
+  });
+  if (filters.search) params.set("q", filters.search);
+  if (filters.sort !== DEFAULT_FILTERS.sort) params.set("sort", filters.sort);
+  const search = params.toString();
+  return search ? `?${search}` : "";
+};
+
+// --- Matching ---
+
+// Resolves a preset to an inclusive [start, end] window in ms
+export const dateRangeOf = (
+  filters: TransactionFilters,
+  now: number = Date.now()
+): [number, number] | null => {
+  const today = new Date(now);
+  switch (filters.preset) {
+    case "all":
+      return null;
+    case "today":
+      return [startOfDay(today).getTime(), endOfDay(today).getTime()];
+    case "7d":
+      return [
+        startOfDay(subDays(today, 6)).getTime(),
+        endOfDay(today).getTime(),
+      ];
+    case "30d":
+      return [
+        startOfDay(subDays(today, 29)).getTime(),
+        endOfDay(today).getTime(),
+      ];
+    case "month":
+      return [startOfMonth(today).getTime(), endOfDay(today).getTime()];
+    case "lastMonth": {
+      const start = startOfMonth(subMonths(today, 1));
+      return [start.getTime(), startOfMonth(today).getTime() - 1];
+    }
+    case "year":
+      return [startOfYear(today).getTime(), endOfDay(today).getTime()];
+    case "custom":
+      return [
+        filters.from
+          ? startOfDay(new Date(`${filters.from}T00:00:00`)).getTime()
+          : -Infinity,
+        filters.to
+          ? endOfDay(new Date(`${filters.to}T00:00:00`)).getTime()
+          : Infinity,
+      ];
+  }
+};
+
+const inRange = (value: number, min?: number, max?: number) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+const SORTERS: Record<SortKey, (a: Transaction, b: Transaction) => number> = {
+  newest: (a, b) => b.timestamp - a.timestamp,
+  oldest: (a, b) => a.timestamp - b.timestamp,
+  amountDesc: (a, b) => b.amount - a.amount,
+  amountAsc: (a, b) => a.amount - b.amount,
+  weightDesc: (a, b) => b.weightChange - a.weightChange,
+  weightAsc: (a, b) => a.weightChange - b.weightChange,
+};
+
+export const applyFilters = (
+  transactions: Transaction[],
+  filters: TransactionFilters,
+  weightUnit: MassUnit = "g",
+  now: number = Date.now()
+): Transaction[] => {
+  const range = dateRangeOf(filters, now);
+  const search = filters.search.trim().toLowerCase();
+  const toGrams = (value?: number) =>
+    value === undefined ? undefined : toBaseQuantity(value, weightUnit);
+  const minWeight = toGrams(filters.minWeight);
+  const maxWeight = toGrams(filters.maxWeight);
+
+  return transactions
+    .filter(
+      (tx) =>
+        (!range || (tx.timestamp >= range[0] && tx.timestamp <= range[1])) &&
+        (filters.accountIds.length === 0 ||
+          filters.accountIds.includes(tx.account_id)) &&
+        (filters.types.length === 0 || filters.types.includes(tx.type)) &&
+        (filters.categories.length === 0 ||
+          linesOf(tx).some((line) =>
+            filters.categories.includes(line.category ?? "")
+          )) &&
+        inRange(Math.abs(tx.amount), filters.minAmount, filters.maxAmount) &&
+        inRange(Math.abs(tx.weightChange), minWeight, maxWeight) &&
+        (!search || (tx.notes ?? "").toLowerCase().includes(search))
+    )
+    .sort(SORTERS[filters.sort]);
+};
+
+export const isFiltered = (filters: TransactionFilters) =>
+  filtersToSearch({ ...filters, sort: DEFAULT_FILTERS.sort }) !== "";
@@ -0,0 +1,63 @@
+// src/format.ts
+import { fromBaseQuantity, isCountUnit, toPricePerUnit, Unit } from "./units";
+import { DEFAULT_CURRENCY } from "./currency";
+import { Purpose } from "./db";
+import { businessShare } from "./purpose";
+
+export const formatCurrency = (
+  value: number,
+  currency: string = DEFAULT_CURRENCY
+): string =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+  }).format(value);
+
+// Takes a stored quantity (grams or pieces) and shows it in `unit`
+export const formatWeight = (value: number, unit: Unit = "g"): string => {
+  const converted = fromBaseQuantity(value, unit);
+  return isCountUnit(unit)
+    ? `${Number(converted.toFixed(2))} each`
+    : `${converted.toFixed(2)}${unit}`;
+};
+
+// "$", "€", "CA$"; used to prefix amount inputs
+export const currencySymbol = (currency: string = DEFAULT_CURRENCY): string =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency })
+    .formatToParts(0)
+    .find((part) => part.type === "currency")?.value ?? currency;
+
+export const formatCurrencyChange = (
+  value: number,
+  currency: string = DEFAULT_CURRENCY
+): string => `${value >= 0 ? "+" : ""}${formatCurrency(value, currency)}`;
+
+export const formatWeightChange = (value: number, unit: Unit = "g"): string =>
+  `${value >= 0 ? "+" : ""}${formatWeight(value, unit)}`;
+
+// Takes a price per stored unit and shows it per `unit`, e.g. "$9.50/oz"
+export const formatPricePerUnit = (
+  value: number,
+  unit: Unit = "g",
+  currency: string = DEFAULT_CURRENCY
+): string =>
+  `${formatCurrency(toPricePerUnit(value, unit), currency)}/${
+    isCountUnit(unit) ? "unit" : unit
+  }`;
+
+export const formatProductName = (product: {
+  name: string;
+  variant?: string;
+}): string =>
+  product.variant ? `${product.name} (${product.variant})` : product.name;
+
+// "Business", "Personal" or "Mixed · 60% business"
+export const formatPurpose = (
+  purpose: Purpose,
+  businessPercent?: number
+): string =>
+  purpose === "Mixed"
+    ? `Mixed · ${Math.round(
+        businessShare(purpose, businessPercent) * 100
+      )}% business`
+    : purpose;
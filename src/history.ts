@@ -0,0 +1,60 @@
+// src/history.ts
+import { format, isToday, isYesterday, startOfDay } from "date-fns";
+import { HistoryCursor, Transaction } from "./db";
+
+// Whether a row comes before the part of the history this device holds
+export const precedesCursor = (
+  tx: Pick<Transaction, "timestamp" | "id">,
+  cursor: HistoryCursor | null
+) =>
+  cursor !== null &&
+  (tx.timestamp < cursor.timestamp ||
+    (tx.timestamp === cursor.timestamp && tx.id < cursor.id));
+
+export interface DayTotal {
+  net: number; // In the base currency
+  count: number;
+}
+
+export type HistoryItem =
+  | ({ kind: "day"; day: number } & DayTotal) // day is local midnight
+  | { kind: "transaction"; tx: Transaction };
+
+// The transactions, under a header for each day when they are in date
+// order. The oldest day loaded may be missing rows until the next page of
+// the history arrives.
+export const historyItems = (
+  transactions: Transaction[],
+  baseAmounts: Record<number, number>,
+  byDay: boolean
+): HistoryItem[] => {
+  if (!byDay) return transactions.map((tx) => ({ kind: "transaction", tx }));
+
+  const totals = new Map<number, DayTotal>();
+  transactions.forEach((tx) => {
+    const day = startOfDay(tx.timestamp).getTime();
+    const total = totals.get(day) ?? { net: 0, count: 0 };
+    total.net += baseAmounts[tx.id] ?? 0;
+    total.count++;
+    totals.set(day, total);
+  });
+
+  const items: HistoryItem[] = [];
+  let current: number | null = null;
+  transactions.forEach((tx) => {
+    const day = startOfDay(tx.timestamp).getTime();
+    if (day !== current) {
+      current = day;
+      items.push({ kind: "day", day, ...(totals.get(day) as DayTotal) });
+    }
+    items.push({ kind: "transaction", tx });
+  });
+  return items;
+};
+
+export const formatDay = (day: number) =>
+  isToday(day)
+    ? "Today"
+    : isYesterday(day)
+    ? "Yesterday"
+    : format(day, "EEEE, MMM d, yyyy");
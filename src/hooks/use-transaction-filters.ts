@@ -0,0 +1,27 @@
+import * as React from "react"
+
+import {
+  filtersFromSearch,
+  filtersToSearch,
+  TransactionFilters,
+} from "../filters"
+
+// Keeps the history filters in the query string so a view can be bookmarked
+// or shared. replaceState avoids a history entry per keystroke.
+function useTransactionFilters() {
+  const [filters, setFiltersState] = React.useState<TransactionFilters>(() =>
+    filtersFromSearch(window.location.search)
+  )
+
+  const setFilters = React.useCallback((next: TransactionFilters) => {
+    setFiltersState(next)
+    const url = `${window.location.pathname}${filtersToSearch(next)}${
+      window.location.hash
+    }`
+    window.history.replaceState(null, "", url)
+  }, [])
+
+  return { filters, setFilters }
+}
+
+export { useTransactionFilters }
@@ -0,0 +1,264 @@
+// src/inventory.ts
+import { format } from "date-fns";
+import {
+  AdjustmentReason,
+  CostingLot,
+  CostingState,
+  Product,
+  Transaction,
+} from "./db";
+import { isCountUnit } from "./units";
+import { compareChronological } from "./ledger";
+
+export interface ShrinkageSummary {
+  byReason: Partial<
+    Record<AdjustmentReason, { weight: number; count: number }>
+  >;
+  byMonth: { month: string; loss: number; gain: number }[]; // month: yyyy-MM
+  totalLoss: number; // Positive grams written off
+  totalGain: number; // Positive grams found
+  purchasedWeight: number;
+  lossRate: number | null; // totalLoss / purchasedWeight
+}
+
+// Summarizes stock-take adjustments; losses and gains are kept apart so a
+// found gram never hides a lost one
+export const summarizeAdjustments = (
+  transactions: Transaction[]
+): ShrinkageSummary => {
+  const byReason: ShrinkageSummary["byReason"] = {};
+  const months: Record<string, { loss: number; gain: number }> = {};
+  let totalLoss = 0;
+  let totalGain = 0;
+  let purchasedWeight = 0;
+
+  transactions.forEach((tx) => {
+    if (tx.type === "Purchase") {
+      purchasedWeight += Math.max(tx.weightChange, 0);
+      return;
+    }
+    if (tx.type !== "Adjustment" || tx.weightChange === 0) return;
+
+    const reason = tx.adjustment_reason ?? "Other";
+    const entry = byReason[reason] ?? { weight: 0, count: 0 };
+    entry.weight += tx.weightChange;
+    entry.count += 1;
+    byReason[reason] = entry;
+
+    const month = format(new Date(tx.timestamp), "yyyy-MM");
+    months[month] = months[month] ?? { loss: 0, gain: 0 };
+    if (tx.weightChange < 0) {
+      months[month].loss += -tx.weightChange;
+      totalLoss += -tx.weightChange;
+    } else {
+      months[month].gain += tx.weightChange;
+      totalGain += tx.weightChange;
+    }
+  });
+
+  return {
+    byReason,
+    byMonth: Object.entries(months)
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([month, totals]) => ({ month, ...totals })),
+    totalLoss,
+    totalGain,
+    purchasedWeight,
+    lossRate: purchasedWeight > 0 ? totalLoss / purchasedWeight : null,
+  };
+};
+
+// --- Products ---
+
+// Key for stock recorded before products existed, or without one
+export const NO_PRODUCT = "";
+
+// Products counted in pieces; their quantities can't be added to grams
+export const countedProductIds = (products: Product[]): Set<string> =>
+  new Set(
+    products
+      .filter((product) => isCountUnit(product.unit))
+      .map((product) => product.id)
+  );
+
+// Drops movements of pieced products so gram totals stay meaningful
+export const massTransactions = (
+  transactions: Transaction[],
+  counted: Set<string>
+): Transaction[] =>
+  counted.size === 0
+    ? transactions
+    : transactions.filter(
+        (tx) => !tx.product_id || !counted.has(tx.product_id)
+      );
+
+export interface ProductSummary {
+  weightOnHand: number;
+  salesAmount: number;
+  salesWeight: number;
+  dollarPerGramRatio: number | null; // Per piece for "each" products
+}
+
+// Per-product totals keyed by product id, with NO_PRODUCT for the rest,
+// starting from any carried over from older history
+export const summarizeProducts = (
+  transactions: Transaction[],
+  carried: Record<string, ProductSummary> = {}
+): Record<string, ProductSummary> => {
+  const summaries: Record<string, ProductSummary> = {};
+  Object.entries(carried).forEach(
+    ([key, summary]) => (summaries[key] = { ...summary })
+  );
+
+  transactions.forEach((tx) => {
+    if (tx.weightChange === 0 && tx.type !== "Sale") return;
+    const key = tx.product_id ?? NO_PRODUCT;
+    const summary = (summaries[key] = summaries[key] ?? {
+      weightOnHand: 0,
+      salesAmount: 0,
+      salesWeight: 0,
+      dollarPerGramRatio: null,
+    });
+    summary.weightOnHand += tx.weightChange;
+    if (tx.type === "Sale") {
+      summary.salesAmount += tx.amount;
+      summary.salesWeight += Math.abs(tx.weightChange);
+    }
+  });
+
+  Object.values(summaries).forEach((summary) => {
+    summary.dollarPerGramRatio =
+      summary.salesWeight > 0
+        ? summary.salesAmount / summary.salesWeight
+        : null;
+  });
+  return summaries;
+};
+
+// --- Cost Basis ---
+export type CostingMethod = "fifo" | "average";
+
+export const COSTING_METHODS: { value: CostingMethod; label: string }[] = [
+  { value: "fifo", label: "FIFO (first in, first out)" },
+  { value: "average", label: "Weighted average" },
+];
+
+export interface CostingResult {
+  saleCosts: Record<number, number>; // sale id -> cost of goods sold
+  revenue: number;
+  costOfGoodsSold: number;
+  grossProfit: number;
+  grossMargin: number | null; // grossProfit / revenue
+  averageCostPerGram: number | null; // Across all purchases by weight
+  shrinkageCost: number; // Cost of stock written off by adjustments
+  inventoryValue: number; // Cost of what is still on hand
+  uncostedWeight: number; // Sold or written off with no stock to cost it
+}
+
+// Replays inventory movements in time order against purchase lots. FIFO
+// draws from the oldest lot first; weighted average keeps a single pooled lot.
+// Each product has its own lots, so a sale is only costed against purchases
+// of the same product. A replay of older history can be carried on from.
+export const computeCosting = (
+  transactions: Transaction[],
+  method: CostingMethod,
+  counted: Set<string> = new Set(),
+  start?: CostingState
+): CostingResult => {
+  const lotsByProduct: Record<string, CostingLot[]> = {};
+  Object.entries(start?.lots ?? {}).forEach(
+    ([product, lots]) =>
+      (lotsByProduct[product] = lots.map((lot) => ({ ...lot })))
+  );
+  const lastUnitCosts: Record<string, number> = { ...start?.lastUnitCosts };
+  const saleCosts: Record<number, number> = {};
+  let revenue = start?.revenue ?? 0;
+  let costOfGoodsSold = start?.costOfGoodsSold ?? 0;
+  let shrinkageCost = start?.shrinkageCost ?? 0;
+  let uncostedWeight = start?.uncostedWeight ?? 0;
+  let purchasedWeight = start?.purchasedWeight ?? 0;
+  let purchasedCost = start?.purchasedCost ?? 0;
+
+  const currentUnitCost = (product: string) => {
+    const lots = lotsByProduct[product] ?? [];
+    const weight = lots.reduce((sum, lot) => sum + lot.weight, 0);
+    return weight > 0
+      ? lots.reduce((sum, lot) => sum + lot.weight * lot.unitCost, 0) / weight
+      : lastUnitCosts[product] ?? 0;
+  };
+
+  const addLot = (product: string, weight: number, unitCost: number) => {
+    const lots = (lotsByProduct[product] = lotsByProduct[product] ?? []);
+    if (method === "average" && lots.length > 0) {
+      const pooled = lots[0];
+      const total = pooled.weight + weight;
+      pooled.unitCost =
+        total > 0
+          ? (pooled.weight * pooled.unitCost + weight * unitCost) / total
+          : unitCost;
+      pooled.weight = total;
+    } else {
+      lots.push({ weight, unitCost });
+    }
+    lastUnitCosts[product] = unitCost;
+  };
+
+  // Removes weight from stock and returns its cost
+  const consume = (product: string, weight: number): number => {
+    const lots = lotsByProduct[product] ?? [];
+    let remaining = weight;
+    let cost = 0;
+    while (remaining > 0 && lots.length > 0) {
+      const lot = lots[0];
+      const taken = Math.min(lot.weight, remaining);
+      cost += taken * lot.unitCost;
+      lot.weight -= taken;
+      remaining -= taken;
+      lastUnitCosts[product] = lot.unitCost;
+      if (lot.weight <= 0) lots.shift();
+    }
+    if (remaining > 0) {
+      uncostedWeight += remaining;
+      cost += remaining * (lastUnitCosts[product] ?? 0);
+    }
+    return cost;
+  };
+
+  [...transactions].sort(compareChronological).forEach((tx) => {
+    const product = tx.product_id ?? NO_PRODUCT;
+    if (tx.type === "Purchase" && tx.weightChange > 0) {
+      const cost = Math.abs(tx.amount);
+      if (!counted.has(product)) {
+        purchasedWeight += tx.weightChange;
+        purchasedCost += cost;
+      }
+      addLot(product, tx.weightChange, cost / tx.weightChange);
+    } else if (tx.type === "Sale") {
+      const cost = consume(product, Math.abs(tx.weightChange));
+      saleCosts[tx.id] = cost;
+      revenue += tx.amount;
+      costOfGoodsSold += cost;
+    } else if (tx.type === "Adjustment" && tx.weightChange < 0) {
+      shrinkageCost += consume(product, -tx.weightChange);
+    } else if (tx.type === "Adjustment" && tx.weightChange > 0) {
+      // Found stock is valued at what stock currently costs
+      addLot(product, tx.weightChange, currentUnitCost(product));
+    }
+  });
+
+  const grossProfit = revenue - costOfGoodsSold;
+  return {
+    saleCosts,
+    revenue,
+    costOfGoodsSold,
+    grossProfit,
+    grossMargin: revenue > 0 ? grossProfit / revenue : null,
+    averageCostPerGram:
+      purchasedWeight > 0 ? purchasedCost / purchasedWeight : null,
+    shrinkageCost,
+    inventoryValue: Object.values(lotsByProduct)
+      .flat()
+      .reduce((sum, lot) => sum + lot.weight * lot.unitCost, 0),
+    uncostedWeight,
+  };
+};
@@ -0,0 +1,69 @@
+// src/ledger.ts
+import { Account, Transaction } from "./db";
+
+// Oldest first; ties fall back to entry order so balances are stable
+export const compareChronological = (a: Transaction, b: Transaction) =>
+  a.timestamp - b.timestamp || a.created_at - b.created_at || a.id - b.id;
+
+export interface LedgerBalances {
+  accountBalances: Record<string, number>; // account id -> current balance
+  runningBalances: Record<number, number>; // transaction id -> balance after it
+}
+
+// Walks every account's transactions in time order, starting from its
+// opening balance plus what the history older than them carried
+export const computeLedgerBalances = (
+  accounts: Account[],
+  transactions: Transaction[],
+  carried: Record<string, number> = {}
+): LedgerBalances => {
+  const accountBalances: Record<string, number> = {};
+  const runningBalances: Record<number, number> = {};
+
+  accounts.forEach(
+    (acc) =>
+      (accountBalances[acc.id] = acc.opening_balance + (carried[acc.id] ?? 0))
+  );
+
+  [...transactions].sort(compareChronological).forEach((tx) => {
+    const balance = (accountBalances[tx.account_id] ?? 0) + tx.amount;
+    accountBalances[tx.account_id] = balance;
+    runningBalances[tx.id] = balance;
+  });
+
+  return { accountBalances, runningBalances };
+};
+
+export interface TransferLegs {
+  outgoing: Transaction;
+  incoming?: Transaction;
+  fee?: Transaction;
+}
+
+// Resolves the linked legs of a transfer from any one of them. The outgoing
+// leg is the anchor: the incoming leg links back to it, and the optional fee
+// is an Expense linked to it.
+export const findTransferLegs = (
+  transactions: Transaction[],
+  tx: Transaction
+): TransferLegs | null => {
+  const byId = (id?: number) =>
+    id === undefined ? undefined : transactions.find((t) => t.id === id);
+
+  const outgoing =
+    tx.type === "Transfer" && tx.amount < 0
+      ? tx
+      : byId(tx.related_transaction_id);
+  if (!outgoing || outgoing.type !== "Transfer" || outgoing.amount >= 0) {
+    return null;
+  }
+  if (tx.type !== "Transfer" && tx.type !== "Expense") return null;
+
+  return {
+    outgoing,
+    incoming: byId(outgoing.related_transaction_id),
+    fee: transactions.find(
+      (t) => t.type === "Expense" && t.related_transaction_id === outgoing.id
+    ),
+  };
+};
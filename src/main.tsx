@@ -3,6 +3,7 @@ import React, { useEffect } from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
 import AuthForm from "./components/AuthForm";
+import { Toaster } from "./components/ui/toaster";
 import { useAppStore } from "./store";
 import "./index.css";
 import { MoonLoader } from "react-spinners";
@@ -35,5 +36,6 @@ function Root() {
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <Root />
+    <Toaster />
   </React.StrictMode>
 );
@@ -0,0 +1,28 @@
+// src/notify.tsx
+import { toast } from "./hooks/use-toast";
+import { ToastAction } from "./components/ui/toast";
+
+// Confirms a change, offering to reverse it
+export const notifyUndoable = (title: string, onUndo: () => void) =>
+  toast({
+    title,
+    action: (
+      <ToastAction altText="Undo" onClick={onUndo}>
+        Undo
+      </ToastAction>
+    ),
+  });
+
+// Reports something that could not be done; for thrown errors the message
+// becomes the description and the details stay in the console
+export const notifyError = (title: string, error?: unknown) =>
+  toast({
+    variant: "destructive",
+    title,
+    description:
+      error === undefined
+        ? undefined
+        : error instanceof Error
+        ? error.message
+        : String(error),
+  });
@@ -0,0 +1,82 @@
+// src/purpose.ts
+import { Category, Purpose, Transaction, TransactionSplit } from "./db";
+import { linesOf } from "./splits";
+
+export const PURPOSES: Purpose[] = ["Personal", "Business", "Mixed"];
+
+export const DEFAULT_BUSINESS_PERCENT = 50;
+
+// Rows from before purpose was tracked fall back to the Personal or Business
+// category they, or their parent, were filed under
+export const purposeOf = (
+  tx: Pick<TransactionSplit, "purpose" | "category">,
+  categories: Category[]
+): Purpose | undefined => {
+  if (tx.purpose) return tx.purpose;
+  const category = categories.find((cat) => cat.name === tx.category);
+  const parent = categories.find((cat) => cat.id === category?.parent_id);
+  const name = (parent ?? category)?.name;
+  return name === "Personal" || name === "Business" ? name : undefined;
+};
+
+// The fraction of an amount that counts as business
+export const businessShare = (
+  purpose: Purpose | undefined,
+  businessPercent?: number
+): number => {
+  switch (purpose) {
+    case "Business":
+      return 1;
+    case "Mixed":
+      return (
+        Math.min(
+          100,
+          Math.max(0, businessPercent ?? DEFAULT_BUSINESS_PERCENT)
+        ) / 100
+      );
+    default:
+      return 0;
+  }
+};
+
+export interface PurposeTotals {
+  business: number;
+  personal: number;
+  unassigned: number; // Spending with no purpose to go on
+}
+
+// Adds one line of Expense or Purchase spending to the totals, with Mixed
+// lines apportioned by their business percentage
+export const countPurposeLine = (
+  totals: PurposeTotals,
+  line: Pick<TransactionSplit, "purpose" | "category" | "business_percent">,
+  spent: number,
+  categories: Category[]
+) => {
+  const purpose = purposeOf(line, categories);
+  if (!purpose) {
+    totals.unassigned += spent;
+    return;
+  }
+  const share = businessShare(purpose, line.business_percent);
+  totals.business += spent * share;
+  totals.personal += spent * (1 - share);
+};
+
+// Expense and Purchase spending split into business and personal, with split
+// rows counted line by line. Refunds recorded as positive amounts reduce the
+// totals.
+export const summarizePurpose = (
+  transactions: Transaction[],
+  categories: Category[]
+): PurposeTotals =>
+  transactions.reduce<PurposeTotals>(
+    (totals, tx) => {
+      if (tx.type !== "Expense" && tx.type !== "Purchase") return totals;
+      linesOf(tx).forEach((line) =>
+        countPurposeLine(totals, line, -line.amount, categories)
+      );
+      return totals;
+    },
+    { business: 0, personal: 0, unassigned: 0 }
+  );
@@ -0,0 +1,151 @@
+// src/schedules.ts
+import { add } from "date-fns";
+import {
+  Schedule,
+  ScheduleFrequency,
+  ScheduleTemplate,
+  ScheduleUnit,
+  TransactionType,
+} from "./db";
+import { scaleSplits } from "./splits";
+
+export const SCHEDULE_FREQUENCIES: {
+  value: ScheduleFrequency;
+  label: string;
+}[] = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "custom", label: "Custom" },
+];
+
+export const SCHEDULE_UNITS: { value: ScheduleUnit; label: string }[] = [
+  { value: "day", label: "Days" },
+  { value: "week", label: "Weeks" },
+  { value: "month", label: "Months" },
+  { value: "year", label: "Years" },
+];
+
+// Transfers and adjustments need more than one template row, so only these
+// can repeat
+export const SCHEDULE_TYPES: TransactionType[] = [
+  "Expense",
+  "Sale",
+  "Purchase",
+];
+
+// Caps catch-up after a long time away, so a daily schedule can't post
+// years of rows at once
+const MAX_OCCURRENCES = 366;
+
+const stepOf = (
+  schedule: Schedule
+): { unit: ScheduleUnit; interval: number } => {
+  switch (schedule.frequency) {
+    case "daily":
+      return { unit: "day", interval: 1 };
+    case "weekly":
+      return { unit: "week", interval: 1 };
+    case "monthly":
+      return { unit: "month", interval: 1 };
+    case "custom":
+      return {
+        unit: schedule.interval_unit,
+        interval: Math.max(1, schedule.interval),
+      };
+  }
+};
+
+// Occurrence n is counted from the start date, so a schedule on the 31st
+// lands on the last day of shorter months without drifting
+const occurrence = (schedule: Schedule, n: number) => {
+  const { unit, interval } = stepOf(schedule);
+  return add(schedule.start_date, { [`${unit}s`]: n * interval }).getTime();
+};
+
+// The first occurrence after the given time, which may be past end_date
+export const nextOccurrenceAfter = (schedule: Schedule, after: number) => {
+  let n = 0;
+  let next = occurrence(schedule, n);
+  while (next <= after) next = occurrence(schedule, ++n);
+  return next;
+};
+
+export const isFinished = (schedule: Schedule, at = schedule.next_due) =>
+  schedule.end_date !== undefined && at > schedule.end_date;
+
+// Occurrences from next_due up to now that were neither recorded nor skipped
+export const dueOccurrences = (schedule: Schedule, now = Date.now()) => {
+  const due: number[] = [];
+  let at = schedule.next_due;
+  while (
+    at <= now &&
+    !isFinished(schedule, at) &&
+    due.length < MAX_OCCURRENCES
+  ) {
+    due.push(at);
+    at = nextOccurrenceAfter(schedule, at);
+  }
+  return due;
+};
+
+export interface Occurrence {
+  schedule: Schedule;
+  timestamp: number;
+}
+
+// Occurrences after now and up to `until`, soonest first
+export const upcomingOccurrences = (
+  schedules: Schedule[],
+  until: number,
+  now = Date.now()
+): Occurrence[] =>
+  schedules
+    .flatMap((schedule) => {
+      const upcoming: Occurrence[] = [];
+      let at =
+        schedule.next_due > now
+          ? schedule.next_due
+          : nextOccurrenceAfter(schedule, now);
+      while (
+        at <= until &&
+        !isFinished(schedule, at) &&
+        upcoming.length < MAX_OCCURRENCES
+      ) {
+        upcoming.push({ schedule, timestamp: at });
+        at = nextOccurrenceAfter(schedule, at);
+      }
+      return upcoming;
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+// Sales bring money in; every other schedulable type pays it out
+export const signedAmount = (type: TransactionType, amount: number) =>
+  type === "Sale" ? Math.abs(amount) : -Math.abs(amount);
+
+// The unsigned range an occurrence's amount is expected to fall in
+export const amountRange = (schedule: Schedule): [number, number] => {
+  const amount = Math.abs(schedule.template.amount);
+  const spread = (amount * schedule.amount_variance) / 100;
+  return [amount - spread, amount + spread];
+};
+
+// The transaction an occurrence records; the schedule name stands in for
+// missing notes so the history says what it was. Split lines keep their
+// shares of a bill that came in at a different amount.
+export const occurrenceTransaction = (
+  schedule: Schedule,
+  timestamp: number,
+  amount = schedule.template.amount
+): ScheduleTemplate & { timestamp: number } => {
+  const { template } = schedule;
+  const signed = signedAmount(template.type, amount);
+  return {
+    ...template,
+    amount: signed,
+    splits:
+      template.splits && scaleSplits(template.splits, template.amount, signed),
+    notes: template.notes || schedule.name,
+    timestamp,
+  };
+};
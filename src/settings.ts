@@ -0,0 +1,69 @@
+// src/settings.ts
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { CostingMethod } from "./inventory";
+import { MassUnit } from "./units";
+import { DEFAULT_CURRENCY, ExchangeRate } from "./currency";
+import {
+  CsvOptions,
+  DEFAULT_ACCOUNT_COLUMNS,
+  DEFAULT_TRANSACTION_COLUMNS,
+} from "./csv";
+
+export interface ExportPreferences extends CsvOptions {
+  transactionColumns: string[];
+  accountColumns: string[];
+}
+
+// Per-device preferences, kept in localStorage
+interface SettingsState {
+  costingMethod: CostingMethod;
+  massUnit: MassUnit; // How weights and $/weight ratios are displayed
+  baseCurrency: string; // Totals and reports are converted into it
+  exchangeRates: ExchangeRate[];
+  exportPreferences: ExportPreferences;
+
+  setCostingMethod: (method: CostingMethod) => void;
+  setMassUnit: (unit: MassUnit) => void;
+  setBaseCurrency: (currency: string) => void;
+  saveExchangeRate: (rate: ExchangeRate) => void; // Adds or replaces by id
+  removeExchangeRate: (id: string) => void;
+  setExportPreferences: (changes: Partial<ExportPreferences>) => void;
+}
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      costingMethod: "fifo",
+      massUnit: "g",
+      baseCurrency: DEFAULT_CURRENCY,
+      exchangeRates: [],
+      exportPreferences: {
+        dateFormat: "iso",
+        numberFormat: "point",
+        transactionColumns: DEFAULT_TRANSACTION_COLUMNS,
+        accountColumns: DEFAULT_ACCOUNT_COLUMNS,
+      },
+
+      setCostingMethod: (costingMethod) => set({ costingMethod }),
+      setMassUnit: (massUnit) => set({ massUnit }),
+      setBaseCurrency: (baseCurrency) => set({ baseCurrency }),
+      saveExchangeRate: (rate) =>
+        set((state) => ({
+          exchangeRates: [
+            ...state.exchangeRates.filter((r) => r.id !== rate.id),
+            rate,
+          ],
+        })),
+      removeExchangeRate: (id) =>
+        set((state) => ({
+          exchangeRates: state.exchangeRates.filter((r) => r.id !== id),
+        })),
+      setExportPreferences: (changes) =>
+        set((state) => ({
+          exportPreferences: { ...state.exportPreferences, ...changes },
+        })),
+    }),
+    { name: "flowly-settings" }
+  )
+);
@@ -0,0 +1,92 @@
+// src/splits.ts
+import { Purpose, Transaction, TransactionSplit } from "./db";
+
+// Split lines must add up to the total within half a cent
+const TOLERANCE = 0.005;
+
+// The lines a transaction counts as in breakdowns and budgets: its splits, or
+// a single line carrying its own category and purpose
+export const linesOf = (tx: Transaction): TransactionSplit[] =>
+  tx.splits?.length
+    ? tx.splits
+    : [
+        {
+          category: tx.category,
+          purpose: tx.purpose,
+          business_percent: tx.business_percent,
+          amount: tx.amount,
+        },
+      ];
+
+// A split line as typed; amounts are unsigned like the form's total
+export interface SplitLineInput {
+  category: string;
+  purpose: Purpose;
+  businessPercent: string;
+  amount: string;
+}
+
+// Unsigned lines, or null when any amount or business percentage is invalid
+export const parseSplitLines = (
+  lines: SplitLineInput[]
+): TransactionSplit[] | null => {
+  const parsed = lines.map((line): TransactionSplit | null => {
+    const amount = parseFloat(line.amount);
+    const businessPercent = parseFloat(line.businessPercent);
+    if (isNaN(amount) || amount <= 0) return null;
+    if (
+      line.purpose === "Mixed" &&
+      (isNaN(businessPercent) || businessPercent < 0 || businessPercent > 100)
+    ) {
+      return null;
+    }
+    return {
+      category: line.category || undefined,
+      purpose: line.purpose,
+      business_percent: line.purpose === "Mixed" ? businessPercent : undefined,
+      amount,
+    };
+  });
+  return parsed.every((line) => line !== null)
+    ? (parsed as TransactionSplit[])
+    : null;
+};
+
+export const splitRemainder = (splits: TransactionSplit[], total: number) =>
+  total - splits.reduce((sum, line) => sum + line.amount, 0);
+
+export const splitsBalance = (splits: TransactionSplit[], total: number) =>
+  Math.abs(splitRemainder(splits, total)) < TOLERANCE;
+
+// Lines resized to a new total, e.g. after currency conversion or when a
+// recurring bill comes in at a different amount
+export const scaleSplits = (
+  splits: TransactionSplit[],
+  from: number,
+  to: number
+): TransactionSplit[] => {
+  const ratio = from !== 0 ? to / from : 0;
+  return splits.map((line) => ({ ...line, amount: line.amount * ratio }));
+};
+
+export const categoriesOf = (tx: Transaction) =>
+  linesOf(tx).flatMap((line) => (line.category ? [line.category] : []));
+
+// The changes that move a transaction, and any of its lines, from one
+// category name to another, or null if it uses neither
+export const recategorize = (
+  tx: Transaction,
+  from: string,
+  to: string
+): Pick<Transaction, "category" | "splits"> | null => {
+  const inLines = tx.splits?.some((line) => line.category === from);
+  if (tx.category !== from && !inLines) return null;
+  return {
+    ...(tx.category === from && { category: to }),
+    ...(inLines && {
+      splits: tx.splits?.map((line) =>
+        line.category === from ? { ...line, category: to } : line
+      ),
+    }),
+  };
+};
@@ -0,0 +1,290 @@
+// src/statementImport.ts
+import { isValid, parse } from "date-fns";
+import { Transaction, TransactionInsert, TransactionType } from "./db";
+
+export type StatementProvider = "cashapp" | "paypal" | "chime" | "generic";
+
+type MappedField = "date" | "time" | "amount" | "notes" | "counterparty";
+
+// Header names for each field; "" leaves an optional field unmapped
+export interface ColumnMapping extends Record<MappedField, string> {
+  status: string;
+  dateFormat: StatementDateFormat;
+}
+
+export type StatementDateFormat = "auto" | "MM/dd/yyyy" | "dd/MM/yyyy";
+
+export const STATEMENT_DATE_FORMATS: {
+  value: StatementDateFormat;
+  label: string;
+}[] = [
+  { value: "auto", label: "Detect (ISO or MM/DD/YYYY)" },
+  { value: "MM/dd/yyyy", label: "MM/DD/YYYY" },
+  { value: "dd/MM/yyyy", label: "DD/MM/YYYY" },
+];
+
+interface ProviderPreset {
+  label: string;
+  signature: string[]; // Headers that identify the provider's export
+  columns: Record<MappedField | "status", string[]>; // Candidates, in order
+  dateFormat: StatementDateFormat;
+}
+
+// Net columns are used where a provider has them so the imported amount is
+// what actually reached the balance, fees included
+export const STATEMENT_PROVIDERS: Record<StatementProvider, ProviderPreset> = {
+  cashapp: {
+    label: "Cash App",
+    signature: ["Transaction ID", "Net Amount", "Name of sender/receiver"],
+    columns: {
+      date: ["Date"],
+      time: [],
+      amount: ["Net Amount", "Amount"],
+      notes: ["Notes", "Transaction Type"],
+      counterparty: ["Name of sender/receiver"],
+      status: ["Status"],
+    },
+    dateFormat: "auto",
+  },
+  paypal: {
+    label: "PayPal",
+    signature: ["Time", "TimeZone", "Gross", "Net"],
+    columns: {
+      date: ["Date"],
+      time: ["Time"],
+      amount: ["Net", "Gross"],
+      notes: ["Note", "Subject", "Item Title", "Type"],
+      counterparty: ["Name"],
+      status: ["Status"],
+    },
+    dateFormat: "MM/dd/yyyy",
+  },
+  chime: {
+    label: "Chime",
+    signature: ["Transaction Date", "Description", "Amount"],
+    columns: {
+      date: ["Transaction Date", "Date"],
+      time: [],
+      amount: ["Amount"],
+      notes: ["Description"],
+      counterparty: [],
+      status: [],
+    },
+    dateFormat: "auto",
+  },
+  generic: {
+    label: "Other (map columns)",
+    signature: [],
+    columns: {
+      date: ["Date", "Transaction Date", "Posted Date", "Posting Date"],
+      time: ["Time"],
+      amount: ["Amount", "Net Amount", "Net", "Total"],
+      notes: ["Description", "Memo", "Notes", "Note", "Details"],
+      counterparty: ["Name", "Payee", "Merchant"],
+      status: ["Status"],
+    },
+    dateFormat: "auto",
+  },
+};
+
+const normalize = (header: string) => header.trim().toLowerCase();
+
+export const detectProvider = (headers: string[]): StatementProvider => {
+  const present = new Set(headers.map(normalize));
+  const match = (["cashapp", "paypal", "chime"] as const).find((provider) =>
+    STATEMENT_PROVIDERS[provider].signature.every((header) =>
+      present.has(normalize(header))
+    )
+  );
+  return match ?? "generic";
+};
+
+// Resolves a preset's candidate headers against the file's actual headers
+export const mappingFor = (
+  provider: StatementProvider,
+  headers: string[]
+): ColumnMapping => {
+  const preset = STATEMENT_PROVIDERS[provider];
+  const pick = (candidates: string[]) => {
+    for (const candidate of candidates) {
+      const header = headers.find(
+        (header) => normalize(header) === normalize(candidate)
+      );
+      if (header) return header;
+    }
+    return "";
+  };
+  return {
+    date: pick(preset.columns.date),
+    time: pick(preset.columns.time),
+    amount: pick(preset.columns.amount),
+    notes: pick(preset.columns.notes),
+    counterparty: pick(preset.columns.counterparty),
+    status: pick(preset.columns.status),
+    dateFormat: preset.dateFormat,
+  };
+};
+
+// --- Row Parsing ---
+
+// Handles "$1,234.56", "-$25.00", "(25.00)" and trailing currency codes
+export const parseAmount = (value: string): number => {
+  const trimmed = value.trim();
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.includes("-");
+  const digits = trimmed.replace(/[^0-9.]/g, "");
+  if (!digits) return NaN;
+  const amount = parseFloat(digits);
+  return negative ? -amount : amount;
+};
+
+const AUTO_DATE_FORMATS = ["yyyy-MM-dd", "MM/dd/yyyy", "MM/dd/yy"];
+const TIME_FORMATS = [" HH:mm:ss", " HH:mm", "'T'HH:mm:ss", ""];
+
+export const parseStatementDate = (
+  value: string,
+  dateFormat: StatementDateFormat
+): number => {
+  // Full ISO timestamps carry their own offset
+  if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/.test(value.trim())) {
+    return new Date(value.trim()).getTime();
+  }
+  // Providers append zone abbreviations (e.g. "EST") that date-fns can't
+  // parse; those statements are read in local time instead
+  const cleaned = value.trim().replace(/\s+[A-Z]{2,5}$/, "");
+  const dateFormats = dateFormat === "auto" ? AUTO_DATE_FORMATS : [dateFormat];
+  for (const datePattern of dateFormats) {
+    for (const timePattern of TIME_FORMATS) {
+      const parsed = parse(cleaned, datePattern + timePattern, new Date());
+      if (isValid(parsed)) return parsed.getTime();
+    }
+  }
+  return NaN;
+};
+
+// Failed, pending and reversed payments never touched the balance
+const SKIPPED_STATUS =
+  /^(fail|cancel|declin|denied|revers|pending|waiting|expired)/i;
+
+export interface StatementRow {
+  line: number; // 1-based data row, header excluded
+  status: "new" | "duplicate" | "skipped" | "invalid";
+  message?: string;
+  timestamp: number;
+  amount: number;
+  notes?: string;
+  duplicateOf?: Transaction;
+}
+
+export const parseStatement = (
+  rows: string[][],
+  mapping: ColumnMapping
+): StatementRow[] => {
+  const [headers, ...body] = rows;
+  const column = (name: string) => (name ? headers.indexOf(name) : -1);
+  const indexes = {
+    date: column(mapping.date),
+    time: column(mapping.time),
+    amount: column(mapping.amount),
+    notes: column(mapping.notes),
+    counterparty: column(mapping.counterparty),
+    status: column(mapping.status),
+  };
+  const cell = (row: string[], index: number) =>
+    index >= 0 ? (row[index] ?? "").trim() : "";
+
+  return body.map((row, i) => {
+    const line = i + 1;
+    const timestamp = parseStatementDate(
+      [cell(row, indexes.date), cell(row, indexes.time)].join(" ").trim(),
+      mapping.dateFormat
+    );
+    const amount = parseAmount(cell(row, indexes.amount));
+    const notes =
+      [cell(row, indexes.counterparty), cell(row, indexes.notes)]
+        .filter(Boolean)
+        .join(" - ") || undefined;
+    const base = { line, timestamp, amount, notes };
+
+    const status = cell(row, indexes.status);
+    if (SKIPPED_STATUS.test(status)) {
+      return { ...base, status: "skipped", message: `Status: ${status}` };
+    }
+    if (isNaN(timestamp)) {
+      return { ...base, status: "invalid", message: "Unreadable date" };
+    }
+    if (isNaN(amount)) {
+      return { ...base, status: "invalid", message: "Unreadable amount" };
+    }
+    if (amount === 0) {
+      return { ...base, status: "skipped", message: "Zero amount" };
+    }
+    return { ...base, status: "new" };
+  });
+};
+
+const DUPLICATE_WINDOW = 24 * 60 * 60 * 1000; // Statements often drop times
+
+// Flags rows that match an existing transaction in the target account by
+// amount within a day. Each existing transaction can only match one row, so
+// two identical coffees on the same day still import as two.
+export const flagDuplicates = (
+  rows: StatementRow[],
+  existing: Transaction[],
+  accountId: string
+): StatementRow[] => {
+  const candidates = existing.filter((tx) => tx.account_id === accountId);
+  const claimed = new Set<number>();
+
+  return rows.map((row) => {
+    if (row.status !== "new" && row.status !== "duplicate") return row;
+    const match = candidates.find(
+      (tx) =>
+        !claimed.has(tx.id) &&
+        Math.abs(tx.amount - row.amount) < 0.005 &&
+        Math.abs(tx.timestamp - row.timestamp) <= DUPLICATE_WINDOW
+    );
+    if (!match) return { ...row, status: "new", duplicateOf: undefined };
+    claimed.add(match.id);
+    return { ...row, status: "duplicate", duplicateOf: match };
+  });
+};
+
+export type ImportType = Extract<
+  TransactionType,
+  "Sale" | "Purchase" | "Expense"
+>;
+
+export const IMPORT_TYPES: ImportType[] = ["Sale", "Purchase", "Expense"];
+
+export interface RowChoice {
+  type: ImportType;
+  category: string;
+  weight: number;
+}
+
+export const defaultChoice = (row: StatementRow): RowChoice => ({
+  type: row.amount > 0 ? "Sale" : "Expense",
+  category: row.amount > 0 ? "Income" : "Other",
+  weight: 0,
+});
+
+// The statement's sign is kept for the amount since it is what the account
+// saw; the type only decides which way the weight moves, as in the form
+export const toTransactionInsert = (
+  row: StatementRow,
+  accountId: string,
+  choice: RowChoice
+): TransactionInsert => ({
+  type: choice.type,
+  amount: row.amount,
+  weightChange:
+    choice.type === "Purchase"
+      ? Math.abs(choice.weight)
+      : choice.type === "Sale"
+      ? -Math.abs(choice.weight)
+      : 0,
+  notes: row.notes,
+  account_id: accountId,
+  category: choice.category,
+  timestamp: new Date(row.timestamp).toISOString(),
+});
@@ -3,17 +3,110 @@ import { create } from "zustand";
 import { Session, User } from "@supabase/supabase-js";
 import {
   Account,
+  Budget,
+  Category,
+  HistoryCosting,
+  HistoryCursor,
+  HistoryExpenseTotal,
+  HistoryTotal,
+  Product,
+  Schedule,
   Transaction,
-  TransactionType,
   TransactionInsert,
   TransactionUpdate,
+  TransferInput,
+  nextLocalTransactionId,
 } from "./db";
-import { supabase, Database } from "./supabaseClient";
+import { supabase } from "./supabaseClient";
+import { computeLedgerBalances, findTransferLegs } from "./ledger";
+import {
+  computeCosting,
+  countedProductIds,
+  massTransactions,
+  ProductSummary,
+  summarizeProducts,
+} from "./inventory";
+import { useSettingsStore } from "./settings";
+import { convertToBase, inBaseCurrency } from "./currency";
+import { recategorize } from "./splits";
+import { DEFAULT_CATEGORIES } from "./categories";
+import {
+  BudgetProgress,
+  computeBudgetProgress,
+  crossedThresholds,
+} from "./budgets";
+import {
+  dueOccurrences,
+  nextOccurrenceAfter,
+  occurrenceTransaction,
+} from "./schedules";
+import { formatCurrency } from "./format";
+import { toast } from "./hooks/use-toast";
+import { notifyError, notifyUndoable } from "./notify";
+import { restoreSnapshot, UndoSnapshot } from "./undo";
+import {
+  carryTotals,
+  ServerOverview,
+  ServerSummaries,
+  summarizeServerTotals,
+} from "./summaries";
+import { AuditEntry } from "./audit";
+import {
+  loadLocalAccounts,
+  loadLocalBudgets,
+  loadLocalCategories,
+  loadLocalProducts,
+  loadLocalSchedules,
+  loadLocalTransactions,
+  loadLocalTransactionsById,
+  loadPendingTransactionIds,
+  loadSyncState,
+  costingKey,
+  hasPendingWrites,
+  pullSummaries,
+  pullAccountActivity,
+  pullTransactionHistory,
+  pullAccounts,
+  pullBudgets,
+  pullCategories,
+  pullProducts,
+  pullCostingBefore,
+  pullOlderTransactions,
+  pullSchedules,
+  pullTransactions,
+  queueAccountDelete,
+  queueAccountInsert,
+  queueAccountUpdate,
+  queueBatch,
+  queueBudgetDelete,
+  queueBudgetInsert,
+  queueBudgetUpdate,
+  queueCategoryInsert,
+  queueCategoryUpdate,
+  queueRecategorize,
+  queueProductInsert,
+  queueProductUpdate,
+  queueScheduleDelete,
+  queueScheduleInsert,
+  queueScheduleUpdate,
+  queueTransactionDelete,
+  queueTransactionInsert,
+  queueTransactionUpdate,
+  RealtimeStatus,
+  RemoteChange,
+  replayOutbox,
+  subscribeToChanges,
+} from "./sync";
 
-// Helper types
-type Tables = Database["public"]["Tables"];
-type AccountRow = Tables["accounts"]["Row"];
-type TransactionRow = Tables["transactions"]["Row"];
+export type {
+  Account,
+  Budget,
+  Category,
+  Product,
+  Schedule,
+  Transaction,
+  TransactionType,
+} from "./db";
 
 interface AppState {
   // Auth State
@@ -23,53 +116,215 @@ interface AppState {
 
   // Data State
   accounts: Account[];
+  products: Product[];
+  categories: Category[];
+  budgets: Budget[];
+  schedules: Schedule[];
   transactions: Transaction[];
   isLoading: boolean;
+  historyCursor: HistoryCursor | null; // Older transactions aren't loaded
+  historyTotals: HistoryTotal[]; // What the unloaded ones add up to
+  historyExpenses: HistoryExpenseTotal[]; // Their spending, for budgets
+  historyCosting: HistoryCosting | null; // Their cost of goods replay
+  isLoadingOlder: boolean;
+
+  // Sync State
+  isOnline: boolean;
+  isSyncing: boolean;
+  lastSyncError: string | null;
+  realtimeStatus: RealtimeStatus; // Live updates from other devices
+  pendingTransactionIds: Set<number>; // Rows the server hasn't confirmed yet
+  serverSummaries: ServerSummaries | null; // Null until fetched, or once stale
 
   // Calculated Values
-  overallNetCash: number;
+  accountBalances: Record<string, number>;
+  transactionCounts: Record<string, number>; // account id -> whole history
+  runningBalances: Record<number, number>;
+  baseAmounts: Record<number, number>; // transaction id -> base currency amount
+  overallNetCash: number; // In the base currency
+  missingRates: string[]; // Currencies with no rate to the base currency
   weightOnHand: number;
   dollarPerGramRatio: number | null;
+  saleCosts: Record<number, number>; // sale id -> cost of goods sold, in base
+  grossProfit: number;
+  grossMargin: number | null;
+  averageCostPerGram: number | null;
+  productSummaries: Record<string, ProductSummary>; // product id -> totals
+  budgetProgress: Record<string, BudgetProgress>; // budget id -> this period
+  serverOverview: ServerOverview | null; // serverSummaries in the base currency
 
   // Actions
   setSession: (session: Session | null) => void;
   checkSession: () => Promise<void>;
   signOut: () => Promise<void>;
   fetchAccounts: () => Promise<void>;
+  fetchProducts: () => Promise<void>;
+  fetchCategories: () => Promise<void>;
+  fetchBudgets: () => Promise<void>;
+  fetchSchedules: () => Promise<void>;
   fetchTransactions: () => Promise<void>;
+  fetchOlderTransactions: () => Promise<void>;
+  fetchHistoryCosting: () => Promise<void>;
+  loadLocalData: () => Promise<void>;
+  setOnline: (isOnline: boolean) => void;
+  syncOutbox: () => Promise<void>;
+  fetchSummaries: () => Promise<void>;
+  fetchTransactionHistory: (id: number) => Promise<AuditEntry[] | null>;
+  fetchAccountActivity: (
+    accountId: string,
+    beforeId?: number
+  ) => Promise<AuditEntry[] | null>;
+  startRealtime: () => void;
+  stopRealtime: () => void;
+  receiveRemoteChange: (change: RemoteChange) => void;
   addTransaction: (transactionData: TransactionInsert) => Promise<boolean>;
   updateTransaction: (
     id: number,
     changes: TransactionUpdate
   ) => Promise<boolean>;
   deleteTransaction: (id: number) => Promise<boolean>;
+  importTransactions: (rows: TransactionInsert[]) => Promise<boolean>;
+  addTransfer: (transfer: TransferInput) => Promise<boolean>;
+  updateTransfer: (
+    outgoingId: number,
+    transfer: TransferInput
+  ) => Promise<boolean>;
   recalculateSummaries: () => void;
   addAccount: (
-    account: Omit<Account, "id" | "user_id" | "created_at">
+    account: Omit<Account, "id" | "user_id" | "created_at" | "updated_at">
   ) => Promise<boolean>;
   updateAccount: (id: string, changes: Partial<Account>) => Promise<boolean>;
-  deleteAccount: (id: string) => Promise<boolean>;
+  deleteAccount: (id: string, reassignToId?: string) => Promise<boolean>;
+  addProduct: (
+    product: Omit<Product, "id" | "user_id" | "created_at" | "updated_at">
+  ) => Promise<boolean>;
+  updateProduct: (id: string, changes: Partial<Product>) => Promise<boolean>;
+  addCategory: (
+    category: Omit<Category, "id" | "user_id" | "created_at" | "updated_at">
+  ) => Promise<boolean>;
+  updateCategory: (id: string, changes: Partial<Category>) => Promise<boolean>;
+  mergeCategory: (sourceId: string, targetId: string) => Promise<boolean>;
+  addBudget: (
+    budget: Omit<Budget, "id" | "user_id" | "created_at" | "updated_at">
+  ) => Promise<boolean>;
+  updateBudget: (id: string, changes: Partial<Budget>) => Promise<boolean>;
+  deleteBudget: (id: string) => Promise<boolean>;
+  addSchedule: (
+    schedule: Omit<
+      Schedule,
+      "id" | "user_id" | "next_due" | "created_at" | "updated_at"
+    >
+  ) => Promise<boolean>;
+  updateSchedule: (id: string, changes: Partial<Schedule>) => Promise<boolean>;
+  deleteSchedule: (id: string) => Promise<boolean>;
+  recordOccurrence: (id: string, amount?: number) => Promise<boolean>;
+  skipOccurrence: (id: string) => Promise<boolean>;
+  materializeSchedules: () => Promise<void>;
+  undo: (snapshot: UndoSnapshot) => Promise<boolean>;
 }
 
-// Mapper functions
-const mapAccount = (account: AccountRow): Account => ({
-  ...account,
-  created_at: new Date(account.created_at).getTime(),
+// Converts the ISO timestamp used by the form helpers to a local record field
+const toLocalChanges = ({
+  timestamp,
+  ...changes
+}: TransactionUpdate): Partial<Transaction> => ({
+  ...changes,
+  ...(timestamp ? { timestamp: new Date(timestamp).getTime() } : {}),
 });
 
-const mapTransaction = (transaction: TransactionRow): Transaction => ({
-  id: transaction.id,
-  timestamp: new Date(transaction.timestamp).getTime(),
-  type: transaction.type as TransactionType,
-  amount: transaction.amount,
-  weightChange: transaction.weight_change,
-  notes: transaction.notes || undefined,
-  account_id: transaction.account_id,
-  category: transaction.category || undefined,
-  user_id: transaction.user_id,
-  created_at: new Date(transaction.created_at).getTime(),
-  related_transaction_id: transaction.related_transaction_id || undefined,
-});
+// Shows a toast for each budget that a change pushed past an alert threshold
+const notifyBudgetAlerts = (before: Record<string, BudgetProgress>) => {
+  const { budgets, budgetProgress, categories } = useAppStore.getState();
+  const { baseCurrency } = useSettingsStore.getState();
+
+  crossedThresholds(before, budgetProgress).forEach(
+    ({ budgetId, threshold }) => {
+      const budget = budgets.find((b) => b.id === budgetId);
+      if (!budget) return;
+      const name =
+        categories.find((cat) => cat.id === budget.category_id)?.name ??
+        "Unknown";
+      const { spent, limit } = budgetProgress[budgetId];
+      const period = budget.period === "weekly" ? "week" : "month";
+
+      toast({
+        variant: threshold >= 1 ? "destructive" : "warning",
+        title:
+          threshold >= 1
+            ? `${name} budget exceeded`
+            : `${name} budget ${Math.round(threshold * 100)}% used`,
+        description: `${formatCurrency(
+          spent,
+          baseCurrency
+        )} of ${formatCurrency(limit, baseCurrency)} spent this ${period}.`,
+      });
+    }
+  );
+};
+
+// Swaps rows into state, and takes others out, in the order loading would
+// put them; summaries are recalculated from the list in memory rather than
+// rereading every table
+const patchTransactions = (put: Transaction[], removedIds: number[] = []) => {
+  const { transactions, recalculateSummaries } = useAppStore.getState();
+  const replaced = new Set([...removedIds, ...put.map((tx) => tx.id)]);
+  invalidateSummaries();
+  useAppStore.setState({
+    transactions: [
+      ...transactions.filter((tx) => !replaced.has(tx.id)),
+      ...put,
+    ].sort((a, b) => b.timestamp - a.timestamp || b.id - a.id),
+  });
+  recalculateSummaries();
+};
+
+// Marks rows as waiting on the server until the next sync says otherwise
+const markPending = (ids: number[]) => {
+  const pending = new Set(useAppStore.getState().pendingTransactionIds);
+  ids.forEach((id) => pending.add(id));
+  useAppStore.setState({ pendingTransactionIds: pending });
+};
+
+// Brings state in line with IndexedDB for just the rows a write touched
+const reloadTransactions = async (ids: number[]) => {
+  const rows = await loadLocalTransactionsById(ids);
+  patchTransactions(
+    rows.filter((tx): tx is Transaction => tx !== undefined),
+    ids.filter((_, i) => !rows[i])
+  );
+  markPending(ids);
+};
+
+// Confirms a change, with an Undo action that puts back what it touched
+const notifyChange = (title: string, snapshot: UndoSnapshot) =>
+  notifyUndoable(title, () => void useAppStore.getState().undo(snapshot));
+
+// Bumped whenever the local copy moves ahead of the server's aggregates, so
+// a fetch that started before the change is not applied after it
+let summariesVersion = 0;
+
+const invalidateSummaries = () => {
+  summariesVersion++;
+  useAppStore.setState({ serverSummaries: null });
+};
+
+// Gathers a burst of changes from another device into one refetch
+let summariesTimer: ReturnType<typeof setTimeout> | undefined;
+
+const scheduleSummariesFetch = () => {
+  clearTimeout(summariesTimer);
+  summariesTimer = setTimeout(
+    () => void useAppStore.getState().fetchSummaries(),
+    1000
+  );
+};
+
+// Stops the realtime subscription, while there is one
+let unsubscribeRealtime: (() => void) | null = null;
+
+// Guards against the app-open and sign-in paths posting the same
+// occurrences twice
+let isMaterializing = false;
 
 export const useAppStore = create<AppState>((set, get) => ({
   // Initial State
@@ -77,11 +332,38 @@ export const useAppStore = create<AppState>((set, get) => ({
   user: null,
   isSessionLoading: true,
   accounts: [],
+  products: [],
+  categories: [],
+  budgets: [],
+  schedules: [],
   transactions: [],
   isLoading: false,
+  historyCursor: null,
+  historyTotals: [],
+  historyExpenses: [],
+  historyCosting: null,
+  isLoadingOlder: false,
+  isOnline: navigator.onLine,
+  isSyncing: false,
+  lastSyncError: null,
+  realtimeStatus: "disconnected",
+  pendingTransactionIds: new Set(),
+  serverSummaries: null,
+  accountBalances: {},
+  transactionCounts: {},
+  runningBalances: {},
+  baseAmounts: {},
   overallNetCash: 0,
+  missingRates: [],
   weightOnHand: 0,
   dollarPerGramRatio: null,
+  saleCosts: {},
+  grossProfit: 0,
+  grossMargin: null,
+  averageCostPerGram: null,
+  productSummaries: {},
+  budgetProgress: {},
+  serverOverview: null,
 
   // Auth Actions
   setSession: (session) => set({ session, user: session?.user ?? null }),
@@ -98,9 +380,34 @@ export const useAppStore = create<AppState>((set, get) => ({
       set({ session, user: session?.user ?? null });
 
       if (session?.user) {
-        await Promise.all([get().fetchAccounts(), get().fetchTransactions()]);
+        // Shows the local copy straight away; the pulls below catch it up
+        await get().loadLocalData();
+        await get().syncOutbox();
+        await Promise.all([
+          get().fetchAccounts(),
+          get().fetchProducts(),
+          get().fetchCategories(),
+          get().fetchBudgets(),
+          get().fetchSchedules(),
+          get().fetchTransactions(),
+        ]);
+        get().startRealtime();
+        await get().materializeSchedules();
       } else {
-        set({ accounts: [], transactions: [] });
+        set({
+          accounts: [],
+          products: [],
+          categories: [],
+          budgets: [],
+          schedules: [],
+          transactions: [],
+          historyCursor: null,
+          historyTotals: [],
+          historyExpenses: [],
+          historyCosting: null,
+          pendingTransactionIds: new Set(),
+          serverSummaries: null,
+        });
       }
     } catch (error) {
       console.error("Session check failed:", error);
@@ -113,7 +420,23 @@ export const useAppStore = create<AppState>((set, get) => ({
     try {
       const { error } = await supabase.auth.signOut();
       if (error) throw error;
-      set({ session: null, user: null, accounts: [], transactions: [] });
+      get().stopRealtime();
+      set({
+        session: null,
+        user: null,
+        accounts: [],
+        products: [],
+        categories: [],
+        budgets: [],
+        schedules: [],
+        transactions: [],
+        historyCursor: null,
+        historyTotals: [],
+        historyExpenses: [],
+        historyCosting: null,
+        pendingTransactionIds: new Set(),
+        serverSummaries: null,
+      });
     } catch (error) {
       console.error("Sign out failed:", error);
     }
@@ -126,109 +449,1299 @@ export const useAppStore = create<AppState>((set, get) => ({
 
     set({ isLoading: true });
     try {
-      const { data, error } = await supabase
-        .from("accounts")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("name", { ascending: true });
-
-      if (error) throw error;
+      if (get().isOnline) {
+        await pullAccounts(user.id).catch((error) =>
+          console.error("Failed to fetch accounts, using local copy:", error)
+        );
+      }
 
-      const accounts = data?.map(mapAccount) || [];
+      const accounts = await loadLocalAccounts(user.id);
       set({ accounts });
       get().recalculateSummaries();
     } catch (error) {
-      console.error("Failed to fetch accounts:", error);
+      console.error("Failed to load accounts:", error);
       set({ accounts: [] });
     } finally {
       set({ isLoading: false });
     }
   },
 
-  fetchTransactions: async () => {
+  fetchProducts: async () => {
     const user = get().user;
     if (!user) return;
 
     set({ isLoading: true });
     try {
-      const { data, error } = await supabase
-        .from("transactions")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("timestamp", { ascending: false });
+      if (get().isOnline) {
+        await pullProducts(user.id).catch((error) =>
+          console.error("Failed to fetch products, using local copy:", error)
+        );
+      }
 
-      if (error) throw error;
+      const products = await loadLocalProducts(user.id);
+      set({ products });
+      get().recalculateSummaries();
+    } catch (error) {
+      console.error("Failed to load products:", error);
+      set({ products: [] });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  fetchCategories: async () => {
+    const user = get().user;
+    if (!user) return;
+
+    set({ isLoading: true });
+    try {
+      let pulled = false;
+      if (get().isOnline) {
+        pulled = await pullCategories(user.id).then(
+          () => true,
+          (error) => {
+            console.error(
+              "Failed to fetch categories, using local copy:",
+              error
+            );
+            return false;
+          }
+        );
+      }
+
+      // Seed the defaults only once the server confirms there are none, so
+      // devices that were offline don't each create their own copy
+      if (pulled && (await loadLocalCategories(user.id)).length === 0) {
+        const now = Date.now();
+        const ids = new Map(
+          DEFAULT_CATEGORIES.map(({ name }) => [name, crypto.randomUUID()])
+        );
+        await queueBatch(async () => {
+          for (const { parent, name, ...rest } of DEFAULT_CATEGORIES) {
+            await queueCategoryInsert({
+              ...rest,
+              name,
+              id: ids.get(name)!,
+              user_id: user.id,
+              parent_id: parent && ids.get(parent),
+              archived: false,
+              created_at: now,
+              updated_at: now,
+            });
+          }
+        });
+        void get().syncOutbox();
+      }
+
+      const categories = await loadLocalCategories(user.id);
+      set({ categories });
+    } catch (error) {
+      console.error("Failed to load categories:", error);
+      set({ categories: [] });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  fetchBudgets: async () => {
+    const user = get().user;
+    if (!user) return;
+
+    set({ isLoading: true });
+    try {
+      if (get().isOnline) {
+        await pullBudgets(user.id).catch((error) =>
+          console.error("Failed to fetch budgets, using local copy:", error)
+        );
+      }
+
+      const budgets = await loadLocalBudgets(user.id);
+      set({ budgets });
+      get().recalculateSummaries();
+    } catch (error) {
+      console.error("Failed to load budgets:", error);
+      set({ budgets: [] });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  fetchSchedules: async () => {
+    const user = get().user;
+    if (!user) return;
+
+    set({ isLoading: true });
+    try {
+      if (get().isOnline) {
+        await pullSchedules(user.id).catch((error) =>
+          console.error("Failed to fetch schedules, using local copy:", error)
+        );
+      }
+
+      const schedules = await loadLocalSchedules(user.id);
+      set({ schedules });
+    } catch (error) {
+      console.error("Failed to load schedules:", error);
+      set({ schedules: [] });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  fetchTransactions: async () => {
+    const user = get().user;
+    if (!user) return;
 
-      const transactions = data?.map(mapTransaction) || [];
-      set({ transactions });
+    set({ isLoading: true });
+    try {
+      if (get().isOnline) {
+        await pullTransactions(user.id).catch((error) =>
+          console.error(
+            "Failed to fetch transactions, using local copy:",
+            error
+          )
+        );
+      }
+
+      const [transactions, syncState] = await Promise.all([
+        loadLocalTransactions(user.id),
+        loadSyncState(user.id),
+      ]);
+      set({
+        transactions,
+        historyCursor: syncState?.cursor ?? null,
+        historyTotals: syncState?.totals_before ?? [],
+        historyExpenses: syncState?.expenses_before ?? [],
+        historyCosting: syncState?.costing_before ?? null,
+      });
       get().recalculateSummaries();
+      void get().fetchHistoryCosting();
     } catch (error) {
-      console.error("Failed to fetch transactions:", error);
+      console.error("Failed to load transactions:", error);
       set({ transactions: [] });
     } finally {
       set({ isLoading: false });
     }
   },
 
-  // Data Mutations
+  // The next page of older history, as the list scrolls to its end
+  fetchOlderTransactions: async () => {
+    const { user, isOnline, historyCursor, isLoadingOlder } = get();
+    if (!user || !isOnline || !historyCursor || isLoadingOlder) return;
+
+    set({ isLoadingOlder: true });
+    try {
+      await pullOlderTransactions(user.id);
+      const [transactions, syncState] = await Promise.all([
+        loadLocalTransactions(user.id),
+        loadSyncState(user.id),
+      ]);
+      set({
+        transactions,
+        historyCursor: syncState?.cursor ?? null,
+        historyTotals: syncState?.totals_before ?? [],
+        historyExpenses: syncState?.expenses_before ?? [],
+        historyCosting: syncState?.costing_before ?? null,
+      });
+      get().recalculateSummaries();
+      void get().fetchHistoryCosting();
+    } catch (error) {
+      console.error("Failed to load older transactions:", error);
+      notifyError("Couldn't load older transactions", error);
+    } finally {
+      set({ isLoadingOlder: false });
+    }
+  },
+
+  // Cost of goods depends on every purchase before the loaded rows, so the
+  // server replays those and the local rows carry on from its result
+  fetchHistoryCosting: async () => {
+    const { user, isOnline, historyCursor, historyCosting } = get();
+    if (!user || !isOnline || !historyCursor) return;
+    const { costingMethod, baseCurrency, exchangeRates } =
+      useSettingsStore.getState();
+    const params = {
+      method: costingMethod,
+      baseCurrency,
+      rates: exchangeRates,
+    };
+    if (historyCosting?.key === costingKey(historyCursor, params)) return;
+
+    try {
+      const costing = await pullCostingBefore(user.id, params);
+      set({ historyCosting: costing });
+      get().recalculateSummaries();
+    } catch (error) {
+      console.error("Failed to replay costing for older history:", error);
+    }
+  },
+
+  loadLocalData: async () => {
+    const user = get().user;
+    if (!user) return;
+    invalidateSummaries();
+
+    const [
+      accounts,
+      products,
+      categories,
+      budgets,
+      schedules,
+      transactions,
+      syncState,
+    ] = await Promise.all([
+      loadLocalAccounts(user.id),
+      loadLocalProducts(user.id),
+      loadLocalCategories(user.id),
+      loadLocalBudgets(user.id),
+      loadLocalSchedules(user.id),
+      loadLocalTransactions(user.id),
+      loadSyncState(user.id),
+    ]);
+    set({
+      accounts,
+      products,
+      categories,
+      budgets,
+      schedules,
+      transactions,
+      historyCursor: syncState?.cursor ?? null,
+      historyTotals: syncState?.totals_before ?? [],
+      historyExpenses: syncState?.expenses_before ?? [],
+      historyCosting: syncState?.costing_before ?? null,
+      pendingTransactionIds: await loadPendingTransactionIds(user.id),
+    });
+    get().recalculateSummaries();
+  },
+
+  // Offline Sync
+  setOnline: (isOnline) => set({ isOnline }),
+
+  syncOutbox: async () => {
+    const { user, isOnline, isSyncing } = get();
+    if (!user || !isOnline || isSyncing) return;
+
+    set({ isSyncing: true });
+    try {
+      const { replayed, rejected } = await replayOutbox(user.id);
+      set({ lastSyncError: null });
+      if (replayed > 0 || rejected.length > 0) await get().loadLocalData();
+      if (rejected.length > 0) {
+        notifyError(
+          `${rejected.length} change${
+            rejected.length !== 1 ? "s were" : " was"
+          } rejected by the server and undone`,
+          rejected[0]
+        );
+      }
+      // The server has everything now, so its aggregates can be trusted
+      void get().fetchSummaries();
+    } catch (error) {
+      console.error("Failed to sync pending changes:", error);
+      set({
+        lastSyncError: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      set({
+        isSyncing: false,
+        pendingTransactionIds: await loadPendingTransactionIds(user.id),
+      });
+    }
+  },
+
+  // Headline figures from Postgres. They are only used while the server has
+  // every local write; offline, or with writes queued, the device reduces
+  // its own copy instead.
+  fetchSummaries: async () => {
+    const { user, isOnline } = get();
+    if (!user || !isOnline || (await hasPendingWrites(user.id))) return;
+
+    const version = summariesVersion;
+    try {
+      const serverSummaries = await pullSummaries();
+      if (version !== summariesVersion) return;
+      set({ serverSummaries });
+      get().recalculateSummaries();
+    } catch (error) {
+      console.error("Failed to fetch summaries, reducing locally:", error);
+    }
+  },
+
+  // Audit Trail (null when it couldn't be loaded)
+  fetchTransactionHistory: async (id) => {
+    try {
+      return await pullTransactionHistory(id);
+    } catch (error) {
+      console.error("Error fetching transaction history:", error);
+      notifyError("Couldn't load the history", error);
+      return null;
+    }
+  },
+
+  fetchAccountActivity: async (accountId, beforeId) => {
+    try {
+      return await pullAccountActivity(accountId, beforeId);
+    } catch (error) {
+      console.error("Error fetching account activity:", error);
+      notifyError("Couldn't load the activity", error);
+      return null;
+    }
+  },
+
+  // Live Updates
+  startRealtime: () => {
+    const user = get().user;
+    if (!user) return;
+
+    get().stopRealtime();
+    let wasConnected = false;
+    unsubscribeRealtime = subscribeToChanges(
+      user.id,
+      (change) => get().receiveRemoteChange(change),
+      (realtimeStatus) => {
+        // Changes made while the channel was down are not replayed to it
+        if (realtimeStatus === "connected" && wasConnected) {
+          void Promise.all([get().fetchAccounts(), get().fetchTransactions()]);
+          scheduleSummariesFetch();
+        }
+        if (realtimeStatus === "connected") wasConnected = true;
+        set({ realtimeStatus });
+      }
+    );
+  },
+
+  stopRealtime: () => {
+    unsubscribeRealtime?.();
+    unsubscribeRealtime = null;
+    set({ realtimeStatus: "disconnected" });
+  },
+
+  // Merges one row from another device into state, in the order loading
+  // would put it, without rereading everything
+  receiveRemoteChange: (change) => {
+    scheduleSummariesFetch();
+    if (change.table === "transactions") {
+      patchTransactions(
+        change.row ? [change.row] : [],
+        change.row ? [] : [change.id]
+      );
+      return;
+    }
+    invalidateSummaries();
+    const accounts = get().accounts.filter((acc) => acc.id !== change.id);
+    if (change.row) accounts.push(change.row);
+    set({ accounts: accounts.sort((a, b) => a.name.localeCompare(b.name)) });
+    get().recalculateSummaries();
+  },
+
+  // Data Mutations (applied locally first, then replayed to Supabase).
+  // Transaction edits and deletes show in state before they reach IndexedDB,
+  // and transaction writes leave isLoading alone, so the form stays usable
+  // for back-to-back entry.
   addTransaction: async (transactionData) => {
     const user = get().user;
     if (!user) return false;
 
+    const before = get().budgetProgress;
+    const { timestamp, ...fields } = transactionData;
+    const now = Date.now();
+    try {
+      // The id is taken and the row written as one local transaction before
+      // state changes, so entries made in quick succession never share an id
+      // and a failed write leaves nothing to take back
+      const tx = await queueBatch(async () => {
+        const row: Transaction = {
+          ...fields,
+          id: await nextLocalTransactionId(),
+          client_id: crypto.randomUUID(),
+          user_id: user.id,
+          timestamp: timestamp ? new Date(timestamp).getTime() : now,
+          created_at: now,
+          updated_at: now,
+        };
+        await queueTransactionInsert(row);
+        return row;
+      });
+      patchTransactions([tx]);
+      markPending([tx.id]);
+
+      notifyChange("Transaction added", {
+        transactions: { before: [], created: [tx.client_id] },
+      });
+      notifyBudgetAlerts(before);
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error("Failed to add transaction:", error);
+      notifyError("Couldn't add the transaction", error);
+      return false;
+    }
+  },
+
+  updateTransaction: async (id, changes) => {
+    const before = get().budgetProgress;
+    const existing = get().transactions.filter((t) => t.id === id);
+    const local = toLocalChanges(changes);
+    try {
+      patchTransactions(existing.map((tx) => ({ ...tx, ...local })));
+      markPending([id]);
+      await queueTransactionUpdate(id, local);
+
+      notifyChange("Transaction updated", {
+        transactions: { before: existing, created: [] },
+      });
+      notifyBudgetAlerts(before);
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error(`Failed to update transaction ${id}:`, error);
+      patchTransactions(existing);
+      notifyError("Couldn't save the transaction", error);
+      return false;
+    }
+  },
+
+  deleteTransaction: async (id) => {
+    let removed: Transaction[] = [];
+    try {
+      // Transfer legs are only ever removed together
+      const tx = get().transactions.find((t) => t.id === id);
+      const legs = tx && findTransferLegs(get().transactions, tx);
+      removed = legs
+        ? [legs.outgoing, legs.incoming, legs.fee].flatMap((leg) =>
+            leg ? [leg] : []
+          )
+        : get().transactions.filter((t) => t.id === id);
+
+      patchTransactions(
+        [],
+        removed.map((leg) => leg.id)
+      );
+      await queueBatch(async () => {
+        for (const leg of removed) await queueTransactionDelete(leg.id);
+      });
+
+      notifyChange(legs ? "Transfer deleted" : "Transaction deleted", {
+        transactions: { before: removed, created: [] },
+      });
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error(`Failed to delete transaction ${id}:`, error);
+      patchTransactions(removed);
+      notifyError("Couldn't delete the transaction", error);
+      return false;
+    }
+  },
+
+  // Transfers (outgoing leg, incoming leg and optional fee, written together)
+  importTransactions: async (rows) => {
+    const user = get().user;
+    if (!user) return false;
+
     set({ isLoading: true });
     try {
-      const { error } = await supabase.from("transactions").insert({
-        ...transactionData,
+      const before = get().budgetProgress;
+      const now = Date.now();
+      const created: Transaction[] = [];
+      // One local transaction so a failed row leaves nothing half-imported
+      await queueBatch(async () => {
+        for (const { timestamp, ...fields } of rows) {
+          const tx: Transaction = {
+            ...fields,
+            id: await nextLocalTransactionId(),
+            client_id: crypto.randomUUID(),
+            user_id: user.id,
+            timestamp: timestamp ? new Date(timestamp).getTime() : now,
+            created_at: now,
+            updated_at: now,
+          };
+          await queueTransactionInsert(tx);
+          created.push(tx);
+        }
+      });
+
+      await reloadTransactions(created.map((tx) => tx.id));
+      notifyChange(
+        `Imported ${rows.length} transaction${rows.length !== 1 ? "s" : ""}`,
+        {
+          transactions: {
+            before: [],
+            created: created.map((tx) => tx.client_id),
+          },
+        }
+      );
+      notifyBudgetAlerts(before);
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error("Failed to import transactions:", error);
+      notifyError("Couldn't import the transactions", error);
+      return false;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  addTransfer: async ({
+    fromAccountId,
+    toAccountId,
+    amount,
+    receivedAmount,
+    fee,
+    notes,
+    timestamp,
+  }) => {
+    const user = get().user;
+    if (!user) return false;
+
+    try {
+      const before = get().budgetProgress;
+      const now = Date.now();
+      const leg = {
         user_id: user.id,
-        timestamp: transactionData.timestamp || new Date().toISOString(),
+        weightChange: 0,
+        notes,
+        timestamp: timestamp ? new Date(timestamp).getTime() : now,
+        created_at: now,
+        updated_at: now,
+      };
+
+      const created: Transaction[] = [];
+      await queueBatch(async () => {
+        const outgoingId = await nextLocalTransactionId();
+        const incomingId = await nextLocalTransactionId();
+        created.push(
+          {
+            ...leg,
+            id: outgoingId,
+            client_id: crypto.randomUUID(),
+            type: "Transfer",
+            amount: -Math.abs(amount),
+            account_id: fromAccountId,
+            related_transaction_id: incomingId,
+          },
+          {
+            ...leg,
+            id: incomingId,
+            client_id: crypto.randomUUID(),
+            type: "Transfer",
+            amount: Math.abs(receivedAmount ?? amount),
+            account_id: toAccountId,
+            related_transaction_id: outgoingId,
+          }
+        );
+        if (fee > 0) {
+          created.push({
+            ...leg,
+            id: await nextLocalTransactionId(),
+            client_id: crypto.randomUUID(),
+            type: "Expense",
+            amount: -Math.abs(fee),
+            account_id: fromAccountId,
+            category: "Fees",
+            related_transaction_id: outgoingId,
+          });
+        }
+        for (const tx of created) await queueTransactionInsert(tx);
       });
 
-      if (error) throw error;
+      await reloadTransactions(created.map((tx) => tx.id));
+      notifyChange("Transfer added", {
+        transactions: {
+          before: [],
+          created: created.map((tx) => tx.client_id),
+        },
+      });
+      notifyBudgetAlerts(before);
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error("Failed to add transfer:", error);
+      notifyError("Couldn't add the transfer", error);
+      return false;
+    }
+  },
+
+  updateTransfer: async (outgoingId, transfer) => {
+    const user = get().user;
+    if (!user) return false;
+
+    try {
+      const before = get().budgetProgress;
+      const outgoing = get().transactions.find((t) => t.id === outgoingId);
+      const legs = outgoing && findTransferLegs(get().transactions, outgoing);
+      if (!legs?.incoming) {
+        throw new Error(`Transaction ${outgoingId} is not a transfer`);
+      }
+      const { incoming, fee } = legs;
+      const existing = [legs.outgoing, incoming, ...(fee ? [fee] : [])];
+      const created: Transaction[] = [];
+      const shared = toLocalChanges({
+        notes: transfer.notes,
+        timestamp: transfer.timestamp,
+      });
+
+      await queueBatch(async () => {
+        await queueTransactionUpdate(outgoingId, {
+          ...shared,
+          account_id: transfer.fromAccountId,
+          amount: -Math.abs(transfer.amount),
+        });
+        await queueTransactionUpdate(incoming.id, {
+          ...shared,
+          account_id: transfer.toAccountId,
+          amount: Math.abs(transfer.receivedAmount ?? transfer.amount),
+        });
+
+        if (transfer.fee > 0 && fee) {
+          await queueTransactionUpdate(fee.id, {
+            ...shared,
+            account_id: transfer.fromAccountId,
+            amount: -Math.abs(transfer.fee),
+          });
+        } else if (transfer.fee > 0) {
+          const now = Date.now();
+          const feeLeg: Transaction = {
+            id: await nextLocalTransactionId(),
+            user_id: user.id,
+            type: "Expense",
+            amount: -Math.abs(transfer.fee),
+            weightChange: 0,
+            account_id: transfer.fromAccountId,
+            category: "Fees",
+            notes: transfer.notes,
+            timestamp: legs.outgoing.timestamp,
+            created_at: now,
+            updated_at: now,
+            related_transaction_id: outgoingId,
+            ...shared,
+            client_id: crypto.randomUUID(),
+          };
+          created.push(feeLeg);
+          await queueTransactionInsert(feeLeg);
+        } else if (fee) {
+          await queueTransactionDelete(fee.id);
+        }
+      });
 
-      await Promise.all([get().fetchAccounts(), get().fetchTransactions()]);
+      await reloadTransactions([...existing, ...created].map((leg) => leg.id));
+      notifyChange("Transfer updated", {
+        transactions: {
+          before: existing,
+          created: created.map((leg) => leg.client_id),
+        },
+      });
+      notifyBudgetAlerts(before);
+      void get().syncOutbox();
       return true;
     } catch (error) {
-      console.error("Failed to add transaction:", error);
+      console.error(`Failed to update transfer ${outgoingId}:`, error);
+      notifyError("Couldn't save the transfer", error);
+      return false;
+    }
+  },
+
+  // Account Mutations
+  addAccount: async (account) => {
+    const user = get().user;
+    if (!user) return false;
+
+    set({ isLoading: true });
+    try {
+      const now = Date.now();
+      const id = crypto.randomUUID();
+      await queueAccountInsert({
+        ...account,
+        id,
+        user_id: user.id,
+        created_at: now,
+        updated_at: now,
+      });
+
+      await get().loadLocalData();
+      notifyChange("Account added", {
+        accounts: { before: [], created: [id] },
+      });
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error("Failed to add account:", error);
+      notifyError("Couldn't add the account", error);
       return false;
     } finally {
       set({ isLoading: false });
     }
   },
 
-  updateTransaction: async (id, changes) => {
+  updateAccount: async (id, changes) => {
     set({ isLoading: true });
     try {
-      const { error } = await supabase
-        .from("transactions")
-        .update(changes)
-        .eq("id", id);
+      const existing = get().accounts.filter((acc) => acc.id === id);
+      await queueAccountUpdate(id, changes);
 
-      if (error) throw error;
+      await get().loadLocalData();
+      notifyChange(
+        changes.archived === undefined
+          ? "Account updated"
+          : changes.archived
+          ? "Account archived"
+          : "Account restored",
+        { accounts: { before: existing, created: [] } }
+      );
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error(`Failed to update account ${id}:`, error);
+      notifyError("Couldn't save the account", error);
+      return false;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  deleteAccount: async (id, reassignToId) => {
+    set({ isLoading: true });
+    try {
+      // Moved transactions go back to this account on undo
+      const snapshot: UndoSnapshot = {
+        accounts: {
+          before: get().accounts.filter((acc) => acc.id === id),
+          created: [],
+        },
+        transactions: {
+          before: get().transactions.filter((tx) => tx.account_id === id),
+          created: [],
+        },
+      };
+      await queueAccountDelete(id, reassignToId);
 
-      await Promise.all([get().fetchAccounts(), get().fetchTransactions()]);
+      await get().loadLocalData();
+      notifyChange("Account deleted", snapshot);
+      void get().syncOutbox();
       return true;
     } catch (error) {
-      console.error(`Failed to update transaction ${id}:`, error);
+      console.error(`Failed to delete account ${id}:`, error);
+      notifyError("Couldn't delete the account", error);
       return false;
     } finally {
       set({ isLoading: false });
     }
   },
 
-  deleteTransaction: async (id) => {
+  addProduct: async (product) => {
+    const user = get().user;
+    if (!user) return false;
+
     set({ isLoading: true });
     try {
-      const { error } = await supabase
-        .from("transactions")
-        .delete()
-        .eq("id", id);
+      const now = Date.now();
+      const id = crypto.randomUUID();
+      await queueProductInsert({
+        ...product,
+        id,
+        user_id: user.id,
+        created_at: now,
+        updated_at: now,
+      });
 
-      if (error) throw error;
+      await get().loadLocalData();
+      notifyChange("Product added", {
+        products: { before: [], created: [id] },
+      });
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error("Failed to add product:", error);
+      notifyError("Couldn't add the product", error);
+      return false;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  updateProduct: async (id, changes) => {
+    set({ isLoading: true });
+    try {
+      const existing = get().products.filter((product) => product.id === id);
+      await queueProductUpdate(id, changes);
 
-      await Promise.all([get().fetchAccounts(), get().fetchTransactions()]);
+      await get().loadLocalData();
+      notifyChange(
+        changes.archived === undefined
+          ? "Product updated"
+          : changes.archived
+          ? "Product archived"
+          : "Product restored",
+        { products: { before: existing, created: [] } }
+      );
+      void get().syncOutbox();
       return true;
     } catch (error) {
-      console.error(`Failed to delete transaction ${id}:`, error);
+      console.error(`Failed to update product ${id}:`, error);
+      notifyError("Couldn't save the product", error);
+      return false;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  // Category Mutations
+  addCategory: async (category) => {
+    const user = get().user;
+    if (!user) return false;
+
+    set({ isLoading: true });
+    try {
+      const now = Date.now();
+      const id = crypto.randomUUID();
+      await queueCategoryInsert({
+        ...category,
+        id,
+        user_id: user.id,
+        created_at: now,
+        updated_at: now,
+      });
+
+      await get().loadLocalData();
+      notifyChange("Category added", {
+        categories: { before: [], created: [id] },
+      });
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error("Failed to add category:", error);
+      notifyError("Couldn't add the category", error);
+      return false;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  // Transactions and their split lines store the category name, so a rename
+  // rewrites them too
+  updateCategory: async (id, changes) => {
+    set({ isLoading: true });
+    try {
+      const existing = get().categories.find((cat) => cat.id === id);
+      if (!existing) throw new Error(`Category ${id} not found`);
+      const name = changes.name ?? existing.name;
+      const snapshot: UndoSnapshot = {
+        categories: { before: [existing], created: [] },
+        recategorized:
+          name === existing.name
+            ? []
+            : [{ category_id: id, from: existing.name, to: name }],
+      };
+
+      await queueBatch(async () => {
+        await queueCategoryUpdate(id, changes);
+        if (name !== existing.name) {
+          await queueRecategorize(id, existing.name, name);
+        }
+      });
+
+      await get().loadLocalData();
+      notifyChange(
+        changes.archived === undefined
+          ? "Category updated"
+          : changes.archived
+          ? "Category archived"
+          : "Category restored",
+        snapshot
+      );
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error(`Failed to update category ${id}:`, error);
+      notifyError("Couldn't save the category", error);
+      return false;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  // Moves every transaction, child category and budget of sourceId onto
+  // targetId, then archives sourceId
+  mergeCategory: async (sourceId, targetId) => {
+    set({ isLoading: true });
+    try {
+      const { categories, budgets, transactions } = get();
+      const source = categories.find((cat) => cat.id === sourceId);
+      const target = categories.find((cat) => cat.id === targetId);
+      if (!source || !target || source.id === target.id) {
+        throw new Error(`Cannot merge category ${sourceId} into ${targetId}`);
+      }
+
+      // Nesting stays one level deep: the children go next to the target
+      // when it is nested itself, which it may be under the source
+      const targetParent =
+        target.parent_id === source.id ? source.parent_id : target.parent_id;
+      const snapshot: UndoSnapshot = {
+        categories: {
+          before: categories.filter(
+            (cat) => cat.id === source.id || cat.parent_id === source.id
+          ),
+          created: [],
+        },
+        budgets: {
+          before: budgets.filter((budget) => budget.category_id === source.id),
+          created: [],
+        },
+        // Merged rows can't be told apart from the target's own afterwards,
+        // so undo moves back only the ones loaded here
+        transactions: {
+          before: transactions.filter((tx) =>
+            recategorize(tx, source.name, target.name)
+          ),
+          created: [],
+        },
+      };
+
+      await queueBatch(async () => {
+        await queueRecategorize(source.id, source.name, target.name);
+        for (const child of categories) {
+          if (child.parent_id !== source.id) continue;
+          await queueCategoryUpdate(child.id, {
+            parent_id:
+              child.id === target.id ? targetParent : targetParent ?? target.id,
+          });
+        }
+        for (const budget of budgets) {
+          if (budget.category_id === source.id) {
+            await queueBudgetUpdate(budget.id, { category_id: target.id });
+          }
+        }
+        await queueCategoryUpdate(source.id, { archived: true });
+      });
+
+      await get().loadLocalData();
+      notifyChange(`Merged ${source.name} into ${target.name}`, snapshot);
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error(
+        `Failed to merge category ${sourceId} into ${targetId}:`,
+        error
+      );
+      notifyError("Couldn't merge the categories", error);
+      return false;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  // Budget Mutations
+  addBudget: async (budget) => {
+    const user = get().user;
+    if (!user) return false;
+
+    set({ isLoading: true });
+    try {
+      const now = Date.now();
+      const id = crypto.randomUUID();
+      await queueBudgetInsert({
+        ...budget,
+        id,
+        user_id: user.id,
+        created_at: now,
+        updated_at: now,
+      });
+
+      await get().loadLocalData();
+      notifyChange("Budget added", {
+        budgets: { before: [], created: [id] },
+      });
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error("Failed to add budget:", error);
+      notifyError("Couldn't add the budget", error);
+      return false;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  updateBudget: async (id, changes) => {
+    set({ isLoading: true });
+    try {
+      const existing = get().budgets.filter((budget) => budget.id === id);
+      await queueBudgetUpdate(id, changes);
+
+      await get().loadLocalData();
+      notifyChange("Budget updated", {
+        budgets: { before: existing, created: [] },
+      });
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error(`Failed to update budget ${id}:`, error);
+      notifyError("Couldn't save the budget", error);
+      return false;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  deleteBudget: async (id) => {
+    set({ isLoading: true });
+    try {
+      const existing = get().budgets.filter((budget) => budget.id === id);
+      await queueBudgetDelete(id);
+
+      await get().loadLocalData();
+      notifyChange("Budget deleted", {
+        budgets: { before: existing, created: [] },
+      });
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error(`Failed to delete budget ${id}:`, error);
+      notifyError("Couldn't delete the budget", error);
+      return false;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  // Recurring Schedules
+  addSchedule: async (schedule) => {
+    const user = get().user;
+    if (!user) return false;
+
+    set({ isLoading: true });
+    try {
+      const now = Date.now();
+      const id = crypto.randomUUID();
+      await queueScheduleInsert({
+        ...schedule,
+        id,
+        user_id: user.id,
+        next_due: schedule.start_date,
+        created_at: now,
+        updated_at: now,
+      });
+
+      await get().loadLocalData();
+      notifyChange("Recurring transaction added", {
+        schedules: { before: [], created: [id] },
+      });
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error("Failed to add schedule:", error);
+      notifyError("Couldn't add the schedule", error);
+      return false;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  // A new rule or start date never brings back occurrences that were
+  // already recorded or skipped
+  updateSchedule: async (id, changes) => {
+    set({ isLoading: true });
+    try {
+      const existing = get().schedules.find((s) => s.id === id);
+      if (!existing) throw new Error(`Schedule ${id} not found`);
+      const next_due = nextOccurrenceAfter(
+        { ...existing, ...changes },
+        existing.next_due - 1
+      );
+
+      await queueScheduleUpdate(id, { ...changes, next_due });
+
+      await get().loadLocalData();
+      notifyChange("Recurring transaction updated", {
+        schedules: { before: [existing], created: [] },
+      });
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error(`Failed to update schedule ${id}:`, error);
+      notifyError("Couldn't save the schedule", error);
+      return false;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  deleteSchedule: async (id) => {
+    set({ isLoading: true });
+    try {
+      const existing = get().schedules.filter((s) => s.id === id);
+      await queueScheduleDelete(id);
+
+      await get().loadLocalData();
+      notifyChange("Recurring transaction deleted", {
+        schedules: { before: existing, created: [] },
+      });
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error(`Failed to delete schedule ${id}:`, error);
+      notifyError("Couldn't delete the schedule", error);
+      return false;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  // Records the schedule's earliest due occurrence, optionally at a
+  // different amount than the template
+  recordOccurrence: async (id, amount) => {
+    const user = get().user;
+    if (!user) return false;
+
+    set({ isLoading: true });
+    try {
+      const before = get().budgetProgress;
+      const schedule = get().schedules.find((s) => s.id === id);
+      if (!schedule || dueOccurrences(schedule).length === 0) {
+        throw new Error(`Schedule ${id} has nothing due`);
+      }
+      const now = Date.now();
+      const clientId = crypto.randomUUID();
+
+      await queueBatch(async () => {
+        await queueTransactionInsert({
+          ...occurrenceTransaction(schedule, schedule.next_due, amount),
+          id: await nextLocalTransactionId(),
+          client_id: clientId,
+          user_id: user.id,
+          created_at: now,
+          updated_at: now,
+        });
+        await queueScheduleUpdate(id, {
+          next_due: nextOccurrenceAfter(schedule, schedule.next_due),
+        });
+      });
+
+      await get().loadLocalData();
+      notifyChange(`Recorded ${schedule.name}`, {
+        schedules: { before: [schedule], created: [] },
+        transactions: { before: [], created: [clientId] },
+      });
+      notifyBudgetAlerts(before);
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error(`Failed to record occurrence of schedule ${id}:`, error);
+      notifyError("Couldn't record the transaction", error);
+      return false;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  skipOccurrence: async (id) => {
+    set({ isLoading: true });
+    try {
+      const schedule = get().schedules.find((s) => s.id === id);
+      if (!schedule) throw new Error(`Schedule ${id} not found`);
+
+      await queueScheduleUpdate(id, {
+        next_due: nextOccurrenceAfter(schedule, schedule.next_due),
+      });
+
+      await get().loadLocalData();
+      notifyChange(`Skipped ${schedule.name}`, {
+        schedules: { before: [schedule], created: [] },
+      });
+      void get().syncOutbox();
+      return true;
+    } catch (error) {
+      console.error(`Failed to skip occurrence of schedule ${id}:`, error);
+      notifyError("Couldn't skip the occurrence", error);
+      return false;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  // Records every due occurrence of auto-posting schedules when the app
+  // opens; the others wait in the confirm-or-skip queue
+  materializeSchedules: async () => {
+    const user = get().user;
+    if (!user || isMaterializing) return;
+
+    const due = get()
+      .schedules.filter((schedule) => schedule.auto_post)
+      .map((schedule) => ({
+        schedule,
+        occurrences: dueOccurrences(schedule),
+      }))
+      .filter(({ occurrences }) => occurrences.length > 0);
+    if (due.length === 0) return;
+
+    isMaterializing = true;
+    try {
+      const before = get().budgetProgress;
+      const now = Date.now();
+      const created: string[] = [];
+      await queueBatch(async () => {
+        for (const { schedule, occurrences } of due) {
+          for (const timestamp of occurrences) {
+            const clientId = crypto.randomUUID();
+            created.push(clientId);
+            await queueTransactionInsert({
+              ...occurrenceTransaction(schedule, timestamp),
+              id: await nextLocalTransactionId(),
+              client_id: clientId,
+              user_id: user.id,
+              created_at: now,
+              updated_at: now,
+            });
+          }
+          await queueScheduleUpdate(schedule.id, {
+            next_due: nextOccurrenceAfter(
+              schedule,
+              occurrences[occurrences.length - 1]
+            ),
+          });
+        }
+      });
+
+      await get().loadLocalData();
+      notifyBudgetAlerts(before);
+      void get().syncOutbox();
+
+      const count = due.reduce(
+        (sum, { occurrences }) => sum + occurrences.length,
+        0
+      );
+      notifyChange(
+        `Recorded ${count} recurring transaction${count !== 1 ? "s" : ""}`,
+        {
+          schedules: {
+            before: due.map(({ schedule }) => schedule),
+            created: [],
+          },
+          transactions: { before: [], created },
+        }
+      );
+    } catch (error) {
+      console.error("Failed to record recurring transactions:", error);
+      notifyError("Couldn't record recurring transactions", error);
+    } finally {
+      isMaterializing = false;
+    }
+  },
+
+  // Reverses an earlier mutation from the snapshot its toast carried
+  undo: async (snapshot) => {
+    set({ isLoading: true });
+    try {
+      await restoreSnapshot(snapshot);
+
+      await get().loadLocalData();
+      void get().syncOutbox();
+      toast({ title: "Change undone" });
+      return true;
+    } catch (error) {
+      console.error("Failed to undo change:", error);
+      notifyError("Couldn't undo the change", error);
       return false;
     } finally {
       set({ isLoading: false });
@@ -237,31 +1750,158 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   // Summary Calculations
   recalculateSummaries: () => {
-    const { accounts, transactions } = get();
+    const {
+      accounts,
+      products,
+      categories,
+      budgets,
+      transactions,
+      historyCursor,
+      historyTotals,
+      historyExpenses,
+      historyCosting,
+      serverSummaries,
+    } = get();
+    const { baseCurrency, exchangeRates, costingMethod } =
+      useSettingsStore.getState();
 
-    // Calculate net cash from accounts
-    const overallNetCash = accounts.reduce(
-      (sum, acc) => sum + acc.current_balance,
-      0
+    // Headline figures come from Postgres when its aggregates are current;
+    // otherwise they are reduced from the local copy below
+    const serverOverview =
+      serverSummaries &&
+      summarizeServerTotals(
+        serverSummaries,
+        accounts,
+        categories,
+        exchangeRates,
+        baseCurrency
+      );
+
+    // Overall weight figures leave out products counted in pieces
+    const counted = countedProductIds(products);
+
+    // The history older than the local copy comes in as totals
+    const carried = carryTotals(
+      historyTotals,
+      historyExpenses,
+      accounts,
+      counted,
+      exchangeRates,
+      baseCurrency
+    );
+
+    // Calculate balances from opening balances plus the ledger, each in its
+    // account's currency
+    const { accountBalances, runningBalances } = computeLedgerBalances(
+      accounts,
+      transactions,
+      carried.balances
     );
 
-    // Calculate weight on hand
-    const weightOnHand = transactions.reduce(
-      (sum, tx) => sum + tx.weightChange,
-      0
+    // Everything past the ledger is reported in the base currency
+    const { baseAmounts, baseBalances, missingRates } = convertToBase(
+      accounts,
+      transactions,
+      accountBalances,
+      exchangeRates,
+      baseCurrency
     );
+    const reporting = inBaseCurrency(transactions, baseAmounts);
+
+    // Rows per account, counting the ones the device hasn't loaded
+    const transactionCounts = serverSummaries
+      ? { ...serverSummaries.transactionCounts }
+      : { ...carried.counts };
+    if (!serverSummaries) {
+      transactions.forEach(
+        (tx) =>
+          (transactionCounts[tx.account_id] =
+            (transactionCounts[tx.account_id] ?? 0) + 1)
+      );
+    }
+
+    let overallNetCash: number;
+    let weightOnHand: number;
+    let dollarPerGramRatio: number | null;
+    if (serverOverview) {
+      ({ overallNetCash, weightOnHand, dollarPerGramRatio } = serverOverview);
+    } else {
+      overallNetCash = accounts.reduce(
+        (sum, acc) => sum + baseBalances[acc.id],
+        0
+      );
+
+      // Calculate weight on hand
+      const byWeight = massTransactions(reporting, counted);
+      weightOnHand = byWeight.reduce(
+        (sum, tx) => sum + tx.weightChange,
+        carried.weightOnHand
+      );
+
+      // Calculate dollar per gram ratio (only from sales)
+      const sales = byWeight.filter((tx) => tx.type === "Sale");
+      const totalSalesAmount = sales.reduce(
+        (sum, tx) => sum + tx.amount,
+        carried.salesAmount
+      );
+      const totalSalesWeight = sales.reduce(
+        (sum, tx) => sum + Math.abs(tx.weightChange),
+        carried.salesWeight
+      );
+      dollarPerGramRatio =
+        totalSalesWeight > 0 ? totalSalesAmount / totalSalesWeight : null;
+    }
 
-    // Calculate dollar per gram ratio (only from sales)
-    const sales = transactions.filter((tx) => tx.type === "Sale");
-    const totalSalesAmount = sales.reduce((sum, tx) => sum + tx.amount, 0);
-    const totalSalesWeight = sales.reduce(
-      (sum, tx) => sum + Math.abs(tx.weightChange),
-      0
+    // Break inventory and pricing down by product
+    const productSummaries = summarizeProducts(reporting, carried.products);
+
+    // Calculate cost of goods sold and profit from purchase lots, carrying
+    // on from the server's replay of older history when it matches
+    const costingBefore =
+      historyCursor &&
+      historyCosting?.key ===
+        costingKey(historyCursor, {
+          method: costingMethod,
+          baseCurrency,
+          rates: exchangeRates,
+        })
+        ? historyCosting
+        : null;
+    const { saleCosts, grossProfit, grossMargin, averageCostPerGram } =
+      computeCosting(reporting, costingMethod, counted, costingBefore?.state);
+
+    // Track this period's Expense spending against each budget
+    const budgetProgress = computeBudgetProgress(
+      budgets,
+      categories,
+      reporting,
+      carried.expenses
     );
-    const dollarPerGramRatio =
-      totalSalesWeight > 0 ? totalSalesAmount / totalSalesWeight : null;
 
-    set({ overallNetCash, weightOnHand, dollarPerGramRatio });
+    set({
+      accountBalances,
+      transactionCounts,
+      runningBalances,
+      baseAmounts,
+      overallNetCash,
+      missingRates: [
+        ...new Set([
+          ...missingRates,
+          ...carried.missingRates,
+          ...(costingBefore?.missingRates ?? []),
+          ...(serverOverview?.missingRates ?? []),
+        ]),
+      ].sort(),
+      weightOnHand,
+      dollarPerGramRatio,
+      saleCosts,
+      grossProfit,
+      grossMargin,
+      averageCostPerGram,
+      productSummaries,
+      budgetProgress,
+      serverOverview,
+    });
   },
 }));
 
@@ -272,12 +1912,63 @@ supabase.auth.onAuthStateChange((event, session) => {
 
   if (event === "SIGNED_IN" || event === "SIGNED_OUT") {
     if (event === "SIGNED_IN") {
-      Promise.all([store.fetchAccounts(), store.fetchTransactions()]);
+      store
+        .syncOutbox()
+        .then(() =>
+          Promise.all([
+            store.fetchAccounts(),
+            store.fetchProducts(),
+            store.fetchCategories(),
+            store.fetchBudgets(),
+            store.fetchSchedules(),
+            store.fetchTransactions(),
+          ])
+        )
+        .then(() => {
+          store.startRealtime();
+          return store.materializeSchedules();
+        });
     } else {
+      store.stopRealtime();
       store.recalculateSummaries();
     }
   }
 });
 
+// Replay queued writes whenever connectivity returns
+window.addEventListener("online", () => {
+  const store = useAppStore.getState();
+  store.setOnline(true);
+  store
+    .syncOutbox()
+    .then(() =>
+      Promise.all([
+        store.fetchAccounts(),
+        store.fetchProducts(),
+        store.fetchCategories(),
+        store.fetchBudgets(),
+        store.fetchSchedules(),
+        store.fetchTransactions(),
+      ])
+    );
+});
+
+window.addEventListener("offline", () => {
+  useAppStore.getState().setOnline(false);
+});
+
+// Profit figures depend on the chosen costing method, and every total on
+// the base currency and its rates
+useSettingsStore.subscribe((settings, previous) => {
+  if (
+    settings.costingMethod !== previous.costingMethod ||
+    settings.baseCurrency !== previous.baseCurrency ||
+    settings.exchangeRates !== previous.exchangeRates
+  ) {
+    useAppStore.getState().recalculateSummaries();
+    void useAppStore.getState().fetchHistoryCosting();
+  }
+});
+
 // Initial session check
 useAppStore.getState().checkSession();
@@ -0,0 +1,204 @@
+// src/summaries.ts
+import {
+  Account,
+  Category,
+  HistoryExpenseTotal,
+  HistoryTotal,
+  Purpose,
+  TransactionType,
+} from "./db";
+import {
+  currencyOf,
+  DEFAULT_CURRENCY,
+  ExchangeRate,
+  rateLookup,
+} from "./currency";
+import { countPurposeLine, PurposeTotals } from "./purpose";
+import { NO_PRODUCT, ProductSummary } from "./inventory";
+
+// Aggregates served by Postgres (supabase/migrations). Amounts are in the
+// account's currency; days are local midnight timestamps.
+export interface DailyTotal {
+  day: number;
+  account_id: string;
+  type: TransactionType;
+  amount: number;
+  inflow: number;
+  outflow: number; // Positive
+  weightChange: number;
+  massAmount: number; // Leaving out products counted in pieces
+  massWeightChange: number;
+  massWeightMoved: number; // Sum of magnitudes
+  count: number;
+}
+
+export interface DailyCategoryTotal {
+  day: number;
+  account_id: string;
+  type: TransactionType;
+  category?: string;
+  purpose?: Purpose;
+  business_percent?: number;
+  amount: number;
+}
+
+export interface ServerSummaries {
+  balances: Record<string, number>; // account id -> balance, in its currency
+  transactionCounts: Record<string, number>; // account id -> rows posted to it
+  totals: DailyTotal[];
+  categoryTotals: DailyCategoryTotal[];
+}
+
+export interface AccountFlow {
+  income: number;
+  expenses: number; // Positive
+}
+
+// The figures the dashboard shows, in the base currency
+export interface ServerOverview {
+  overallNetCash: number;
+  missingRates: string[];
+  weightOnHand: number;
+  dollarPerGramRatio: number | null;
+  accountFlows: Record<string, AccountFlow>; // Transfers left out
+  purposeTotals: PurposeTotals;
+}
+
+// Days convert at their own rate and balances at today's, as convertToBase
+// does for single rows, so both routes arrive at the same numbers
+export const summarizeServerTotals = (
+  summaries: ServerSummaries,
+  accounts: Account[],
+  categories: Category[],
+  rates: ExchangeRate[],
+  baseCurrency: string,
+  now: number = Date.now()
+): ServerOverview => {
+  const currencies = new Map(accounts.map((acc) => [acc.id, currencyOf(acc)]));
+  const missing = new Set<string>();
+  const rateOn = rateLookup(rates, baseCurrency);
+  const convert = (amount: number, accountId: string, timestamp: number) => {
+    const currency = currencies.get(accountId) ?? DEFAULT_CURRENCY;
+    const rate = rateOn(currency, timestamp);
+    if (rate === null) missing.add(currency);
+    return amount * (rate ?? 1);
+  };
+
+  const overallNetCash = Object.entries(summaries.balances).reduce(
+    (sum, [accountId, balance]) => sum + convert(balance, accountId, now),
+    0
+  );
+
+  let weightOnHand = 0;
+  let salesAmount = 0;
+  let salesWeight = 0;
+  const accountFlows: Record<string, AccountFlow> = {};
+  summaries.totals.forEach((total) => {
+    weightOnHand += total.massWeightChange;
+    if (total.type === "Sale") {
+      salesAmount += convert(total.massAmount, total.account_id, total.day);
+      salesWeight += total.massWeightMoved;
+    }
+    if (total.type === "Transfer") return;
+    const flow = (accountFlows[total.account_id] ??= {
+      income: 0,
+      expenses: 0,
+    });
+    flow.income += convert(total.inflow, total.account_id, total.day);
+    flow.expenses += convert(total.outflow, total.account_id, total.day);
+  });
+
+  const purposeTotals: PurposeTotals = {
+    business: 0,
+    personal: 0,
+    unassigned: 0,
+  };
+  summaries.categoryTotals.forEach((line) => {
+    if (line.type !== "Expense" && line.type !== "Purchase") return;
+    const spent = -convert(line.amount, line.account_id, line.day);
+    countPurposeLine(purposeTotals, line, spent, categories);
+  });
+
+  return {
+    overallNetCash,
+    missingRates: [...missing].sort(),
+    weightOnHand,
+    dollarPerGramRatio: salesWeight > 0 ? salesAmount / salesWeight : null,
+    accountFlows,
+    purposeTotals,
+  };
+};
+
+// What the history the device hasn't loaded adds to the figures reduced
+// from the local copy. Balances stay in each account's currency; sales
+// convert at today's rate, as the days they fell on aren't known, and
+// spending at the rate of its day.
+export interface CarriedTotals {
+  balances: Record<string, number>; // account id -> sum of older amounts
+  counts: Record<string, number>; // account id -> older rows
+  weightOnHand: number; // Leaving out products counted in pieces
+  salesAmount: number;
+  salesWeight: number;
+  products: Record<string, ProductSummary>;
+  expenses: HistoryExpenseTotal[]; // In the base currency
+  missingRates: string[];
+}
+
+export const carryTotals = (
+  totals: HistoryTotal[],
+  expenses: HistoryExpenseTotal[],
+  accounts: Account[],
+  counted: Set<string>,
+  rates: ExchangeRate[],
+  baseCurrency: string,
+  now: number = Date.now()
+): CarriedTotals => {
+  const currencies = new Map(accounts.map((acc) => [acc.id, currencyOf(acc)]));
+  const missing = new Set<string>();
+  const rateOn = rateLookup(rates, baseCurrency);
+  const convert = (amount: number, accountId: string, timestamp = now) => {
+    const currency = currencies.get(accountId) ?? DEFAULT_CURRENCY;
+    const rate = rateOn(currency, timestamp);
+    if (rate === null) missing.add(currency);
+    return amount * (rate ?? 1);
+  };
+
+  const carried: CarriedTotals = {
+    balances: {},
+    counts: {},
+    weightOnHand: 0,
+    salesAmount: 0,
+    salesWeight: 0,
+    products: {},
+    expenses: expenses.map((total) => ({
+      ...total,
+      amount: convert(total.amount, total.account_id, total.day),
+    })),
+    missingRates: [],
+  };
+  totals.forEach((total) => {
+    carried.balances[total.account_id] =
+      (carried.balances[total.account_id] ?? 0) + total.amount;
+    carried.counts[total.account_id] =
+      (carried.counts[total.account_id] ?? 0) + total.count;
+
+    const salesAmount = convert(total.salesAmount, total.account_id);
+    const key = total.product_id ?? NO_PRODUCT;
+    const summary = (carried.products[key] ??= {
+      weightOnHand: 0,
+      salesAmount: 0,
+      salesWeight: 0,
+      dollarPerGramRatio: null,
+    });
+    summary.weightOnHand += total.weightChange;
+    summary.salesAmount += salesAmount;
+    summary.salesWeight += total.salesWeight;
+
+    if (total.product_id && counted.has(total.product_id)) return;
+    carried.weightOnHand += total.weightChange;
+    carried.salesAmount += salesAmount;
+    carried.salesWeight += total.salesWeight;
+  });
+  carried.missingRates = [...missing].sort();
+  return carried;
+};
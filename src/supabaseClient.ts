@@ -12,14 +12,35 @@ if (!supabaseUrl || !supabaseAnonKey) {
 }
 
 // Create and export the Supabase client
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
   auth: {
     persistSession: true,
     autoRefreshToken: true,
   },
 });
 
-// Optional: Add types for your database if you have them
+// Mirrors supabase/migrations; keep the two in step when the schema changes.
+// Columns with defaults are optional on insert.
+export type SplitRow = {
+  category: string | null;
+  purpose: string | null;
+  business_percent: number | null;
+  amount: number;
+};
+
+// costing_before's answer: the lots left per product and running totals
+export type CostingStateRow = {
+  lots: Record<string, { weight: number; unit_cost: number }[]>;
+  last_unit_costs: Record<string, number>;
+  revenue: number;
+  cost_of_goods_sold: number;
+  shrinkage_cost: number;
+  uncosted_weight: number;
+  purchased_weight: number;
+  purchased_cost: number;
+  missing_rates: string[];
+};
+
 export type Database = {
   public: {
     Tables: {
@@ -29,9 +50,259 @@ export type Database = {
           user_id: string;
           name: string;
           type: string;
-          current_balance: number;
+          opening_balance: number;
+          currency: string;
+          archived: boolean;
           created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          name: string;
+          type: string;
+          opening_balance?: number;
+          currency?: string;
+          archived?: boolean;
+          created_at?: string;
+          updated_at?: string;
         };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          type?: string;
+          opening_balance?: number;
+          currency?: string;
+          archived?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      products: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          unit: string;
+          variant: string | null;
+          archived: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          name: string;
+          unit?: string;
+          variant?: string | null;
+          archived?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          unit?: string;
+          variant?: string | null;
+          archived?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      categories: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          icon: string;
+          color: string;
+          parent_id: string | null;
+          archived: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          name: string;
+          icon: string;
+          color: string;
+          parent_id?: string | null;
+          archived?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          icon?: string;
+          color?: string;
+          parent_id?: string | null;
+          archived?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey";
+            columns: ["parent_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      budgets: {
+        Row: {
+          id: string;
+          user_id: string;
+          category_id: string;
+          account_id: string | null;
+          period: string;
+          amount: number;
+          rollover: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          category_id: string;
+          account_id?: string | null;
+          period: string;
+          amount: number;
+          rollover?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          category_id?: string;
+          account_id?: string | null;
+          period?: string;
+          amount?: number;
+          rollover?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "budgets_account_id_fkey";
+            columns: ["account_id"];
+            isOneToOne: false;
+            referencedRelation: "accounts";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "budgets_category_id_fkey";
+            columns: ["category_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      schedules: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          type: string;
+          amount: number;
+          weight_change: number;
+          account_id: string;
+          category: string | null;
+          notes: string | null;
+          product_id: string | null;
+          unit: string | null;
+          purpose: string | null;
+          business_percent: number | null;
+          splits: SplitRow[] | null;
+          frequency: string;
+          interval: number;
+          interval_unit: string;
+          start_date: string;
+          end_date: string | null;
+          next_due: string;
+          amount_variance: number;
+          auto_post: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          name: string;
+          type: string;
+          amount: number;
+          weight_change?: number;
+          account_id: string;
+          category?: string | null;
+          notes?: string | null;
+          product_id?: string | null;
+          unit?: string | null;
+          purpose?: string | null;
+          business_percent?: number | null;
+          splits?: SplitRow[] | null;
+          frequency: string;
+          interval?: number;
+          interval_unit?: string;
+          start_date: string;
+          end_date?: string | null;
+          next_due: string;
+          amount_variance?: number;
+          auto_post?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          type?: string;
+          amount?: number;
+          weight_change?: number;
+          account_id?: string;
+          category?: string | null;
+          notes?: string | null;
+          product_id?: string | null;
+          unit?: string | null;
+          purpose?: string | null;
+          business_percent?: number | null;
+          splits?: SplitRow[] | null;
+          frequency?: string;
+          interval?: number;
+          interval_unit?: string;
+          start_date?: string;
+          end_date?: string | null;
+          next_due?: string;
+          amount_variance?: number;
+          auto_post?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "schedules_account_id_fkey";
+            columns: ["account_id"];
+            isOneToOne: false;
+            referencedRelation: "accounts";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "schedules_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          }
+        ];
       };
       transactions: {
         Row: {
@@ -45,9 +316,193 @@ export type Database = {
           category: string | null;
           timestamp: string;
           created_at: string;
+          updated_at: string;
           related_transaction_id: number | null;
+          adjustment_reason: string | null;
+          product_id: string | null;
+          unit: string | null;
+          purpose: string | null;
+          business_percent: number | null;
+          splits: SplitRow[] | null;
+          client_id: string;
+        };
+        Insert: {
+          id?: number;
+          user_id?: string;
+          account_id: string;
+          type: string;
+          amount: number;
+          weight_change?: number;
+          notes?: string | null;
+          category?: string | null;
+          timestamp?: string;
+          created_at?: string;
+          updated_at?: string;
+          related_transaction_id?: number | null;
+          adjustment_reason?: string | null;
+          product_id?: string | null;
+          unit?: string | null;
+          purpose?: string | null;
+          business_percent?: number | null;
+          splits?: SplitRow[] | null;
+          client_id?: string;
+        };
+        Update: {
+          id?: number;
+          user_id?: string;
+          account_id?: string;
+          type?: string;
+          amount?: number;
+          weight_change?: number;
+          notes?: string | null;
+          category?: string | null;
+          timestamp?: string;
+          created_at?: string;
+          updated_at?: string;
+          related_transaction_id?: number | null;
+          adjustment_reason?: string | null;
+          product_id?: string | null;
+          unit?: string | null;
+          purpose?: string | null;
+          business_percent?: number | null;
+          splits?: SplitRow[] | null;
+          client_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "transactions_account_id_fkey";
+            columns: ["account_id"];
+            isOneToOne: false;
+            referencedRelation: "accounts";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "transactions_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "transactions_related_transaction_id_fkey";
+            columns: ["related_transaction_id"];
+            isOneToOne: false;
+            referencedRelation: "transactions";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      // Written only by a trigger on transactions
+      transaction_audit: {
+        Row: {
+          id: number;
+          user_id: string;
+          transaction_id: number;
+          account_id: string;
+          previous_account_id: string | null;
+          action: string;
+          before: Database["public"]["Tables"]["transactions"]["Row"] | null;
+          after: Database["public"]["Tables"]["transactions"]["Row"] | null;
+          changed_by: string | null;
+          changed_by_email: string | null;
+          changed_at: string;
+        };
+        Insert: { [_ in never]: never };
+        Update: { [_ in never]: never };
+        Relationships: [];
+      };
+    };
+    Views: {
+      account_balances: {
+        Row: {
+          account_id: string;
+          user_id: string;
+          currency: string;
+          balance: number;
+          transaction_count: number;
+        };
+        Relationships: [];
+      };
+    };
+    Functions: {
+      daily_totals: {
+        Args: { p_time_zone?: string; p_from?: string; p_to?: string };
+        Returns: {
+          day: string;
+          account_id: string;
+          type: string;
+          amount: number;
+          inflow: number;
+          outflow: number;
+          weight_change: number;
+          mass_amount: number;
+          mass_weight_change: number;
+          mass_weight_moved: number;
+          transaction_count: number;
+        }[];
+      };
+      daily_category_totals: {
+        Args: { p_time_zone?: string; p_from?: string; p_to?: string };
+        Returns: {
+          day: string;
+          account_id: string;
+          type: string;
+          category: string | null;
+          purpose: string | null;
+          business_percent: number | null;
+          amount: number;
+        }[];
+      };
+      totals_before: {
+        Args: { p_timestamp: string; p_id: number };
+        Returns: {
+          account_id: string;
+          product_id: string | null;
+          amount: number;
+          weight_change: number;
+          sales_amount: number;
+          sales_weight: number;
+          transaction_count: number;
+        }[];
+      };
+      recategorize_transactions: {
+        Args: { p_from: string; p_to: string };
+        Returns: undefined;
+      };
+      expense_totals_before: {
+        Args: { p_timestamp: string; p_id: number; p_time_zone?: string };
+        Returns: {
+          day: string;
+          account_id: string;
+          category: string;
+          amount: number;
+        }[];
+      };
+      costing_before: {
+        Args: {
+          p_timestamp: string;
+          p_id: number;
+          p_method: string;
+          p_base_currency: string;
+          p_rates: { from: string; to: string; date: string; rate: number }[];
+          p_time_zone?: string;
         };
+        Returns: CostingStateRow;
+      };
+      delete_account: {
+        Args: { p_id: string; p_reassign_to?: string };
+        Returns: undefined;
       };
     };
+    Enums: { [_ in never]: never };
+    CompositeTypes: { [_ in never]: never };
   };
 };
+
+// Shapes of one table's rows as read, inserted and updated
+type PublicTables = Database["public"]["Tables"];
+export type TableRow<T extends keyof PublicTables> = PublicTables[T]["Row"];
+export type TableInsert<T extends keyof PublicTables> =
+  PublicTables[T]["Insert"];
+export type TableUpdate<T extends keyof PublicTables> =
+  PublicTables[T]["Update"];
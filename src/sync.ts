@@ -0,0 +1,1866 @@
+// src/sync.ts
+import {
+  db,
+  Account,
+  Budget,
+  BudgetPeriod,
+  Category,
+  Product,
+  Schedule,
+  ScheduleFrequency,
+  ScheduleUnit,
+  Transaction,
+  TransactionType,
+  TransactionSplit,
+  AdjustmentReason,
+  Purpose,
+  OutboxEntry,
+  SyncConflict,
+  HistoryCursor,
+  HistoryTotal,
+  HistoryExpenseTotal,
+  HistoryCosting,
+  CostingState,
+  SyncState,
+} from "./db";
+import {
+  supabase,
+  CostingStateRow,
+  Database,
+  SplitRow,
+  TableInsert,
+} from "./supabaseClient";
+import { CostingMethod } from "./inventory";
+import { ExchangeRate } from "./currency";
+import { Unit } from "./units";
+import { DailyCategoryTotal, DailyTotal, ServerSummaries } from "./summaries";
+import { ACTIVITY_PAGE_SIZE, AuditAction, AuditEntry } from "./audit";
+import { precedesCursor } from "./history";
+import { recategorize } from "./splits";
+
+// Helper types
+type Tables = Database["public"]["Tables"];
+export type AccountRow = Tables["accounts"]["Row"];
+export type ProductRow = Tables["products"]["Row"];
+export type CategoryRow = Tables["categories"]["Row"];
+export type BudgetRow = Tables["budgets"]["Row"];
+export type ScheduleRow = Tables["schedules"]["Row"];
+export type TransactionRow = Tables["transactions"]["Row"];
+type Functions = Database["public"]["Functions"];
+type AccountBalanceRow = Database["public"]["Views"]["account_balances"]["Row"];
+type DailyTotalRow = Functions["daily_totals"]["Returns"][number];
+type DailyCategoryTotalRow =
+  Functions["daily_category_totals"]["Returns"][number];
+type AuditRow = Tables["transaction_audit"]["Row"];
+
+// Mapper functions (Supabase row -> local record)
+export const mapAccount = (account: AccountRow): Account => ({
+  ...account,
+  created_at: new Date(account.created_at).getTime(),
+  updated_at: new Date(account.updated_at).getTime(),
+});
+
+export const mapProduct = (product: ProductRow): Product => ({
+  ...product,
+  unit: product.unit as Unit,
+  variant: product.variant || undefined,
+  created_at: new Date(product.created_at).getTime(),
+  updated_at: new Date(product.updated_at).getTime(),
+});
+
+export const mapCategory = (category: CategoryRow): Category => ({
+  ...category,
+  parent_id: category.parent_id || undefined,
+  created_at: new Date(category.created_at).getTime(),
+  updated_at: new Date(category.updated_at).getTime(),
+});
+
+export const mapBudget = (budget: BudgetRow): Budget => ({
+  ...budget,
+  account_id: budget.account_id || undefined,
+  period: budget.period as BudgetPeriod,
+  created_at: new Date(budget.created_at).getTime(),
+  updated_at: new Date(budget.updated_at).getTime(),
+});
+
+const mapSplits = (splits: SplitRow[] | null) =>
+  splits?.map(
+    (line): TransactionSplit => ({
+      category: line.category || undefined,
+      purpose: (line.purpose as Purpose) || undefined,
+      business_percent: line.business_percent ?? undefined,
+      amount: line.amount,
+    })
+  );
+
+export const mapSchedule = (schedule: ScheduleRow): Schedule => ({
+  id: schedule.id,
+  user_id: schedule.user_id,
+  name: schedule.name,
+  template: {
+    type: schedule.type as TransactionType,
+    amount: schedule.amount,
+    weightChange: schedule.weight_change,
+    account_id: schedule.account_id,
+    category: schedule.category || undefined,
+    notes: schedule.notes || undefined,
+    product_id: schedule.product_id || undefined,
+    unit: (schedule.unit as Unit) || undefined,
+    purpose: (schedule.purpose as Purpose) || undefined,
+    business_percent: schedule.business_percent ?? undefined,
+    splits: mapSplits(schedule.splits),
+  },
+  frequency: schedule.frequency as ScheduleFrequency,
+  interval: schedule.interval,
+  interval_unit: schedule.interval_unit as ScheduleUnit,
+  start_date: new Date(schedule.start_date).getTime(),
+  end_date: schedule.end_date
+    ? new Date(schedule.end_date).getTime()
+    : undefined,
+  next_due: new Date(schedule.next_due).getTime(),
+  amount_variance: schedule.amount_variance,
+  auto_post: schedule.auto_post,
+  created_at: new Date(schedule.created_at).getTime(),
+  updated_at: new Date(schedule.updated_at).getTime(),
+});
+
+export const mapTransaction = (transaction: TransactionRow): Transaction => ({
+  id: transaction.id,
+  client_id: transaction.client_id,
+  timestamp: new Date(transaction.timestamp).getTime(),
+  type: transaction.type as TransactionType,
+  amount: transaction.amount,
+  weightChange: transaction.weight_change,
+  notes: transaction.notes || undefined,
+  account_id: transaction.account_id,
+  category: transaction.category || undefined,
+  user_id: transaction.user_id,
+  created_at: new Date(transaction.created_at).getTime(),
+  updated_at: new Date(transaction.updated_at).getTime(),
+  related_transaction_id: transaction.related_transaction_id || undefined,
+  adjustment_reason:
+    (transaction.adjustment_reason as AdjustmentReason) || undefined,
+  product_id: transaction.product_id || undefined,
+  unit: (transaction.unit as Unit) || undefined,
+  purpose: (transaction.purpose as Purpose) || undefined,
+  business_percent: transaction.business_percent ?? undefined,
+  splits: mapSplits(transaction.splits),
+});
+
+// Mapper functions (local record -> Supabase columns, only the fields given).
+// updated_at is never sent: the database stamps it on every write.
+const toIso = (value: number): string => new Date(value).toISOString();
+
+const toSplitRows = (splits: TransactionSplit[] | undefined) =>
+  splits?.map(
+    (line): SplitRow => ({
+      category: line.category ?? null,
+      purpose: line.purpose ?? null,
+      business_percent: line.business_percent ?? null,
+      amount: line.amount,
+    })
+  ) ?? null;
+
+export const toAccountRow = (
+  account: Partial<Account>
+): Partial<AccountRow> => {
+  const row: Partial<AccountRow> = {};
+  if (account.id !== undefined) row.id = account.id;
+  if (account.user_id !== undefined) row.user_id = account.user_id;
+  if (account.name !== undefined) row.name = account.name;
+  if (account.type !== undefined) row.type = account.type;
+  if (account.opening_balance !== undefined)
+    row.opening_balance = account.opening_balance;
+  if (account.currency !== undefined) row.currency = account.currency;
+  if (account.archived !== undefined) row.archived = account.archived;
+  if (account.created_at !== undefined)
+    row.created_at = toIso(account.created_at);
+  return row;
+};
+
+export const toProductRow = (
+  product: Partial<Product>
+): Partial<ProductRow> => {
+  const row: Partial<ProductRow> = {};
+  if (product.id !== undefined) row.id = product.id;
+  if (product.user_id !== undefined) row.user_id = product.user_id;
+  if (product.name !== undefined) row.name = product.name;
+  if (product.unit !== undefined) row.unit = product.unit;
+  if ("variant" in product) row.variant = product.variant ?? null;
+  if (product.archived !== undefined) row.archived = product.archived;
+  if (product.created_at !== undefined)
+    row.created_at = toIso(product.created_at);
+  return row;
+};
+
+export const toCategoryRow = (
+  category: Partial<Category>
+): Partial<CategoryRow> => {
+  const row: Partial<CategoryRow> = {};
+  if (category.id !== undefined) row.id = category.id;
+  if (category.user_id !== undefined) row.user_id = category.user_id;
+  if (category.name !== undefined) row.name = category.name;
+  if (category.icon !== undefined) row.icon = category.icon;
+  if (category.color !== undefined) row.color = category.color;
+  if ("parent_id" in category) row.parent_id = category.parent_id ?? null;
+  if (category.archived !== undefined) row.archived = category.archived;
+  if (category.created_at !== undefined)
+    row.created_at = toIso(category.created_at);
+  return row;
+};
+
+export const toBudgetRow = (budget: Partial<Budget>): Partial<BudgetRow> => {
+  const row: Partial<BudgetRow> = {};
+  if (budget.id !== undefined) row.id = budget.id;
+  if (budget.user_id !== undefined) row.user_id = budget.user_id;
+  if (budget.category_id !== undefined) row.category_id = budget.category_id;
+  if ("account_id" in budget) row.account_id = budget.account_id ?? null;
+  if (budget.period !== undefined) row.period = budget.period;
+  if (budget.amount !== undefined) row.amount = budget.amount;
+  if (budget.rollover !== undefined) row.rollover = budget.rollover;
+  if (budget.created_at !== undefined)
+    row.created_at = toIso(budget.created_at);
+  return row;
+};
+
+// The template is stored as flat columns and always written whole
+export const toScheduleRow = (
+  schedule: Partial<Schedule>
+): Partial<ScheduleRow> => {
+  const row: Partial<ScheduleRow> = {};
+  if (schedule.id !== undefined) row.id = schedule.id;
+  if (schedule.user_id !== undefined) row.user_id = schedule.user_id;
+  if (schedule.name !== undefined) row.name = schedule.name;
+  if (schedule.template !== undefined) {
+    const { template } = schedule;
+    row.type = template.type;
+    row.amount = template.amount;
+    row.weight_change = template.weightChange;
+    row.account_id = template.account_id;
+    row.category = template.category ?? null;
+    row.notes = template.notes ?? null;
+    row.product_id = template.product_id ?? null;
+    row.unit = template.unit ?? null;
+    row.purpose = template.purpose ?? null;
+    row.business_percent = template.business_percent ?? null;
+    row.splits = toSplitRows(template.splits);
+  }
+  if (schedule.frequency !== undefined) row.frequency = schedule.frequency;
+  if (schedule.interval !== undefined) row.interval = schedule.interval;
+  if (schedule.interval_unit !== undefined)
+    row.interval_unit = schedule.interval_unit;
+  if (schedule.start_date !== undefined)
+    row.start_date = toIso(schedule.start_date);
+  if ("end_date" in schedule)
+    row.end_date =
+      schedule.end_date !== undefined ? toIso(schedule.end_date) : null;
+  if (schedule.next_due !== undefined) row.next_due = toIso(schedule.next_due);
+  if (schedule.amount_variance !== undefined)
+    row.amount_variance = schedule.amount_variance;
+  if (schedule.auto_post !== undefined) row.auto_post = schedule.auto_post;
+  if (schedule.created_at !== undefined)
+    row.created_at = toIso(schedule.created_at);
+  return row;
+};
+
+export const toTransactionRow = (
+  tx: Partial<Transaction>
+): Partial<TransactionRow> => {
+  const row: Partial<TransactionRow> = {};
+  if (tx.client_id !== undefined) row.client_id = tx.client_id;
+  if (tx.user_id !== undefined) row.user_id = tx.user_id;
+  if (tx.account_id !== undefined) row.account_id = tx.account_id;
+  if (tx.type !== undefined) row.type = tx.type;
+  if (tx.amount !== undefined) row.amount = tx.amount;
+  if (tx.weightChange !== undefined) row.weight_change = tx.weightChange;
+  if ("notes" in tx) row.notes = tx.notes ?? null;
+  if ("category" in tx) row.category = tx.category ?? null;
+  if (tx.timestamp !== undefined) row.timestamp = toIso(tx.timestamp);
+  if (tx.created_at !== undefined) row.created_at = toIso(tx.created_at);
+  if ("related_transaction_id" in tx)
+    row.related_transaction_id = tx.related_transaction_id ?? null;
+  if ("adjustment_reason" in tx)
+    row.adjustment_reason = tx.adjustment_reason ?? null;
+  if ("product_id" in tx) row.product_id = tx.product_id ?? null;
+  if ("unit" in tx) row.unit = tx.unit ?? null;
+  if ("purpose" in tx) row.purpose = tx.purpose ?? null;
+  if ("business_percent" in tx)
+    row.business_percent = tx.business_percent ?? null;
+  if ("splits" in tx) row.splits = toSplitRows(tx.splits);
+  return row;
+};
+
+// --- Outbox ---
+
+// Must run inside a Dexie transaction that includes db.outbox. Pending writes
+// for the same row are folded together so the queue never replays an update
+// for a row that was deleted, or a row that never reached the server. A
+// write already on its way to the server is left alone and queued behind.
+const enqueue = async (
+  entry: Omit<OutboxEntry, "seq" | "queued_at" | "attempts">
+) => {
+  const queued_at = Date.now();
+  const pending = (
+    await db.outbox
+      .where("[table+row_id]")
+      .equals([entry.table, entry.row_id])
+      .sortBy("seq")
+  ).filter((e) => !e.in_flight);
+  const pendingInsert = pending.find((e) => e.op === "insert");
+
+  if (entry.op === "update") {
+    const target = pendingInsert ?? pending.find((e) => e.op === "update");
+    if (target) {
+      await db.outbox.update(target.seq!, {
+        payload: { ...target.payload, ...entry.payload },
+        queued_at,
+      });
+      return;
+    }
+  }
+
+  if (entry.op === "delete") {
+    await db.outbox.bulkDelete(pending.map((e) => e.seq!));
+    if (pendingInsert) return;
+    const base = pending[0]?.base_updated_at ?? entry.base_updated_at;
+    await db.outbox.add({
+      ...entry,
+      base_updated_at: base,
+      queued_at,
+      attempts: 0,
+    });
+    return;
+  }
+
+  await db.outbox.add({ ...entry, queued_at, attempts: 0 });
+};
+
+export const queueTransactionInsert = async (tx: Transaction) => {
+  await db.transaction("rw", db.transactions, db.outbox, async () => {
+    await db.transactions.add(tx);
+    await enqueue({
+      user_id: tx.user_id,
+      table: "transactions",
+      op: "insert",
+      row_id: tx.id,
+      payload: toTransactionRow(tx),
+      base_updated_at: null,
+    });
+  });
+};
+
+export const queueTransactionUpdate = async (
+  id: number,
+  changes: Partial<Transaction>
+) => {
+  await db.transaction("rw", db.transactions, db.outbox, async () => {
+    const existing = await db.transactions.get(id);
+    if (!existing) throw new Error(`Transaction ${id} not found locally`);
+
+    await db.transactions.update(id, changes);
+    await enqueue({
+      user_id: existing.user_id,
+      table: "transactions",
+      op: "update",
+      row_id: id,
+      payload: toTransactionRow(changes),
+      base_updated_at: existing.updated_at,
+    });
+  });
+};
+
+export const queueTransactionDelete = async (id: number) => {
+  await db.transaction("rw", db.transactions, db.outbox, async () => {
+    const existing = await db.transactions.get(id);
+    if (!existing) return;
+
+    await db.transactions.delete(id);
+    await enqueue({
+      user_id: existing.user_id,
+      table: "transactions",
+      op: "delete",
+      row_id: id,
+      payload: toTransactionRow(existing),
+      base_updated_at: existing.updated_at,
+    });
+  });
+};
+
+export const queueAccountInsert = async (account: Account) => {
+  await db.transaction("rw", db.accounts, db.outbox, async () => {
+    await db.accounts.add(account);
+    await enqueue({
+      user_id: account.user_id,
+      table: "accounts",
+      op: "insert",
+      row_id: account.id,
+      payload: toAccountRow(account),
+      base_updated_at: null,
+    });
+  });
+};
+
+export const queueAccountUpdate = async (
+  id: string,
+  changes: Partial<Account>
+) => {
+  await db.transaction("rw", db.accounts, db.outbox, async () => {
+    const existing = await db.accounts.get(id);
+    if (!existing) throw new Error(`Account ${id} not found locally`);
+
+    await db.accounts.update(id, changes);
+    await enqueue({
+      user_id: existing.user_id,
+      table: "accounts",
+      op: "update",
+      row_id: id,
+      payload: toAccountRow(changes),
+      base_updated_at: existing.updated_at,
+    });
+  });
+};
+
+export const queueProductInsert = async (product: Product) => {
+  await db.transaction("rw", db.products, db.outbox, async () => {
+    await db.products.add(product);
+    await enqueue({
+      user_id: product.user_id,
+      table: "products",
+      op: "insert",
+      row_id: product.id,
+      payload: toProductRow(product),
+      base_updated_at: null,
+    });
+  });
+};
+
+// Products are archived rather than deleted, so there is no delete op
+export const queueProductUpdate = async (
+  id: string,
+  changes: Partial<Product>
+) => {
+  await db.transaction("rw", db.products, db.outbox, async () => {
+    const existing = await db.products.get(id);
+    if (!existing) throw new Error(`Product ${id} not found locally`);
+
+    await db.products.update(id, changes);
+    await enqueue({
+      user_id: existing.user_id,
+      table: "products",
+      op: "update",
+      row_id: id,
+      payload: toProductRow(changes),
+      base_updated_at: existing.updated_at,
+    });
+  });
+};
+
+export const queueCategoryInsert = async (category: Category) => {
+  await db.transaction("rw", db.categories, db.outbox, async () => {
+    await db.categories.add(category);
+    await enqueue({
+      user_id: category.user_id,
+      table: "categories",
+      op: "insert",
+      row_id: category.id,
+      payload: toCategoryRow(category),
+      base_updated_at: null,
+    });
+  });
+};
+
+// Categories are archived or merged away rather than deleted, so there is no
+// delete op
+export const queueCategoryUpdate = async (
+  id: string,
+  changes: Partial<Category>
+) => {
+  await db.transaction("rw", db.categories, db.outbox, async () => {
+    const existing = await db.categories.get(id);
+    if (!existing) throw new Error(`Category ${id} not found locally`);
+
+    await db.categories.update(id, changes);
+    await enqueue({
+      user_id: existing.user_id,
+      table: "categories",
+      op: "update",
+      row_id: id,
+      payload: toCategoryRow(changes),
+      base_updated_at: existing.updated_at,
+    });
+  });
+};
+
+// Moves every transaction and split line from one category name to another.
+// The server rewrites all of its rows, including ones this device hasn't
+// loaded, when the entry is replayed; here only the local copy follows. Rows
+// still waiting to sync are changed through the outbox, as they reach the
+// server before this entry does.
+export const queueRecategorize = async (
+  categoryId: string,
+  from: string,
+  to: string
+) => {
+  await db.transaction(
+    "rw",
+    [db.categories, db.transactions, db.outbox],
+    async () => {
+      const category = await db.categories.get(categoryId);
+      if (!category)
+        throw new Error(`Category ${categoryId} not found locally`);
+
+      const pending = await pendingRowIds(category.user_id, "transactions");
+      const rows = await db.transactions
+        .where("user_id")
+        .equals(category.user_id)
+        .toArray();
+      for (const tx of rows) {
+        const moved = recategorize(tx, from, to);
+        if (!moved) continue;
+        if (pending.has(tx.id)) await queueTransactionUpdate(tx.id, moved);
+        else await db.transactions.update(tx.id, moved);
+      }
+
+      await enqueue({
+        user_id: category.user_id,
+        table: "categories",
+        op: "recategorize",
+        row_id: categoryId,
+        payload: { from, to },
+        base_updated_at: null,
+      });
+    }
+  );
+};
+
+export const queueBudgetInsert = async (budget: Budget) => {
+  await db.transaction("rw", db.budgets, db.outbox, async () => {
+    await db.budgets.add(budget);
+    await enqueue({
+      user_id: budget.user_id,
+      table: "budgets",
+      op: "insert",
+      row_id: budget.id,
+      payload: toBudgetRow(budget),
+      base_updated_at: null,
+    });
+  });
+};
+
+export const queueBudgetUpdate = async (
+  id: string,
+  changes: Partial<Budget>
+) => {
+  await db.transaction("rw", db.budgets, db.outbox, async () => {
+    const existing = await db.budgets.get(id);
+    if (!existing) throw new Error(`Budget ${id} not found locally`);
+
+    await db.budgets.update(id, changes);
+    await enqueue({
+      user_id: existing.user_id,
+      table: "budgets",
+      op: "update",
+      row_id: id,
+      payload: toBudgetRow(changes),
+      base_updated_at: existing.updated_at,
+    });
+  });
+};
+
+export const queueBudgetDelete = async (id: string) => {
+  await db.transaction("rw", db.budgets, db.outbox, async () => {
+    const existing = await db.budgets.get(id);
+    if (!existing) return;
+
+    await db.budgets.delete(id);
+    await enqueue({
+      user_id: existing.user_id,
+      table: "budgets",
+      op: "delete",
+      row_id: id,
+      payload: toBudgetRow(existing),
+      base_updated_at: existing.updated_at,
+    });
+  });
+};
+
+export const queueScheduleInsert = async (schedule: Schedule) => {
+  await db.transaction("rw", db.schedules, db.outbox, async () => {
+    await db.schedules.add(schedule);
+    await enqueue({
+      user_id: schedule.user_id,
+      table: "schedules",
+      op: "insert",
+      row_id: schedule.id,
+      payload: toScheduleRow(schedule),
+      base_updated_at: null,
+    });
+  });
+};
+
+export const queueScheduleUpdate = async (
+  id: string,
+  changes: Partial<Schedule>
+) => {
+  await db.transaction("rw", db.schedules, db.outbox, async () => {
+    const existing = await db.schedules.get(id);
+    if (!existing) throw new Error(`Schedule ${id} not found locally`);
+
+    await db.schedules.update(id, changes);
+    await enqueue({
+      user_id: existing.user_id,
+      table: "schedules",
+      op: "update",
+      row_id: id,
+      payload: toScheduleRow(changes),
+      base_updated_at: existing.updated_at,
+    });
+  });
+};
+
+export const queueScheduleDelete = async (id: string) => {
+  await db.transaction("rw", db.schedules, db.outbox, async () => {
+    const existing = await db.schedules.get(id);
+    if (!existing) return;
+
+    await db.schedules.delete(id);
+    await enqueue({
+      user_id: existing.user_id,
+      table: "schedules",
+      op: "delete",
+      row_id: id,
+      payload: toScheduleRow(existing),
+      base_updated_at: existing.updated_at,
+    });
+  });
+};
+
+// Moves any remaining transactions to reassignToId first, so the delete never
+// leaves rows pointing at a missing account. The server moves its own rows,
+// including ones this device hasn't loaded, when the delete is replayed;
+// here only the local copy follows, along with the totals standing in for
+// older history. Rows still waiting to sync are moved through the outbox,
+// as they may reach the server before the delete does.
+export const queueAccountDelete = async (id: string, reassignToId?: string) => {
+  await db.transaction(
+    "rw",
+    [db.accounts, db.transactions, db.outbox, db.syncState],
+    async () => {
+      const existing = await db.accounts.get(id);
+      if (!existing) return;
+
+      const dependentIds = await db.transactions
+        .where("account_id")
+        .equals(id)
+        .primaryKeys();
+      const state = await db.syncState.get(existing.user_id);
+      const olderCount = (state?.totals_before ?? [])
+        .filter((total) => total.account_id === id)
+        .reduce((sum, total) => sum + total.count, 0);
+      if (dependentIds.length + olderCount > 0 && !reassignToId) {
+        throw new Error(
+          `Account ${id} still has ${
+            dependentIds.length + olderCount
+          } transactions`
+        );
+      }
+
+      const pending = await pendingRowIds(existing.user_id, "transactions");
+      for (const txId of dependentIds) {
+        if (pending.has(txId)) {
+          await queueTransactionUpdate(txId, { account_id: reassignToId });
+        } else {
+          await db.transactions.update(txId, { account_id: reassignToId });
+        }
+      }
+      if (state && olderCount > 0) {
+        const move = <T extends { account_id: string }>(total: T) =>
+          total.account_id === id
+            ? { ...total, account_id: reassignToId! }
+            : total;
+        await db.syncState.update(existing.user_id, {
+          totals_before: state.totals_before.map(move),
+          expenses_before: state.expenses_before.map(move),
+          costing_before: null,
+        });
+      }
+
+      await db.accounts.delete(id);
+      await enqueue({
+        user_id: existing.user_id,
+        table: "accounts",
+        op: "delete",
+        row_id: id,
+        payload: toAccountRow(existing),
+        base_updated_at: existing.updated_at,
+        reassign_to: reassignToId,
+      });
+    }
+  );
+};
+
+// Applies several queued writes locally as one all-or-nothing change
+export const queueBatch = <T>(writes: () => Promise<T>) =>
+  db.transaction(
+    "rw",
+    [
+      db.accounts,
+      db.products,
+      db.categories,
+      db.budgets,
+      db.schedules,
+      db.transactions,
+      db.outbox,
+      db.meta,
+      db.syncState,
+    ],
+    writes
+  );
+
+// --- Replay ---
+export interface ReplayResult {
+  replayed: number;
+  conflicts: number;
+  rejected: string[]; // Server messages for writes that were rolled back
+}
+
+const recordConflict = (
+  entry: OutboxEntry,
+  remote: Record<string, unknown> | null,
+  resolution: SyncConflict["resolution"]
+) =>
+  db.conflicts.add({
+    user_id: entry.user_id,
+    table: entry.table,
+    row_id: entry.row_id,
+    op: entry.op,
+    local: entry.payload,
+    remote,
+    resolution,
+    detected_at: Date.now(),
+  });
+
+// Writes a server row back into the local copy
+const storeRemote = (
+  entry: OutboxEntry,
+  row:
+    | AccountRow
+    | ProductRow
+    | CategoryRow
+    | BudgetRow
+    | ScheduleRow
+    | TransactionRow
+) => {
+  switch (entry.table) {
+    case "accounts":
+      return db.accounts.put(mapAccount(row as AccountRow));
+    case "products":
+      return db.products.put(mapProduct(row as ProductRow));
+    case "categories":
+      return db.categories.put(mapCategory(row as CategoryRow));
+    case "budgets":
+      return db.budgets.put(mapBudget(row as BudgetRow));
+    case "schedules":
+      return db.schedules.put(mapSchedule(row as ScheduleRow));
+    case "transactions":
+      return db.transactions.put(mapTransaction(row as TransactionRow));
+  }
+};
+
+const removeLocal = (entry: OutboxEntry) => {
+  switch (entry.table) {
+    case "accounts":
+      return db.accounts.delete(entry.row_id as string);
+    case "products":
+      return db.products.delete(entry.row_id as string);
+    case "categories":
+      return db.categories.delete(entry.row_id as string);
+    case "budgets":
+      return db.budgets.delete(entry.row_id as string);
+    case "schedules":
+      return db.schedules.delete(entry.row_id as string);
+    case "transactions":
+      return db.transactions.delete(entry.row_id as number);
+  }
+};
+
+// Swaps a temporary negative id for the one Supabase assigned, everywhere
+// it is referenced locally
+const remapTransactionId = async (entry: OutboxEntry, saved: Transaction) => {
+  const tempId = entry.row_id as number;
+  await db.transaction("rw", db.transactions, db.outbox, async () => {
+    const local = await db.transactions.get(tempId);
+    const edited = await laterWrites(entry).count();
+    await db.transactions.delete(tempId);
+    if (local) {
+      await db.transactions.put(
+        edited
+          ? { ...local, id: saved.id, updated_at: saved.updated_at }
+          : saved
+      );
+    }
+
+    await db.outbox
+      .where("[table+row_id]")
+      .equals(["transactions", tempId])
+      .modify({ row_id: saved.id, base_updated_at: saved.updated_at });
+
+    const linked = await db.transactions
+      .filter((tx) => tx.related_transaction_id === tempId)
+      .toArray();
+    for (const tx of linked) {
+      await db.transactions.update(tx.id, { related_transaction_id: saved.id });
+      if (tx.id > 0) {
+        await enqueue({
+          user_id: tx.user_id,
+          table: "transactions",
+          op: "update",
+          row_id: tx.id,
+          payload: { related_transaction_id: saved.id },
+          base_updated_at: tx.updated_at,
+        });
+      }
+    }
+
+    await db.outbox
+      .filter((e) => e.payload.related_transaction_id === tempId)
+      .modify((e) => {
+        e.payload.related_transaction_id = saved.id;
+      });
+  });
+};
+
+// Writes for the row queued while this one was on its way to the server
+const laterWrites = (entry: OutboxEntry) =>
+  db.outbox
+    .where("[table+row_id]")
+    .equals([entry.table, entry.row_id])
+    .filter((e) => e.seq !== entry.seq);
+
+// Keeps the server's version stamp on the local copy, and on writes queued
+// behind this one, since later changes to the row are made against it
+const recordVersion = (entry: OutboxEntry, updatedAt: string) => {
+  const updated_at = new Date(updatedAt).getTime();
+  return db.transaction("rw", db.table(entry.table), db.outbox, async () => {
+    await db.table(entry.table).update(entry.row_id, { updated_at });
+    await laterWrites(entry).modify({ base_updated_at: updated_at });
+  });
+};
+
+// Stores what the server made of a write, unless the row was changed again
+// while it was in flight: the local copy already has those edits, so it only
+// takes the new version stamp
+const settle = (entry: OutboxEntry, row: Parameters<typeof storeRemote>[1]) =>
+  db.transaction("rw", db.table(entry.table), db.outbox, async () => {
+    if ((await laterWrites(entry).count()) === 0) {
+      await storeRemote(entry, row);
+    } else {
+      await recordVersion(entry, row.updated_at);
+    }
+  });
+
+const replayInsert = async (entry: OutboxEntry) => {
+  // Everything except transactions uses client-generated ids
+  if (entry.table !== "transactions") {
+    const { data, error } = await supabase
+      .from(entry.table)
+      .insert(entry.payload as TableInsert<typeof entry.table>)
+      .select("updated_at")
+      .single();
+    if (!error) {
+      await recordVersion(entry, data.updated_at);
+      return;
+    }
+    // A duplicate key means an earlier attempt already got through, unless
+    // no row has this id: then another key, such as a name, clashed, and the
+    // rejection is rolled back like any other
+    if (error.code !== "23505") throw error;
+    const { data: existing, error: fetchError } = await supabase
+      .from(entry.table)
+      .select("updated_at")
+      .eq("id", entry.row_id as string)
+      .maybeSingle();
+    if (fetchError) throw fetchError;
+    if (!existing) throw error;
+    await recordVersion(entry, existing.updated_at);
+    return;
+  }
+
+  const payload = { ...entry.payload };
+  // The other leg of a linked pair may not exist on the server yet; the link
+  // is restored by remapTransactionId once it does
+  const relatedId = payload.related_transaction_id;
+  if (typeof relatedId === "number" && relatedId < 0) {
+    payload.related_transaction_id = null;
+  }
+
+  // Keyed on the client id, so if an earlier attempt got through without
+  // its response arriving, this finds that row instead of adding another
+  const { data, error } = await supabase
+    .from("transactions")
+    .upsert(payload as TableInsert<"transactions">, {
+      onConflict: "user_id,client_id",
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  const saved = mapTransaction(data as TransactionRow);
+  if (typeof relatedId === "number" && relatedId < 0) {
+    saved.related_transaction_id = relatedId;
+  }
+  await remapTransactionId(entry, saved);
+};
+
+const replayRecategorize = async (entry: OutboxEntry) => {
+  const { from, to } = entry.payload as { from: string; to: string };
+  const { error } = await supabase.rpc("recategorize_transactions", {
+    p_from: from,
+    p_to: to,
+  });
+  if (error) throw error;
+};
+
+// Postgres refused the write itself (bad data, a constraint or a row-level
+// security policy) rather than the request failing to arrive, so retrying
+// would only fail the same way
+const isRejection = (error: unknown) => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && /^(22|23|42|P0)/.test(code);
+};
+
+// Drops a rejected write and puts the row back as the server has it, or
+// removes it if the server never had it
+const rollBack = async (entry: OutboxEntry) => {
+  const { data: remote, error } = await supabase
+    .from(entry.table)
+    .select("*")
+    .eq("id", entry.row_id)
+    .maybeSingle();
+  if (error) throw error;
+
+  await db.transaction(
+    "rw",
+    [
+      db.accounts,
+      db.products,
+      db.categories,
+      db.budgets,
+      db.schedules,
+      db.transactions,
+      db.outbox,
+    ],
+    async () => {
+      if (remote) await storeRemote(entry, remote);
+      else await removeLocal(entry);
+      await db.outbox.delete(entry.seq!);
+    }
+  );
+};
+
+// Returns true when the change was applied on the server
+const replayChange = async (entry: OutboxEntry): Promise<boolean> => {
+  const { data: remote, error: fetchError } = await supabase
+    .from(entry.table)
+    .select("*")
+    .eq("id", entry.row_id)
+    .maybeSingle();
+  if (fetchError) throw fetchError;
+
+  if (!remote) {
+    // Deleted on another device: nothing left to update or delete
+    if (entry.op === "update") {
+      await recordConflict(entry, null, "kept_remote");
+    }
+    await removeLocal(entry);
+    return false;
+  }
+
+  // Both stamps are the server's: the row's current version, and the one
+  // this device had when the change was made. Device clocks never decide.
+  const remoteUpdatedAt = new Date(remote.updated_at).getTime();
+  const changedElsewhere =
+    entry.base_updated_at !== null && remoteUpdatedAt > entry.base_updated_at;
+
+  if (changedElsewhere) {
+    // The change carries only the fields edited here, so it is applied over
+    // the other device's version; both versions are kept for review
+    await recordConflict(entry, remote, "kept_local");
+  }
+
+  if (entry.op === "delete") {
+    // Accounts take their transactions' new home with them
+    const { error } =
+      entry.table === "accounts"
+        ? await supabase.rpc("delete_account", {
+            p_id: entry.row_id as string,
+            p_reassign_to: entry.reassign_to,
+          })
+        : await supabase.from(entry.table).delete().eq("id", entry.row_id);
+    if (error) throw error;
+    return true;
+  }
+
+  const { data, error } = await supabase
+    .from(entry.table)
+    .update(entry.payload)
+    .eq("id", entry.row_id)
+    .select()
+    .single();
+  if (error) throw error;
+  await settle(entry, data);
+  return true;
+};
+
+// Replays queued writes in order, stopping at the first failure so later
+// writes never overtake an earlier one
+export const replayOutbox = async (userId: string): Promise<ReplayResult> => {
+  const result: ReplayResult = { replayed: 0, conflicts: 0, rejected: [] };
+  const conflictsBefore = await db.conflicts
+    .where("user_id")
+    .equals(userId)
+    .count();
+  let lastSeq = 0;
+
+  for (;;) {
+    const entry = await db.outbox
+      .where("seq")
+      .above(lastSeq)
+      .filter((e) => e.user_id === userId)
+      .first();
+    if (!entry) break;
+    lastSeq = entry.seq!;
+    await db.outbox.update(entry.seq!, { in_flight: true });
+
+    try {
+      if (entry.op === "insert") {
+        await replayInsert(entry);
+      } else if (entry.op === "recategorize") {
+        await replayRecategorize(entry);
+      } else {
+        await replayChange(entry);
+      }
+      await db.outbox.delete(entry.seq!);
+      result.replayed++;
+    } catch (error) {
+      // A rejected write would block everything queued behind it
+      if (isRejection(error)) {
+        await rollBack(entry);
+        result.rejected.push((error as { message: string }).message);
+        continue;
+      }
+      await db.outbox.update(entry.seq!, {
+        attempts: entry.attempts + 1,
+        last_error: error instanceof Error ? error.message : String(error),
+        in_flight: false,
+      });
+      throw error;
+    }
+  }
+
+  const conflictsAfter = await db.conflicts
+    .where("user_id")
+    .equals(userId)
+    .count();
+  result.conflicts = conflictsAfter - conflictsBefore;
+  return result;
+};
+
+// --- Pull ---
+
+// Ids with writes still waiting in the outbox; the local copy wins for these
+const pendingRowIds = async (userId: string, table: OutboxEntry["table"]) =>
+  new Set(
+    (
+      await db.outbox
+        .where("user_id")
+        .equals(userId)
+        .filter((e) => e.table === table)
+        .toArray()
+    ).map((e) => e.row_id)
+  );
+
+export const pullAccounts = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("accounts")
+    .select("*")
+    .eq("user_id", userId);
+  if (error) throw error;
+
+  const remote = (data || []).map(mapAccount);
+  await db.transaction("rw", db.accounts, db.outbox, async () => {
+    const pending = await pendingRowIds(userId, "accounts");
+    const remoteIds = new Set(remote.map((acc) => acc.id));
+    const removed = await db.accounts
+      .where("user_id")
+      .equals(userId)
+      .filter((acc) => !remoteIds.has(acc.id) && !pending.has(acc.id))
+      .primaryKeys();
+    await db.accounts.bulkDelete(removed);
+    await db.accounts.bulkPut(remote.filter((acc) => !pending.has(acc.id)));
+  });
+};
+
+export const pullProducts = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("products")
+    .select("*")
+    .eq("user_id", userId);
+  if (error) throw error;
+
+  const remote = (data || []).map(mapProduct);
+  await db.transaction("rw", db.products, db.outbox, async () => {
+    const pending = await pendingRowIds(userId, "products");
+    const remoteIds = new Set(remote.map((product) => product.id));
+    const removed = await db.products
+      .where("user_id")
+      .equals(userId)
+      .filter(
+        (product) => !remoteIds.has(product.id) && !pending.has(product.id)
+      )
+      .primaryKeys();
+    await db.products.bulkDelete(removed);
+    await db.products.bulkPut(
+      remote.filter((product) => !pending.has(product.id))
+    );
+  });
+};
+
+export const pullCategories = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("categories")
+    .select("*")
+    .eq("user_id", userId);
+  if (error) throw error;
+
+  const remote = (data || []).map(mapCategory);
+  await db.transaction("rw", db.categories, db.outbox, async () => {
+    const pending = await pendingRowIds(userId, "categories");
+    const remoteIds = new Set(remote.map((category) => category.id));
+    const removed = await db.categories
+      .where("user_id")
+      .equals(userId)
+      .filter(
+        (category) => !remoteIds.has(category.id) && !pending.has(category.id)
+      )
+      .primaryKeys();
+    await db.categories.bulkDelete(removed);
+    await db.categories.bulkPut(
+      remote.filter((category) => !pending.has(category.id))
+    );
+  });
+};
+
+export const pullBudgets = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("budgets")
+    .select("*")
+    .eq("user_id", userId);
+  if (error) throw error;
+
+  const remote = (data || []).map(mapBudget);
+  await db.transaction("rw", db.budgets, db.outbox, async () => {
+    const pending = await pendingRowIds(userId, "budgets");
+    const remoteIds = new Set(remote.map((budget) => budget.id));
+    const removed = await db.budgets
+      .where("user_id")
+      .equals(userId)
+      .filter((budget) => !remoteIds.has(budget.id) && !pending.has(budget.id))
+      .primaryKeys();
+    await db.budgets.bulkDelete(removed);
+    await db.budgets.bulkPut(
+      remote.filter((budget) => !pending.has(budget.id))
+    );
+  });
+};
+
+export const pullSchedules = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("schedules")
+    .select("*")
+    .eq("user_id", userId);
+  if (error) throw error;
+
+  const remote = (data || []).map(mapSchedule);
+  await db.transaction("rw", db.schedules, db.outbox, async () => {
+    const pending = await pendingRowIds(userId, "schedules");
+    const remoteIds = new Set(remote.map((schedule) => schedule.id));
+    const removed = await db.schedules
+      .where("user_id")
+      .equals(userId)
+      .filter(
+        (schedule) => !remoteIds.has(schedule.id) && !pending.has(schedule.id)
+      )
+      .primaryKeys();
+    await db.schedules.bulkDelete(removed);
+    await db.schedules.bulkPut(
+      remote.filter((schedule) => !pending.has(schedule.id))
+    );
+  });
+};
+
+// PostgREST caps each response (1000 rows by default), so longer histories
+// come down in pages
+const PULL_PAGE_SIZE = 1000;
+
+// The device holds the newest part of the transaction history, from a cursor
+// on, and loads older pages as the list reaches them; totals from Postgres
+// stand in for the rest. Pulls after the first fetch only what changed.
+
+// Postgres stamps a write when its transaction starts, so one that commits
+// late can carry a stamp just under the newest already pulled. Each pull
+// reaches back this far to catch it.
+const PULL_OVERLAP_MS = 60_000;
+
+type HistoryTotalRow = Functions["totals_before"]["Returns"][number];
+type HistoryExpenseTotalRow =
+  Functions["expense_totals_before"]["Returns"][number];
+
+const mapHistoryTotal = (row: HistoryTotalRow): HistoryTotal => ({
+  account_id: row.account_id,
+  product_id: row.product_id || undefined,
+  amount: row.amount,
+  weightChange: row.weight_change,
+  salesAmount: row.sales_amount,
+  salesWeight: row.sales_weight,
+  count: row.transaction_count,
+});
+
+// Comparisons on the server use the boundary row's exact timestamp, since
+// rounding it to milliseconds would move rows across the boundary
+const cursorOf = (row: TransactionRow): HistoryCursor => ({
+  timestamp: new Date(row.timestamp).getTime(),
+  at: row.timestamp,
+  id: row.id,
+});
+
+// The page of the history that comes before the cursor, newest first. Rows
+// with the same timestamp are told apart by id, so none is skipped or
+// repeated at a page boundary.
+const pullHistoryPage = async (
+  userId: string,
+  cursor: HistoryCursor | null
+) => {
+  let query = supabase.from("transactions").select("*").eq("user_id", userId);
+  if (cursor) {
+    const timestamp = `"${cursor.at}"`;
+    query = query.or(
+      `timestamp.lt.${timestamp},and(timestamp.eq.${timestamp},id.lt.${cursor.id})`
+    );
+  }
+  const { data, error } = await query
+    .order("timestamp", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(PULL_PAGE_SIZE);
+  if (error) throw error;
+
+  return {
+    page: data.map(mapTransaction),
+    // A short page means the start of the history was reached
+    cursor:
+      data.length < PULL_PAGE_SIZE ? null : cursorOf(data[data.length - 1]),
+  };
+};
+
+const mapHistoryExpenseTotal = (
+  row: HistoryExpenseTotalRow
+): HistoryExpenseTotal => ({
+  day: toLocalDay(row.day),
+  account_id: row.account_id,
+  category: row.category,
+  amount: row.amount,
+});
+
+// What the history before the cursor adds up to: per account and product,
+// and the Expense spending per day that budgets count
+const pullOlderTotals = async (cursor: HistoryCursor | null) => {
+  if (!cursor) return { totals_before: [], expenses_before: [] };
+  const p_timestamp = cursor.at;
+  const p_time_zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const [totals, expenses] = await Promise.all([
+    fetchAllRows<HistoryTotalRow>((from, to) =>
+      supabase
+        .rpc("totals_before", { p_timestamp, p_id: cursor.id })
+        .order("account_id")
+        .order("product_id")
+        .range(from, to)
+    ),
+    fetchAllRows<HistoryExpenseTotalRow>((from, to) =>
+      supabase
+        .rpc("expense_totals_before", {
+          p_timestamp,
+          p_id: cursor.id,
+          p_time_zone,
+        })
+        .order("day")
+        .order("account_id")
+        .order("category")
+        .range(from, to)
+    ),
+  ]);
+  return {
+    totals_before: totals.map(mapHistoryTotal),
+    expenses_before: expenses.map(mapHistoryExpenseTotal),
+  };
+};
+
+// Rows changed since the last pull, in the order they were stamped
+const pullChangedTransactions = async (userId: string, since: number) => {
+  const rows: TransactionRow[] = [];
+  for (;;) {
+    const last = rows[rows.length - 1];
+    let query = supabase.from("transactions").select("*").eq("user_id", userId);
+    query = last
+      ? query.or(
+          `updated_at.gt."${last.updated_at}",and(updated_at.eq."${last.updated_at}",id.gt.${last.id})`
+        )
+      : query.gt("updated_at", toIso(since - PULL_OVERLAP_MS));
+    const { data, error } = await query
+      .order("updated_at")
+      .order("id")
+      .limit(PULL_PAGE_SIZE);
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < PULL_PAGE_SIZE) return rows;
+  }
+};
+
+// Transactions deleted since the last pull, from the audit trail. Entries
+// are stamped like rows, so the pull reaches back the same way, and a
+// delete read twice is applied twice to no effect.
+const pullDeletedTransactions = async (userId: string, since: number) => {
+  const rows: Pick<AuditRow, "id" | "transaction_id" | "changed_at">[] = [];
+  for (;;) {
+    const last = rows[rows.length - 1];
+    let query = supabase
+      .from("transaction_audit")
+      .select("id, transaction_id, changed_at")
+      .eq("user_id", userId)
+      .eq("action", "delete");
+    query = last
+      ? query.or(
+          `changed_at.gt."${last.changed_at}",and(changed_at.eq."${last.changed_at}",id.gt.${last.id})`
+        )
+      : query.gt("changed_at", toIso(since - PULL_OVERLAP_MS));
+    const { data, error } = await query
+      .order("changed_at")
+      .order("id")
+      .limit(PULL_PAGE_SIZE);
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < PULL_PAGE_SIZE) return rows;
+  }
+};
+
+// Where later pulls pick up: the newest change and audit entry so far
+const pullMarks = async (userId: string) => {
+  const [changed, audited] = await Promise.all([
+    supabase
+      .from("transactions")
+      .select("updated_at")
+      .eq("user_id", userId)
+      .order("updated_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from("transaction_audit")
+      .select("changed_at")
+      .eq("user_id", userId)
+      .eq("action", "delete")
+      .order("changed_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+  if (changed.error) throw changed.error;
+  if (audited.error) throw audited.error;
+  return {
+    pulled_at: changed.data ? new Date(changed.data.updated_at).getTime() : 0,
+    deleted_at: audited.data ? new Date(audited.data.changed_at).getTime() : 0,
+  };
+};
+
+// Pulls that move the marks or the cursor take turns
+let historyTurn: Promise<unknown> = Promise.resolve();
+
+const takeTurn = <T>(pull: () => Promise<T>) => {
+  const turn = historyTurn.then(pull, pull);
+  historyTurn = turn.catch(() => undefined);
+  return turn;
+};
+
+// The first pull on a device loads the newest page, in place of any copy an
+// older version of the app kept. The marks are taken before the page so
+// changes made while it loads are picked up next time.
+const startHistory = async (userId: string) => {
+  const marks = await pullMarks(userId);
+  const { page, cursor } = await pullHistoryPage(userId, null);
+  const older = await pullOlderTotals(cursor);
+
+  await db.transaction(
+    "rw",
+    db.transactions,
+    db.outbox,
+    db.syncState,
+    async () => {
+      const pending = await pendingRowIds(userId, "transactions");
+      const stale = await db.transactions
+        .where("user_id")
+        .equals(userId)
+        .filter((tx) => tx.id > 0 && !pending.has(tx.id))
+        .primaryKeys();
+      await db.transactions.bulkDelete(stale);
+      await db.transactions.bulkPut(page.filter((tx) => !pending.has(tx.id)));
+      await db.syncState.put({
+        user_id: userId,
+        ...marks,
+        cursor,
+        ...older,
+        costing_before: null,
+      });
+    }
+  );
+};
+
+// Later pulls apply what changed and was deleted since the marks. Synced
+// rows that fall before the cursor, whether they changed or were skipped
+// while waiting in the outbox, leave the local copy for the totals, which
+// are refreshed with them. A costing replay that may have included them is
+// dropped to be run again.
+const pullHistoryChanges = async (userId: string, state: SyncState) => {
+  const [changed, deleted, older] = await Promise.all([
+    pullChangedTransactions(userId, state.pulled_at),
+    pullDeletedTransactions(userId, state.deleted_at),
+    pullOlderTotals(state.cursor),
+  ]);
+  const remote = changed.map(mapTransaction);
+  const deletedAt = deleted.reduce(
+    (latest, row) => Math.max(latest, new Date(row.changed_at).getTime()),
+    state.deleted_at
+  );
+
+  await db.transaction(
+    "rw",
+    db.transactions,
+    db.outbox,
+    db.syncState,
+    async () => {
+      const pending = await pendingRowIds(userId, "transactions");
+      await db.transactions.bulkDelete([
+        ...new Set(
+          deleted
+            .map((row) => row.transaction_id)
+            .filter((id) => !pending.has(id))
+        ),
+      ]);
+      await db.transactions.bulkPut(
+        remote.filter(
+          (tx) => !pending.has(tx.id) && !precedesCursor(tx, state.cursor)
+        )
+      );
+      const outside = await db.transactions
+        .where("user_id")
+        .equals(userId)
+        .filter(
+          (tx) =>
+            tx.id > 0 && !pending.has(tx.id) && precedesCursor(tx, state.cursor)
+        )
+        .primaryKeys();
+      await db.transactions.bulkDelete(outside);
+      await db.syncState.update(userId, {
+        pulled_at: remote.reduce(
+          (latest, tx) => Math.max(latest, tx.updated_at),
+          state.pulled_at
+        ),
+        deleted_at: deletedAt,
+        ...older,
+        ...((deletedAt > state.deleted_at ||
+          remote.some((tx) => precedesCursor(tx, state.cursor))) && {
+          costing_before: null,
+        }),
+      });
+    }
+  );
+};
+
+export const pullTransactions = (userId: string) =>
+  takeTurn(async () => {
+    const state = await db.syncState.get(userId);
+    if (state) await pullHistoryChanges(userId, state);
+    else await startHistory(userId);
+  });
+
+// Loads the next page of older history; false once there is none
+export const pullOlderTransactions = (userId: string) =>
+  takeTurn(async () => {
+    const state = await db.syncState.get(userId);
+    if (!state?.cursor) return false;
+    const { page, cursor } = await pullHistoryPage(userId, state.cursor);
+    const older = await pullOlderTotals(cursor);
+
+    await db.transaction(
+      "rw",
+      db.transactions,
+      db.outbox,
+      db.syncState,
+      async () => {
+        const pending = await pendingRowIds(userId, "transactions");
+        await db.transactions.bulkPut(page.filter((tx) => !pending.has(tx.id)));
+        await db.syncState.update(userId, { cursor, ...older });
+      }
+    );
+    return cursor !== null;
+  });
+
+export interface CostingParams {
+  method: CostingMethod;
+  baseCurrency: string;
+  rates: ExchangeRate[];
+}
+
+// Identifies what a replay was computed for, so a stored one is only used
+// while the cursor and settings still match
+export const costingKey = (
+  cursor: HistoryCursor,
+  { method, baseCurrency, rates }: CostingParams
+) =>
+  JSON.stringify([
+    cursor,
+    method,
+    baseCurrency,
+    rates,
+    Intl.DateTimeFormat().resolvedOptions().timeZone,
+  ]);
+
+const mapCostingState = (row: CostingStateRow): CostingState => ({
+  lots: Object.fromEntries(
+    Object.entries(row.lots).map(([product, lots]) => [
+      product,
+      lots.map((lot) => ({ weight: lot.weight, unitCost: lot.unit_cost })),
+    ])
+  ),
+  lastUnitCosts: row.last_unit_costs,
+  revenue: row.revenue,
+  costOfGoodsSold: row.cost_of_goods_sold,
+  shrinkageCost: row.shrinkage_cost,
+  uncostedWeight: row.uncosted_weight,
+  purchasedWeight: row.purchased_weight,
+  purchasedCost: row.purchased_cost,
+});
+
+// Replays the cost of goods before the cursor on the server and keeps the
+// result, as long as the cursor hasn't moved while it ran
+export const pullCostingBefore = (userId: string, params: CostingParams) =>
+  takeTurn(async () => {
+    const state = await db.syncState.get(userId);
+    if (!state?.cursor) return null;
+    const { data, error } = await supabase.rpc("costing_before", {
+      p_timestamp: state.cursor.at,
+      p_id: state.cursor.id,
+      p_method: params.method,
+      p_base_currency: params.baseCurrency,
+      p_rates: params.rates,
+      p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+    if (error) throw error;
+
+    const costing_before: HistoryCosting = {
+      key: costingKey(state.cursor, params),
+      state: mapCostingState(data),
+      missingRates: data.missing_rates,
+    };
+    await db.syncState.update(userId, { costing_before });
+    return costing_before;
+  });
+
+// --- Summaries ---
+
+// Postgres dates are calendar days; a date-time without an offset parses as
+// local time, so this is local midnight like the days the app groups by
+const toLocalDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const mapDailyTotal = (row: DailyTotalRow): DailyTotal => ({
+  day: toLocalDay(row.day),
+  account_id: row.account_id,
+  type: row.type as TransactionType,
+  amount: row.amount,
+  inflow: row.inflow,
+  outflow: row.outflow,
+  weightChange: row.weight_change,
+  massAmount: row.mass_amount,
+  massWeightChange: row.mass_weight_change,
+  massWeightMoved: row.mass_weight_moved,
+  count: row.transaction_count,
+});
+
+const mapDailyCategoryTotal = (
+  row: DailyCategoryTotalRow
+): DailyCategoryTotal => ({
+  day: toLocalDay(row.day),
+  account_id: row.account_id,
+  type: row.type as TransactionType,
+  category: row.category || undefined,
+  purpose: (row.purpose as Purpose) || undefined,
+  business_percent: row.business_percent ?? undefined,
+  amount: row.amount,
+});
+
+// Every row of a result, a page at a time under PostgREST's cap. Pages
+// must come from a query ordered on all of its grouping columns.
+const fetchAllRows = async <T>(
+  page: (
+    from: number,
+    to: number
+  ) => PromiseLike<{ data: T[] | null; error: unknown }>
+) => {
+  const rows: T[] = [];
+  for (;;) {
+    const { data, error } = await page(
+      rows.length,
+      rows.length + PULL_PAGE_SIZE - 1
+    );
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PULL_PAGE_SIZE) return rows;
+  }
+};
+
+// Aggregates for the whole ledger, bucketed by day in this device's zone
+export const pullSummaries = async (): Promise<ServerSummaries> => {
+  const p_time_zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const [balances, totals, categoryTotals] = await Promise.all([
+    fetchAllRows<
+      Pick<AccountBalanceRow, "account_id" | "balance" | "transaction_count">
+    >((from, to) =>
+      supabase
+        .from("account_balances")
+        .select("account_id, balance, transaction_count")
+        .order("account_id")
+        .range(from, to)
+    ),
+    fetchAllRows<DailyTotalRow>((from, to) =>
+      supabase
+        .rpc("daily_totals", { p_time_zone })
+        .order("day")
+        .order("account_id")
+        .order("type")
+        .range(from, to)
+    ),
+    fetchAllRows<DailyCategoryTotalRow>((from, to) =>
+      supabase
+        .rpc("daily_category_totals", { p_time_zone })
+        .order("day")
+        .order("account_id")
+        .order("type")
+        .order("category")
+        .order("purpose")
+        .order("business_percent")
+        .range(from, to)
+    ),
+  ]);
+
+  return {
+    balances: Object.fromEntries(
+      balances.map((row) => [row.account_id, row.balance])
+    ),
+    transactionCounts: Object.fromEntries(
+      balances.map((row) => [row.account_id, row.transaction_count])
+    ),
+    totals: totals.map(mapDailyTotal),
+    categoryTotals: categoryTotals.map(mapDailyCategoryTotal),
+  };
+};
+
+// --- Audit trail ---
+// Read straight from the server when asked for; none of it is kept locally
+
+const mapAuditEntry = (row: AuditRow): AuditEntry => ({
+  id: row.id,
+  transaction_id: row.transaction_id,
+  account_id: row.account_id,
+  previous_account_id: row.previous_account_id || undefined,
+  action: row.action as AuditAction,
+  before: row.before ? mapTransaction(row.before) : undefined,
+  after: row.after ? mapTransaction(row.after) : undefined,
+  changed_by: row.changed_by || undefined,
+  changed_by_email: row.changed_by_email || undefined,
+  changed_at: new Date(row.changed_at).getTime(),
+});
+
+// Every recorded change to one transaction, newest first
+export const pullTransactionHistory = async (transactionId: number) => {
+  const { data, error } = await supabase
+    .from("transaction_audit")
+    .select("*")
+    .eq("transaction_id", transactionId)
+    .order("id", { ascending: false });
+  if (error) throw error;
+  return data.map(mapAuditEntry);
+};
+
+// Changes to the transactions in an account, including ones moved in or out
+// of it, newest first. Pass the id of the oldest entry shown for the page
+// after it.
+export const pullAccountActivity = async (
+  accountId: string,
+  beforeId?: number
+) => {
+  let query = supabase
+    .from("transaction_audit")
+    .select("*")
+    .or(`account_id.eq.${accountId},previous_account_id.eq.${accountId}`);
+  if (beforeId !== undefined) query = query.lt("id", beforeId);
+  const { data, error } = await query
+    .order("id", { ascending: false })
+    .limit(ACTIVITY_PAGE_SIZE);
+  if (error) throw error;
+  return data.map(mapAuditEntry);
+};
+
+// --- Realtime ---
+export type RealtimeStatus = "connecting" | "connected" | "disconnected";
+
+// A row another device changed; row is null when it was deleted
+export type RemoteChange =
+  | { table: "accounts"; id: string; row: Account | null }
+  | { table: "transactions"; id: number; row: Transaction | null };
+
+// Writes a pushed change into the local copy. As when pulling, rows with
+// writes still in the outbox keep the local version. The echo of this
+// device's own insert is skipped while the row still has its temporary id:
+// replaying the insert swaps the server row in. Transactions older than the
+// loaded history are left to the totals, which the next pull refreshes.
+const applyRemoteChange = (userId: string, change: RemoteChange) =>
+  db.transaction(
+    "rw",
+    [db.accounts, db.transactions, db.outbox, db.syncState],
+    async () => {
+      const pending = await pendingRowIds(userId, change.table);
+      if (pending.has(change.id)) return false;
+
+      if (change.table === "accounts") {
+        if (change.row) {
+          await db.accounts.put(change.row);
+        } else {
+          // Deletes are not filtered by user on the server
+          const existing = await db.accounts.get(change.id);
+          if (existing?.user_id !== userId) return false;
+          await db.accounts.delete(change.id);
+        }
+      } else if (change.row) {
+        const local = await db.transactions
+          .where("client_id")
+          .equals(change.row.client_id)
+          .first();
+        if (local && local.id !== change.id) return false;
+        const state = await db.syncState.get(userId);
+        if (precedesCursor(change.row, state?.cursor ?? null)) {
+          if (!local) return false;
+          await db.transactions.delete(change.id);
+          return true;
+        }
+        await db.transactions.put(change.row);
+      } else {
+        const existing = await db.transactions.get(change.id);
+        if (existing?.user_id !== userId) return false;
+        await db.transactions.delete(change.id);
+      }
+      return true;
+    }
+  );
+
+// Streams changes other devices make to the user's accounts and
+// transactions into the local copy, then to onChange. Returns a function
+// that stops listening.
+export const subscribeToChanges = (
+  userId: string,
+  onChange: (change: RemoteChange) => void,
+  onStatus: (status: RealtimeStatus) => void
+) => {
+  const receive = (change: RemoteChange) =>
+    applyRemoteChange(userId, change)
+      .then((applied) => {
+        if (applied) onChange(change);
+      })
+      .catch((error) =>
+        console.error(`Failed to apply a change to ${change.table}:`, error)
+      );
+  const filter = `user_id=eq.${userId}`;
+
+  onStatus("connecting");
+  const channel = supabase
+    .channel(`changes:${userId}`)
+    .on<AccountRow>(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "accounts", filter },
+      (payload) =>
+        receive(
+          payload.eventType === "DELETE"
+            ? { table: "accounts", id: payload.old.id as string, row: null }
+            : {
+                table: "accounts",
+                id: payload.new.id,
+                row: mapAccount(payload.new),
+              }
+        )
+    )
+    .on<TransactionRow>(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "transactions", filter },
+      (payload) =>
+        receive(
+          payload.eventType === "DELETE"
+            ? { table: "transactions", id: payload.old.id as number, row: null }
+            : {
+                table: "transactions",
+                id: payload.new.id,
+                row: mapTransaction(payload.new),
+              }
+        )
+    )
+    .subscribe((status) =>
+      // The client retries on its own after errors and timeouts
+      onStatus(
+        status === "SUBSCRIBED"
+          ? "connected"
+          : status === "CLOSED"
+          ? "disconnected"
+          : "connecting"
+      )
+    );
+
+  return () => {
+    void supabase.removeChannel(channel);
+  };
+};
+
+// --- Local reads ---
+export const loadLocalAccounts = (userId: string) =>
+  db.accounts.where("user_id").equals(userId).sortBy("name");
+
+export const loadLocalProducts = (userId: string) =>
+  db.products.where("user_id").equals(userId).sortBy("name");
+
+export const loadLocalCategories = (userId: string) =>
+  db.categories.where("user_id").equals(userId).sortBy("name");
+
+export const loadLocalBudgets = (userId: string) =>
+  db.budgets.where("user_id").equals(userId).toArray();
+
+export const loadLocalSchedules = (userId: string) =>
+  db.schedules.where("user_id").equals(userId).sortBy("next_due");
+
+export const hasPendingWrites = async (userId: string) =>
+  (await db.outbox.where("user_id").equals(userId).count()) > 0;
+
+// Transactions with writes still waiting in the outbox
+export const loadPendingTransactionIds = async (userId: string) =>
+  (await pendingRowIds(userId, "transactions")) as Set<number>;
+
+// Missing ids come back undefined, as for rows that were deleted
+export const loadLocalTransactionsById = (ids: number[]) =>
+  db.transactions.bulkGet(ids);
+
+export const loadLocalTransactions = (userId: string) =>
+  db.transactions.where("user_id").equals(userId).reverse().sortBy("timestamp");
+
+export const loadSyncState = (userId: string) => db.syncState.get(userId);
@@ -0,0 +1,191 @@
+// src/undo.ts
+import {
+  db,
+  Account,
+  Budget,
+  Category,
+  Product,
+  Schedule,
+  Transaction,
+  nextLocalTransactionId,
+} from "./db";
+import {
+  queueAccountDelete,
+  queueAccountInsert,
+  queueAccountUpdate,
+  queueBatch,
+  queueBudgetDelete,
+  queueBudgetInsert,
+  queueBudgetUpdate,
+  queueCategoryInsert,
+  queueCategoryUpdate,
+  queueProductInsert,
+  queueProductUpdate,
+  queueRecategorize,
+  queueScheduleDelete,
+  queueScheduleInsert,
+  queueScheduleUpdate,
+  queueTransactionDelete,
+  queueTransactionInsert,
+  queueTransactionUpdate,
+} from "./sync";
+
+// Rows a change touched: `before` as they were, `created` the ids it added.
+// Transactions are keyed by client id, which survives a sync renumbering them.
+interface TableSnapshot<T, K> {
+  before: T[];
+  created: K[];
+}
+
+// Everything needed to reverse one store mutation, captured before it ran
+export interface UndoSnapshot {
+  accounts?: TableSnapshot<Account, string>;
+  products?: TableSnapshot<Product, string>;
+  categories?: TableSnapshot<Category, string>;
+  budgets?: TableSnapshot<Budget, string>;
+  schedules?: TableSnapshot<Schedule, string>;
+  transactions?: TableSnapshot<Transaction, string>;
+  // Category renames applied to every transaction, reversed newest first
+  recategorized?: { category_id: string; from: string; to: string }[];
+}
+
+// The fields that turn `current` back into `before`
+const revertedFields = <T extends object>(before: T, current: T) => {
+  const changes: Partial<T> = {};
+  const keys = new Set([
+    ...Object.keys(before),
+    ...Object.keys(current),
+  ]) as Set<keyof T>;
+  keys.forEach((key) => {
+    if (key === "updated_at") return;
+    if (JSON.stringify(before[key]) !== JSON.stringify(current[key])) {
+      changes[key] = before[key];
+    }
+  });
+  return Object.keys(changes).length > 0 ? changes : null;
+};
+
+// Rows with client ids go back under the same id
+const restoreRows = async <T extends { id: string }>(
+  snapshot: TableSnapshot<T, string> | undefined,
+  get: (id: string) => Promise<T | undefined>,
+  insert: (row: T) => Promise<void>,
+  update: (id: string, changes: Partial<T>) => Promise<void>
+) => {
+  for (const row of snapshot?.before ?? []) {
+    const current = await get(row.id);
+    if (!current) {
+      await insert({ ...row, updated_at: Date.now() });
+      continue;
+    }
+    const changes = revertedFields(row, current);
+    if (changes) await update(row.id, changes);
+  }
+};
+
+const findTransaction = (clientId: string) =>
+  db.transactions.where("client_id").equals(clientId).first();
+
+// Transactions are found by client id, since a sync may have renumbered them.
+// Ones that were deleted come back under new local ids, as Supabase assigns
+// the real ones, and links between restored rows follow them.
+const restoreTransactions = async (
+  snapshot: TableSnapshot<Transaction, string> | undefined
+) => {
+  if (!snapshot) return;
+  const current = new Map<string, Transaction>();
+  const newIds = new Map<number, number>(); // Id in the snapshot -> id now
+  for (const row of snapshot.before) {
+    const found = await findTransaction(row.client_id);
+    if (found) current.set(row.client_id, found);
+    newIds.set(row.id, found?.id ?? (await nextLocalTransactionId()));
+  }
+  // A link to a row outside the snapshot that has since been renumbered
+  // can't be followed, so the row keeps the link it has now
+  const relatedId = async (row: Transaction, now?: Transaction) => {
+    const related = row.related_transaction_id;
+    if (related === undefined) return undefined;
+    if (newIds.has(related)) return newIds.get(related);
+    return (await db.transactions.get(related))
+      ? related
+      : now?.related_transaction_id;
+  };
+
+  for (const row of snapshot.before) {
+    const now = current.get(row.client_id);
+    const restored = {
+      ...row,
+      id: newIds.get(row.id) as number,
+      related_transaction_id: await relatedId(row, now),
+    };
+    if (!now) {
+      await queueTransactionInsert(restored);
+      continue;
+    }
+    const changes = revertedFields(restored, now);
+    if (changes) await queueTransactionUpdate(now.id, changes);
+  }
+};
+
+// Puts back every row a change touched and removes the ones it created, as
+// one local write that then syncs like any other. Products and categories
+// have no delete op, so new ones are archived instead.
+export const restoreSnapshot = (snapshot: UndoSnapshot) =>
+  queueBatch(async () => {
+    await restoreRows(
+      snapshot.accounts,
+      (id) => db.accounts.get(id),
+      queueAccountInsert,
+      queueAccountUpdate
+    );
+    await restoreRows(
+      snapshot.products,
+      (id) => db.products.get(id),
+      queueProductInsert,
+      queueProductUpdate
+    );
+    await restoreRows(
+      snapshot.categories,
+      (id) => db.categories.get(id),
+      queueCategoryInsert,
+      queueCategoryUpdate
+    );
+    await restoreRows(
+      snapshot.budgets,
+      (id) => db.budgets.get(id),
+      queueBudgetInsert,
+      queueBudgetUpdate
+    );
+    await restoreRows(
+      snapshot.schedules,
+      (id) => db.schedules.get(id),
+      queueScheduleInsert,
+      queueScheduleUpdate
+    );
+    await restoreTransactions(snapshot.transactions);
+    for (const { category_id, from, to } of [
+      ...(snapshot.recategorized ?? []),
+    ].reverse()) {
+      await queueRecategorize(category_id, to, from);
+    }
+
+    for (const clientId of snapshot.transactions?.created ?? []) {
+      const row = await findTransaction(clientId);
+      if (row) await queueTransactionDelete(row.id);
+    }
+    for (const id of snapshot.schedules?.created ?? []) {
+      await queueScheduleDelete(id);
+    }
+    for (const id of snapshot.budgets?.created ?? []) {
+      await queueBudgetDelete(id);
+    }
+    for (const id of snapshot.categories?.created ?? []) {
+      await queueCategoryUpdate(id, { archived: true });
+    }
+    for (const id of snapshot.products?.created ?? []) {
+      await queueProductUpdate(id, { archived: true });
+    }
+    for (const id of snapshot.accounts?.created ?? []) {
+      await queueAccountDelete(id);
+    }
+  });
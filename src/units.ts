@@ -0,0 +1,47 @@
+// src/units.ts
+
+// Quantities are stored normalized: grams for mass units, pieces for "each".
+// Units only matter when a value is entered or displayed.
+export type Unit = "g" | "kg" | "oz" | "lb" | "each";
+export type MassUnit = Exclude<Unit, "each">;
+
+export const UNITS: { value: Unit; label: string }[] = [
+  { value: "g", label: "Grams (g)" },
+  { value: "kg", label: "Kilograms (kg)" },
+  { value: "oz", label: "Ounces (oz)" },
+  { value: "lb", label: "Pounds (lb)" },
+  { value: "each", label: "Each (per piece)" },
+];
+
+export const MASS_UNITS = UNITS.filter(
+  (unit): unit is { value: MassUnit; label: string } => unit.value !== "each"
+);
+
+const GRAMS_PER_UNIT: Record<MassUnit, number> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.349523125,
+  lb: 453.59237,
+};
+
+export const isCountUnit = (unit: Unit): unit is "each" => unit === "each";
+
+// The unit a value in `unit` is stored in
+export const baseUnitOf = (unit: Unit): "g" | "each" =>
+  isCountUnit(unit) ? "each" : "g";
+
+export const toBaseQuantity = (value: number, unit: Unit): number =>
+  isCountUnit(unit) ? value : value * GRAMS_PER_UNIT[unit];
+
+export const fromBaseQuantity = (value: number, unit: Unit): number =>
+  isCountUnit(unit) ? value : value / GRAMS_PER_UNIT[unit];
+
+// Converts a price per stored unit ($/g or $/piece) to a price per `unit`
+export const toPricePerUnit = (pricePerBase: number, unit: Unit): number =>
+  isCountUnit(unit) ? pricePerBase : pricePerBase * GRAMS_PER_UNIT[unit];
+
+// Display unit for a product: pieces stay pieces, mass follows the setting
+export const displayUnitFor = (
+  productUnit: Unit | undefined,
+  massUnit: MassUnit
+): Unit => (productUnit && isCountUnit(productUnit) ? "each" : massUnit);
@@ -0,0 +1,372 @@
+-- The tables the app syncs with, their constraints and row-level security.
+--
+-- Projects set up by hand before migrations were checked in already have
+-- accounts and transactions, with fewer columns and accounts.current_balance
+-- in place of opening_balance. Every statement here is safe to run against
+-- such a project: tables are created only if missing, and the columns and
+-- constraints added since are brought in one by one.
+--
+-- Dated before every other migration, since they all build on these tables.
+
+-- --- Accounts ---
+create table if not exists public.accounts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid()
+    references auth.users (id) on delete cascade,
+  name text not null,
+  type text not null,
+  opening_balance numeric not null default 0,
+  created_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'accounts'
+      and column_name = 'current_balance'
+  ) then
+    alter table public.accounts
+      rename column current_balance to opening_balance;
+  end if;
+end $$;
+
+alter table public.accounts
+  add column if not exists currency text not null default 'USD',
+  add column if not exists archived boolean not null default false,
+  add column if not exists updated_at timestamptz not null default now();
+
+-- --- Products ---
+create table if not exists public.products (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid()
+    references auth.users (id) on delete cascade,
+  name text not null,
+  unit text not null default 'g',
+  variant text,
+  archived boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint products_name_present check (length(trim(name)) > 0),
+  constraint products_unit_known check (unit in ('g', 'kg', 'oz', 'lb', 'each'))
+);
+
+-- --- Categories ---
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid()
+    references auth.users (id) on delete cascade,
+  name text not null,
+  icon text not null,
+  color text not null,
+  parent_id uuid references public.categories (id) on delete set null,
+  archived boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  -- Transactions refer to categories by name
+  constraint categories_user_name_key unique (user_id, name),
+  constraint categories_name_present check (length(trim(name)) > 0),
+  constraint categories_not_own_parent check (parent_id is distinct from id)
+);
+
+-- --- Budgets ---
+create table if not exists public.budgets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid()
+    references auth.users (id) on delete cascade,
+  category_id uuid not null
+    references public.categories (id) on delete cascade,
+  account_id uuid references public.accounts (id) on delete cascade,
+  period text not null,
+  amount numeric not null,
+  rollover boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint budgets_period_known check (period in ('weekly', 'monthly')),
+  constraint budgets_amount_positive check (amount > 0)
+);
+
+-- --- Transactions ---
+create table if not exists public.transactions (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null default auth.uid()
+    references auth.users (id) on delete cascade,
+  account_id uuid not null,
+  type text not null,
+  amount numeric not null,
+  weight_change numeric not null default 0,
+  notes text,
+  category text,
+  "timestamp" timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  related_transaction_id bigint
+);
+
+alter table public.transactions
+  add column if not exists updated_at timestamptz not null default now(),
+  add column if not exists adjustment_reason text,
+  add column if not exists product_id uuid,
+  add column if not exists unit text,
+  add column if not exists purpose text,
+  add column if not exists business_percent numeric,
+  add column if not exists splits jsonb;
+
+-- Constraints a hand-made table may lack, added only where missing. They are
+-- NOT VALID: enforced on every write from now on, without failing the
+-- migration over old rows that predate them.
+do $$
+declare
+  wanted record;
+begin
+  for wanted in
+    select * from (values
+      ('accounts_name_present',
+        'alter table public.accounts add constraint accounts_name_present
+          check (length(trim(name)) > 0)'),
+      ('accounts_currency_code',
+        'alter table public.accounts add constraint accounts_currency_code
+          check (currency ~ ''^[A-Z]{3}$'')'),
+      ('transactions_account_id_fkey',
+        -- Accounts with transactions are emptied or reassigned before deletion
+        'alter table public.transactions
+          add constraint transactions_account_id_fkey
+          foreign key (account_id) references public.accounts (id)
+          on delete restrict'),
+      ('transactions_related_transaction_id_fkey',
+        -- Deleting one leg of a transfer unlinks the other
+        'alter table public.transactions
+          add constraint transactions_related_transaction_id_fkey
+          foreign key (related_transaction_id)
+          references public.transactions (id) on delete set null'),
+      ('transactions_product_id_fkey',
+        'alter table public.transactions
+          add constraint transactions_product_id_fkey
+          foreign key (product_id) references public.products (id)
+          on delete set null'),
+      ('transactions_type_known',
+        'alter table public.transactions add constraint transactions_type_known
+          check (type in
+            (''Purchase'', ''Sale'', ''Expense'', ''Transfer'', ''Adjustment'')
+          )'),
+      ('transactions_unit_known',
+        'alter table public.transactions add constraint transactions_unit_known
+          check (unit in (''g'', ''kg'', ''oz'', ''lb'', ''each''))'),
+      ('transactions_purpose_known',
+        'alter table public.transactions
+          add constraint transactions_purpose_known
+          check (purpose in (''Personal'', ''Business'', ''Mixed''))'),
+      ('transactions_business_percent_range',
+        'alter table public.transactions
+          add constraint transactions_business_percent_range
+          check (business_percent between 0 and 100)'),
+      ('transactions_adjustment_reason_known',
+        'alter table public.transactions
+          add constraint transactions_adjustment_reason_known
+          check (adjustment_reason in (''Spillage'', ''Sample'',
+            ''Personal Use'', ''Scale Error'', ''Other''))'),
+      ('transactions_splits_array',
+        'alter table public.transactions
+          add constraint transactions_splits_array
+          check (splits is null or jsonb_typeof(splits) = ''array'')'),
+      ('transactions_not_own_pair',
+        'alter table public.transactions
+          add constraint transactions_not_own_pair
+          check (related_transaction_id is distinct from id)')
+    ) as c (name, ddl)
+  loop
+    if not exists (
+      select 1 from pg_constraint where conname = wanted.name
+    ) then
+      execute wanted.ddl || ' not valid';
+    end if;
+  end loop;
+end $$;
+
+-- --- Schedules ---
+create table if not exists public.schedules (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid()
+    references auth.users (id) on delete cascade,
+  name text not null,
+  type text not null,
+  amount numeric not null,
+  weight_change numeric not null default 0,
+  account_id uuid not null
+    references public.accounts (id) on delete cascade,
+  category text,
+  notes text,
+  product_id uuid references public.products (id) on delete set null,
+  unit text,
+  purpose text,
+  business_percent numeric,
+  splits jsonb,
+  frequency text not null,
+  "interval" integer not null default 1,
+  interval_unit text not null default 'month',
+  start_date timestamptz not null,
+  end_date timestamptz,
+  next_due timestamptz not null,
+  amount_variance numeric not null default 0,
+  auto_post boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint schedules_frequency_known
+    check (frequency in ('daily', 'weekly', 'monthly', 'custom')),
+  constraint schedules_interval_unit_known
+    check (interval_unit in ('day', 'week', 'month', 'year')),
+  constraint schedules_interval_positive check ("interval" > 0),
+  constraint schedules_amount_variance_range
+    check (amount_variance between 0 and 100),
+  constraint schedules_ends_after_start
+    check (end_date is null or end_date >= start_date)
+);
+
+-- --- Indexes ---
+-- Every query is scoped to a user; transactions are also pulled in id order
+-- and listed newest first
+create index if not exists accounts_user_id_idx on public.accounts (user_id);
+create index if not exists products_user_id_idx on public.products (user_id);
+create index if not exists categories_user_id_idx
+  on public.categories (user_id);
+create index if not exists budgets_user_id_idx on public.budgets (user_id);
+create index if not exists schedules_user_id_idx on public.schedules (user_id);
+create index if not exists transactions_user_id_id_idx
+  on public.transactions (user_id, id);
+create index if not exists transactions_user_id_timestamp_idx
+  on public.transactions (user_id, "timestamp" desc);
+create index if not exists transactions_account_id_idx
+  on public.transactions (account_id);
+create index if not exists transactions_related_transaction_id_idx
+  on public.transactions (related_transaction_id);
+create index if not exists transactions_product_id_idx
+  on public.transactions (product_id);
+
+-- --- Row-level security ---
+-- Each user sees and writes only their own rows, and every reference a row
+-- holds must point at a row of the same user's: a foreign key alone would
+-- accept another user's account, product, category or transaction.
+-- References are qualified with the table being written, since the row
+-- looked up may have a column of the same name.
+
+-- A policy can't read the table it is on: Postgres would apply the policy
+-- again to that read. References within one table are checked here, as the
+-- table owner, instead.
+create or replace function public.owns_category(p_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from categories c
+    where c.id = p_id and c.user_id = (select auth.uid())
+  )
+$$;
+
+create or replace function public.owns_transaction(p_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from transactions t
+    where t.id = p_id and t.user_id = (select auth.uid())
+  )
+$$;
+
+revoke execute on function public.owns_category(uuid) from public;
+revoke execute on function public.owns_transaction(bigint) from public;
+grant execute on function public.owns_category(uuid) to authenticated;
+grant execute on function public.owns_transaction(bigint) to authenticated;
+
+alter table public.accounts enable row level security;
+alter table public.products enable row level security;
+alter table public.categories enable row level security;
+alter table public.budgets enable row level security;
+alter table public.schedules enable row level security;
+alter table public.transactions enable row level security;
+
+do $$
+declare
+  owned record;
+begin
+  for owned in
+    select * from (values
+      ('accounts', 'true'),
+      ('products', 'true'),
+      ('categories',
+        'categories.parent_id is null
+          or public.owns_category(categories.parent_id)'),
+      ('budgets',
+        'exists (
+          select 1 from public.categories c
+          where c.id = budgets.category_id
+            and c.user_id = (select auth.uid()))
+        and (budgets.account_id is null or exists (
+          select 1 from public.accounts a
+          where a.id = budgets.account_id
+            and a.user_id = (select auth.uid())))'),
+      ('schedules',
+        'exists (
+          select 1 from public.accounts a
+          where a.id = schedules.account_id
+            and a.user_id = (select auth.uid()))
+        and (schedules.product_id is null or exists (
+          select 1 from public.products p
+          where p.id = schedules.product_id
+            and p.user_id = (select auth.uid())))'),
+      ('transactions',
+        'exists (
+          select 1 from public.accounts a
+          where a.id = transactions.account_id
+            and a.user_id = (select auth.uid()))
+        and (transactions.product_id is null or exists (
+          select 1 from public.products p
+          where p.id = transactions.product_id
+            and p.user_id = (select auth.uid())))
+        and (transactions.related_transaction_id is null
+          or public.owns_transaction(transactions.related_transaction_id))')
+    ) as policy (table_name, references_owned)
+  loop
+    execute format(
+      'drop policy if exists "Own rows" on public.%I',
+      owned.table_name
+    );
+    execute format(
+      'create policy "Own rows" on public.%I for all to authenticated
+        using (user_id = (select auth.uid()))
+        with check (user_id = (select auth.uid()) and (%s))',
+      owned.table_name,
+      owned.references_owned
+    );
+  end loop;
+end $$;
+
+-- --- Realtime ---
+-- Other devices hear about account and transaction changes as they happen
+do $$
+declare
+  t text;
+begin
+  if not exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+  then
+    return;
+  end if;
+  foreach t in array array['accounts', 'transactions'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime'
+        and schemaname = 'public'
+        and tablename = t
+    ) then
+      execute format(
+        'alter publication supabase_realtime add table public.%I',
+        t
+      );
+    end if;
+  end loop;
+end $$;
@@ -0,0 +1,133 @@
+-- Summary aggregates, computed in Postgres so the headline numbers don't
+-- depend on the app having every transaction in hand.
+--
+-- Amounts stay in each account's own currency and are bucketed by the
+-- caller's local day: exchange rates live on the device, and the app converts
+-- each bucket at the rate of its day just as it converts single rows. Longer
+-- periods (weeks, months, years) are sums of days.
+
+-- Each account's balance: its opening balance plus everything posted to it
+create or replace view public.account_balances
+with (security_invoker = on) as
+select
+  a.id as account_id,
+  a.user_id,
+  a.currency,
+  a.opening_balance + coalesce(sum(t.amount), 0) as balance,
+  count(t.id) as transaction_count
+from public.accounts a
+left join public.transactions t on t.account_id = a.id
+group by a.id;
+
+-- Totals per day, account and type. Money in and out are kept apart so a
+-- refund doesn't hide the spending it offsets; the mass_ columns leave out
+-- products counted in pieces, as the dashboard's weight and $/g figures do.
+create or replace function public.daily_totals(
+  p_time_zone text default 'UTC',
+  p_from timestamptz default null,
+  p_to timestamptz default null
+)
+returns table (
+  day date,
+  account_id uuid,
+  type text,
+  amount numeric,
+  inflow numeric,
+  outflow numeric,
+  weight_change numeric,
+  mass_amount numeric,
+  mass_weight_change numeric,
+  mass_weight_moved numeric,
+  transaction_count bigint
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    (t."timestamp" at time zone p_time_zone)::date,
+    t.account_id,
+    t.type::text,
+    sum(t.amount)::numeric,
+    coalesce(sum(t.amount) filter (where t.amount > 0), 0)::numeric,
+    coalesce(sum(-t.amount) filter (where t.amount < 0), 0)::numeric,
+    sum(t.weight_change)::numeric,
+    coalesce(
+      sum(t.amount) filter (where p.unit is distinct from 'each'),
+      0
+    )::numeric,
+    coalesce(
+      sum(t.weight_change) filter (where p.unit is distinct from 'each'),
+      0
+    )::numeric,
+    coalesce(
+      sum(abs(t.weight_change)) filter (where p.unit is distinct from 'each'),
+      0
+    )::numeric,
+    count(*)
+  from transactions t
+  left join products p on p.id = t.product_id
+  where t.user_id = auth.uid()
+    and (p_from is null or t."timestamp" >= p_from)
+    and (p_to is null or t."timestamp" < p_to)
+  group by 1, 2, 3
+$$;
+
+-- Totals per day, account, type, category and purpose, counting split
+-- transactions line by line
+create or replace function public.daily_category_totals(
+  p_time_zone text default 'UTC',
+  p_from timestamptz default null,
+  p_to timestamptz default null
+)
+returns table (
+  day date,
+  account_id uuid,
+  type text,
+  category text,
+  purpose text,
+  business_percent numeric,
+  amount numeric
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    (t."timestamp" at time zone p_time_zone)::date,
+    t.account_id,
+    t.type::text,
+    line.category,
+    line.purpose,
+    line.business_percent,
+    sum(line.amount)
+  from transactions t
+  cross join lateral (
+    select
+      s ->> 'category' as category,
+      s ->> 'purpose' as purpose,
+      (s ->> 'business_percent')::numeric as business_percent,
+      (s ->> 'amount')::numeric as amount
+    from jsonb_array_elements(coalesce(t.splits, '[]'::jsonb)) s
+    union all
+    select
+      t.category::text,
+      t.purpose::text,
+      t.business_percent::numeric,
+      t.amount::numeric
+    where coalesce(jsonb_array_length(t.splits), 0) = 0
+  ) line
+  where t.user_id = auth.uid()
+    and (p_from is null or t."timestamp" >= p_from)
+    and (p_to is null or t."timestamp" < p_to)
+  group by 1, 2, 3, 4, 5, 6
+$$;
+
+grant select on public.account_balances to authenticated;
+grant execute on function public.daily_totals(text, timestamptz, timestamptz)
+  to authenticated;
+grant execute on function
+  public.daily_category_totals(text, timestamptz, timestamptz)
+  to authenticated;
@@ -0,0 +1,89 @@
+-- An append-only record of every change to a transaction: what the row was
+-- before, what it became, who made the change and when.
+--
+-- A trigger writes it, so nothing that changes a transaction (the app, the
+-- SQL editor, another client) can skip it, and users can read their own
+-- trail but not alter it. Changes made before this migration aren't recorded.
+
+create table if not exists public.transaction_audit (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- No foreign keys to the transaction or its accounts: the trail outlives
+  -- the rows it describes
+  transaction_id bigint not null,
+  account_id uuid not null, -- After the change; before it, for deletes
+  previous_account_id uuid, -- Set when the change moved the row
+  action text not null,
+  before jsonb, -- Null for inserts
+  after jsonb, -- Null for deletes
+  changed_by uuid, -- Null when the database was changed directly
+  changed_by_email text,
+  changed_at timestamptz not null default now(),
+  constraint transaction_audit_action_known
+    check (action in ('insert', 'update', 'delete'))
+);
+
+create index if not exists transaction_audit_transaction_idx
+  on public.transaction_audit (user_id, transaction_id, id);
+create index if not exists transaction_audit_account_idx
+  on public.transaction_audit (account_id, id);
+create index if not exists transaction_audit_previous_account_idx
+  on public.transaction_audit (previous_account_id, id)
+  where previous_account_id is not null;
+
+-- Runs as the table owner so it can write past row-level security. The rows
+-- are read as jsonb, which is null on the side an insert or delete lacks.
+create or replace function public.record_transaction_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  before_row jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  after_row jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  current_row jsonb := coalesce(after_row, before_row);
+begin
+  -- Writes that only touch the version stamp change nothing worth showing
+  if tg_op = 'UPDATE'
+    and before_row - 'updated_at' = after_row - 'updated_at' then
+    return null;
+  end if;
+
+  insert into transaction_audit (
+    user_id, transaction_id, account_id, previous_account_id, action,
+    before, after, changed_by, changed_by_email
+  ) values (
+    (current_row ->> 'user_id')::uuid,
+    (current_row ->> 'id')::bigint,
+    (current_row ->> 'account_id')::uuid,
+    case
+      when tg_op = 'UPDATE'
+        and before_row -> 'account_id' <> after_row -> 'account_id'
+      then (before_row ->> 'account_id')::uuid
+    end,
+    lower(tg_op),
+    before_row,
+    after_row,
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists transactions_audit on public.transactions;
+create trigger transactions_audit
+  after insert or update or delete on public.transactions
+  for each row execute function public.record_transaction_audit();
+
+-- Readable by its owner, writable only through the trigger
+alter table public.transaction_audit enable row level security;
+
+drop policy if exists "Own rows" on public.transaction_audit;
+create policy "Own rows" on public.transaction_audit for select to authenticated
+  using (user_id = (select auth.uid()));
+
+revoke insert, update, delete, truncate on public.transaction_audit
+  from anon, authenticated;
+grant select on public.transaction_audit to authenticated;
@@ -0,0 +1,32 @@
+-- A key the device that creates a transaction generates for it, so an
+-- insert whose response was lost can be replayed without adding the row a
+-- second time: the replay finds the row the first attempt made.
+--
+-- Rows from before the column existed get one derived from their id, which
+-- is what the app derives for the copies it already holds. The backfill is
+-- not an edit anyone made, so it stays out of the audit log.
+
+alter table public.transactions add column if not exists client_id uuid;
+
+alter table public.transactions disable trigger transactions_audit;
+
+update public.transactions
+set client_id =
+  ('00000000-0000-4000-8000-' || lpad(to_hex(id), 12, '0'))::uuid
+where client_id is null;
+
+alter table public.transactions enable trigger transactions_audit;
+
+alter table public.transactions
+  alter column client_id set default gen_random_uuid(),
+  alter column client_id set not null;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'transactions_client_id_key'
+  ) then
+    alter table public.transactions
+      add constraint transactions_client_id_key unique (user_id, client_id);
+  end if;
+end $$;
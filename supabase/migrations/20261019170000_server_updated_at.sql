@@ -0,0 +1,37 @@
+-- updated_at is the row's version: sync compares it with the version a
+-- device last saw to tell whether another device changed the row since.
+-- Only the database's clock sets it, so a device with a wrong clock can't
+-- make its writes look newer or older than they are.
+
+create or replace function public.stamp_updated_at()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'accounts', 'products', 'categories', 'budgets', 'schedules',
+    'transactions'
+  ] loop
+    execute format(
+      'drop trigger if exists %I on public.%I',
+      t || '_updated_at',
+      t
+    );
+    execute format(
+      'create trigger %I before insert or update on public.%I
+        for each row execute function public.stamp_updated_at()',
+      t || '_updated_at',
+      t
+    );
+  end loop;
+end $$;
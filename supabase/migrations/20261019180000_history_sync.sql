@@ -0,0 +1,48 @@
+-- Lets a device hold only the newer part of the transaction history: it
+-- pulls what changed since its last pull, loads older pages as they are
+-- scrolled to, and takes the rest as totals.
+
+-- Changes are pulled in the order they were stamped
+create index if not exists transactions_user_id_updated_at_idx
+  on public.transactions (user_id, updated_at, id);
+
+-- What the transactions before a point in the history add up to, per account
+-- and product, so balances and stock figures count rows the device hasn't
+-- loaded. The point is a (timestamp, id) pair, as the history is ordered.
+create or replace function public.totals_before(
+  p_timestamp timestamptz,
+  p_id bigint
+)
+returns table (
+  account_id uuid,
+  product_id uuid,
+  amount numeric,
+  weight_change numeric,
+  sales_amount numeric,
+  sales_weight numeric,
+  transaction_count bigint
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    t.account_id,
+    t.product_id,
+    sum(t.amount)::numeric,
+    sum(t.weight_change)::numeric,
+    coalesce(sum(t.amount) filter (where t.type = 'Sale'), 0)::numeric,
+    coalesce(
+      sum(abs(t.weight_change)) filter (where t.type = 'Sale'),
+      0
+    )::numeric,
+    count(*)
+  from transactions t
+  where t.user_id = auth.uid()
+    and (t."timestamp", t.id) < (p_timestamp, p_id)
+  group by 1, 2
+$$;
+
+grant execute on function public.totals_before(timestamptz, bigint)
+  to authenticated;
@@ -0,0 +1,24 @@
+-- Deleting an account that still has transactions moves them to another
+-- account first. It runs on the server, as one statement over every row, so
+-- transactions a device never loaded move with the rest and the delete isn't
+-- refused over them.
+create or replace function public.delete_account(
+  p_id uuid,
+  p_reassign_to uuid default null
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if p_reassign_to is not null then
+    update transactions
+    set account_id = p_reassign_to
+    where account_id = p_id and user_id = auth.uid();
+  end if;
+  delete from accounts where id = p_id and user_id = auth.uid();
+end;
+$$;
+
+grant execute on function public.delete_account(uuid, uuid) to authenticated;
@@ -0,0 +1,40 @@
+-- Renaming or merging a category rewrites the name on every transaction
+-- that uses it, and on every split line. Transactions refer to categories by
+-- name, and a device holds only part of the history, so the rewrite runs
+-- here as one statement over all of the user's rows.
+create or replace function public.recategorize_transactions(
+  p_from text,
+  p_to text
+)
+returns void
+language sql
+security invoker
+set search_path = public
+as $$
+  update transactions t
+  set
+    category = case when t.category = p_from then p_to else t.category end,
+    splits = case
+      when t.splits @> jsonb_build_array(jsonb_build_object('category', p_from))
+      then (
+        select jsonb_agg(
+          case
+            when l.line ->> 'category' = p_from
+            then jsonb_set(l.line, '{category}', to_jsonb(p_to))
+            else l.line
+          end
+          order by l.position
+        )
+        from jsonb_array_elements(t.splits) with ordinality as l (line, position)
+      )
+      else t.splits
+    end
+  where t.user_id = auth.uid()
+    and (
+      t.category = p_from
+      or t.splits @> jsonb_build_array(jsonb_build_object('category', p_from))
+    )
+$$;
+
+grant execute on function public.recategorize_transactions(text, text)
+  to authenticated;
@@ -0,0 +1,306 @@
+-- Cost of goods sold and budget rollover depend on the whole history, while
+-- a device holds only its newer part. These serve what the older part adds,
+-- from the same (timestamp, id) point as totals_before, and the app carries
+-- on from there over the rows it has.
+
+-- The rate in effect on a day, as the app's findRate picks it: the latest
+-- one dated on or before the day, or the earliest when the day predates
+-- them all. Rates live on the device, so the caller passes its table in.
+create or replace function public.exchange_rate(
+  p_rates jsonb,
+  p_from text,
+  p_to text,
+  p_day date
+)
+returns numeric
+language sql
+immutable
+set search_path = public
+as $$
+  select case
+    when p_from = p_to then 1
+    else (
+      select case
+        when q ->> 'from' = p_from then (q ->> 'rate')::numeric
+        else 1 / (q ->> 'rate')::numeric
+      end
+      from jsonb_array_elements(p_rates) q
+      where (q ->> 'rate')::numeric > 0
+        and (
+          (q ->> 'from' = p_from and q ->> 'to' = p_to)
+          or (q ->> 'from' = p_to and q ->> 'to' = p_from)
+        )
+      order by
+        q ->> 'date' <= p_day::text desc,
+        case when q ->> 'date' <= p_day::text then q ->> 'date' end desc
+          nulls last,
+        q ->> 'date'
+      limit 1
+    )
+  end
+$$;
+
+-- Costing replays keep their place in one jsonb value: the lots left per
+-- product, each product's last unit cost and the running totals. These two
+-- steps match addLot and consume in src/inventory.ts.
+create or replace function public.costing_add_lot(
+  p_state jsonb,
+  p_product text,
+  p_weight numeric,
+  p_unit_cost numeric,
+  p_method text
+)
+returns jsonb
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  lots jsonb := coalesce(p_state #> array['lots', p_product], '[]');
+  pooled_weight numeric;
+  total numeric;
+begin
+  if p_method = 'average' and jsonb_array_length(lots) > 0 then
+    pooled_weight := (lots -> 0 ->> 'weight')::numeric;
+    total := pooled_weight + p_weight;
+    lots := jsonb_build_array(jsonb_build_object(
+      'weight', total,
+      'unit_cost', case
+        when total > 0 then (
+          pooled_weight * (lots -> 0 ->> 'unit_cost')::numeric
+          + p_weight * p_unit_cost
+        ) / total
+        else p_unit_cost
+      end
+    ));
+  else
+    lots := lots || jsonb_build_array(
+      jsonb_build_object('weight', p_weight, 'unit_cost', p_unit_cost)
+    );
+  end if;
+  return jsonb_set(
+    jsonb_set(p_state, array['lots', p_product], lots),
+    array['last_unit_costs', p_product],
+    to_jsonb(p_unit_cost)
+  );
+end;
+$$;
+
+-- Takes weight from the oldest lots and leaves its cost under "cost"
+create or replace function public.costing_consume(
+  p_state jsonb,
+  p_product text,
+  p_weight numeric
+)
+returns jsonb
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  state jsonb := p_state;
+  lots jsonb := coalesce(p_state #> array['lots', p_product], '[]');
+  last_cost numeric := (p_state #>> array['last_unit_costs', p_product])::numeric;
+  remaining numeric := p_weight;
+  cost numeric := 0;
+  lot_weight numeric;
+  lot_cost numeric;
+  taken numeric;
+begin
+  while remaining > 0 and jsonb_array_length(lots) > 0 loop
+    lot_weight := (lots -> 0 ->> 'weight')::numeric;
+    lot_cost := (lots -> 0 ->> 'unit_cost')::numeric;
+    taken := least(lot_weight, remaining);
+    cost := cost + taken * lot_cost;
+    lot_weight := lot_weight - taken;
+    remaining := remaining - taken;
+    last_cost := lot_cost;
+    if lot_weight <= 0 then
+      lots := lots - 0;
+    else
+      lots := jsonb_set(lots, '{0,weight}', to_jsonb(lot_weight));
+    end if;
+  end loop;
+  if remaining > 0 then
+    state := jsonb_set(
+      state,
+      '{uncosted_weight}',
+      to_jsonb((state ->> 'uncosted_weight')::numeric + remaining)
+    );
+    cost := cost + remaining * coalesce(last_cost, 0);
+  end if;
+  state := jsonb_set(state, array['lots', p_product], lots);
+  if last_cost is not null then
+    state := jsonb_set(
+      state,
+      array['last_unit_costs', p_product],
+      to_jsonb(last_cost)
+    );
+  end if;
+  return jsonb_set(state, '{cost}', to_jsonb(cost));
+end;
+$$;
+
+-- Replays the inventory movements before a point in the history, in the
+-- base currency, as computeCosting does. Amounts convert at the rate of
+-- their local day; currencies with no rate count 1:1 and are listed.
+create or replace function public.costing_before(
+  p_timestamp timestamptz,
+  p_id bigint,
+  p_method text,
+  p_base_currency text,
+  p_rates jsonb,
+  p_time_zone text default 'UTC'
+)
+returns jsonb
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  state jsonb := jsonb_build_object(
+    'lots', '{}'::jsonb,
+    'last_unit_costs', '{}'::jsonb,
+    'revenue', 0,
+    'cost_of_goods_sold', 0,
+    'shrinkage_cost', 0,
+    'uncosted_weight', 0,
+    'purchased_weight', 0,
+    'purchased_cost', 0,
+    'missing_rates', '[]'::jsonb
+  );
+  r record;
+  rate numeric;
+  amount numeric;
+  unit_cost numeric;
+begin
+  for r in
+    select
+      t.type,
+      t.amount,
+      t.weight_change,
+      coalesce(t.product_id::text, '') as product,
+      coalesce(p.unit = 'each', false) as counted,
+      a.currency,
+      (t."timestamp" at time zone p_time_zone)::date as day
+    from transactions t
+    join accounts a on a.id = t.account_id
+    left join products p on p.id = t.product_id
+    where t.user_id = auth.uid()
+      and (t."timestamp", t.id) < (p_timestamp, p_id)
+      and t.type in ('Purchase', 'Sale', 'Adjustment')
+    order by t."timestamp", t.created_at, t.id
+  loop
+    rate := exchange_rate(p_rates, r.currency, p_base_currency, r.day);
+    if rate is null then
+      if not (state -> 'missing_rates') ? r.currency then
+        state := jsonb_set(
+          state,
+          '{missing_rates}',
+          (state -> 'missing_rates') || to_jsonb(r.currency)
+        );
+      end if;
+      rate := 1;
+    end if;
+    amount := r.amount * rate;
+
+    if r.type = 'Purchase' and r.weight_change > 0 then
+      if not r.counted then
+        state := state || jsonb_build_object(
+          'purchased_weight',
+          (state ->> 'purchased_weight')::numeric + r.weight_change,
+          'purchased_cost',
+          (state ->> 'purchased_cost')::numeric + abs(amount)
+        );
+      end if;
+      state := costing_add_lot(
+        state, r.product, r.weight_change, abs(amount) / r.weight_change,
+        p_method
+      );
+    elsif r.type = 'Sale' then
+      state := costing_consume(state, r.product, abs(r.weight_change));
+      state := state || jsonb_build_object(
+        'revenue', (state ->> 'revenue')::numeric + amount,
+        'cost_of_goods_sold',
+        (state ->> 'cost_of_goods_sold')::numeric + (state ->> 'cost')::numeric
+      );
+    elsif r.type = 'Adjustment' and r.weight_change < 0 then
+      state := costing_consume(state, r.product, -r.weight_change);
+      state := state || jsonb_build_object(
+        'shrinkage_cost',
+        (state ->> 'shrinkage_cost')::numeric + (state ->> 'cost')::numeric
+      );
+    elsif r.type = 'Adjustment' and r.weight_change > 0 then
+      -- Found stock is valued at what stock currently costs
+      select sum(w * c) / nullif(sum(w), 0)
+      into unit_cost
+      from (
+        select (l ->> 'weight')::numeric w, (l ->> 'unit_cost')::numeric c
+        from jsonb_array_elements(
+          coalesce(state #> array['lots', r.product], '[]')
+        ) l
+      ) lot;
+      state := costing_add_lot(
+        state,
+        r.product,
+        r.weight_change,
+        coalesce(
+          unit_cost,
+          (state #>> array['last_unit_costs', r.product])::numeric,
+          0
+        ),
+        p_method
+      );
+    end if;
+  end loop;
+  return state - 'cost';
+end;
+$$;
+
+-- Expense spending before the point, per local day, account and category,
+-- counting split transactions line by line, for budgets and their rollover
+create or replace function public.expense_totals_before(
+  p_timestamp timestamptz,
+  p_id bigint,
+  p_time_zone text default 'UTC'
+)
+returns table (
+  day date,
+  account_id uuid,
+  category text,
+  amount numeric
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    (t."timestamp" at time zone p_time_zone)::date,
+    t.account_id,
+    line.category,
+    sum(line.amount)
+  from transactions t
+  cross join lateral (
+    select
+      s ->> 'category' as category,
+      (s ->> 'amount')::numeric as amount
+    from jsonb_array_elements(coalesce(t.splits, '[]'::jsonb)) s
+    union all
+    select t.category::text, t.amount::numeric
+    where coalesce(jsonb_array_length(t.splits), 0) = 0
+  ) line
+  where t.user_id = auth.uid()
+    and t.type = 'Expense'
+    and line.category is not null
+    and (t."timestamp", t.id) < (p_timestamp, p_id)
+  group by 1, 2, 3
+$$;
+
+grant execute on function
+  public.costing_before(timestamptz, bigint, text, text, jsonb, text)
+  to authenticated;
+grant execute on function
+  public.expense_totals_before(timestamptz, bigint, text)
+  to authenticated;
@@ -0,0 +1,5 @@
+-- Devices pull deletes from the audit trail by when they were made, reaching
+-- back over writes that committed late, rather than by entry id.
+create index if not exists transaction_audit_deletes_changed_at_idx
+  on public.transaction_audit (user_id, changed_at, id)
+  where action = 'delete';
@@ -0,0 +1,87 @@
+-- Demo data for a local database; `supabase db reset` loads it after the
+-- migrations. Sign in as demo@flowly.local with the password "flowly-demo".
+-- Categories are left to the app, which creates its defaults on first load.
+
+insert into auth.users (
+  instance_id, id, aud, role, email, encrypted_password,
+  email_confirmed_at, raw_app_meta_data, raw_user_meta_data,
+  created_at, updated_at,
+  -- The auth server can't read these as NULL
+  confirmation_token, recovery_token, email_change_token_new, email_change
+) values (
+  '00000000-0000-0000-0000-000000000000',
+  'd0d0d0d0-0000-4000-8000-000000000001',
+  'authenticated',
+  'authenticated',
+  'demo@flowly.local',
+  crypt('flowly-demo', gen_salt('bf')),
+  now(),
+  '{"provider": "email", "providers": ["email"]}',
+  '{}',
+  now(),
+  now(),
+  '',
+  '',
+  '',
+  ''
+);
+
+insert into auth.identities (
+  id, user_id, provider_id, provider, identity_data,
+  last_sign_in_at, created_at, updated_at
+) values (
+  gen_random_uuid(),
+  'd0d0d0d0-0000-4000-8000-000000000001',
+  'd0d0d0d0-0000-4000-8000-000000000001',
+  'email',
+  '{"sub": "d0d0d0d0-0000-4000-8000-000000000001", "email": "demo@flowly.local"}',
+  now(),
+  now(),
+  now()
+);
+
+insert into public.accounts (id, user_id, name, type, opening_balance, currency)
+values
+  ('a0a0a0a0-0000-4000-8000-000000000001',
+    'd0d0d0d0-0000-4000-8000-000000000001', 'Cash', 'Cash', 500, 'USD'),
+  ('a0a0a0a0-0000-4000-8000-000000000002',
+    'd0d0d0d0-0000-4000-8000-000000000001', 'CashApp', 'CashApp', 0, 'USD');
+
+insert into public.products (id, user_id, name, unit)
+values
+  ('b0b0b0b0-0000-4000-8000-000000000001',
+    'd0d0d0d0-0000-4000-8000-000000000001', 'Coffee beans', 'g');
+
+insert into public.transactions (
+  id, user_id, account_id, type, amount, weight_change, category, notes,
+  product_id, purpose, "timestamp", related_transaction_id
+) values
+  (1, 'd0d0d0d0-0000-4000-8000-000000000001',
+    'a0a0a0a0-0000-4000-8000-000000000001', 'Purchase', -120, 1000, null,
+    'Bulk order', 'b0b0b0b0-0000-4000-8000-000000000001', 'Business',
+    now() - interval '6 days', null),
+  (2, 'd0d0d0d0-0000-4000-8000-000000000001',
+    'a0a0a0a0-0000-4000-8000-000000000001', 'Sale', 45, -250, null, null,
+    'b0b0b0b0-0000-4000-8000-000000000001', 'Business',
+    now() - interval '4 days', null),
+  (3, 'd0d0d0d0-0000-4000-8000-000000000001',
+    'a0a0a0a0-0000-4000-8000-000000000002', 'Sale', 60, -300, null, null,
+    'b0b0b0b0-0000-4000-8000-000000000001', 'Business',
+    now() - interval '2 days', null),
+  (4, 'd0d0d0d0-0000-4000-8000-000000000001',
+    'a0a0a0a0-0000-4000-8000-000000000001', 'Expense', -18.5, 0, 'Food',
+    'Lunch', null, 'Personal', now() - interval '1 day', null),
+  (5, 'd0d0d0d0-0000-4000-8000-000000000001',
+    'a0a0a0a0-0000-4000-8000-000000000002', 'Transfer', -50, 0, null,
+    'Cash out', null, null, now() - interval '1 hour', null),
+  (6, 'd0d0d0d0-0000-4000-8000-000000000001',
+    'a0a0a0a0-0000-4000-8000-000000000001', 'Transfer', 50, 0, null,
+    'Cash out', null, null, now() - interval '1 hour', 5);
+
+-- Links the outgoing leg back to the incoming one, then moves the identity
+-- past the ids used above
+update public.transactions set related_transaction_id = 6 where id = 5;
+select setval(
+  pg_get_serial_sequence('public.transactions', 'id'),
+  (select max(id) from public.transactions)
+);
@@ -0,0 +1,274 @@
+// supabase/tests/migrations.test.ts
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { PGlite, Transaction } from "@electric-sql/pglite";
+import { beforeAll, describe, expect, it } from "vitest";
+
+const MIGRATIONS = fileURLToPath(new URL("../migrations", import.meta.url));
+
+// The parts of a Supabase project the migrations build on: the auth schema,
+// the API roles and the functions that read the caller from the request
+const SUPABASE_SHIM = `
+  create role anon nologin;
+  create role authenticated nologin;
+  grant usage on schema public to anon, authenticated;
+  alter default privileges in schema public
+    grant all on tables to anon, authenticated;
+  alter default privileges in schema public
+    grant all on sequences to anon, authenticated;
+
+  create schema auth;
+  grant usage on schema auth to anon, authenticated;
+  create table auth.users (id uuid primary key, email text);
+
+  create function auth.jwt() returns jsonb language sql stable as $$
+    select nullif(current_setting('request.jwt.claims', true), '')::jsonb
+  $$;
+  create function auth.uid() returns uuid language sql stable as $$
+    select (auth.jwt() ->> 'sub')::uuid
+  $$;
+`;
+
+const ALICE = "00000000-0000-4000-8000-00000000a11c";
+const BOB = "00000000-0000-4000-8000-000000000b0b";
+
+let db: PGlite;
+
+// Runs queries as a signed-in user, under row-level security
+const asUser = <T>(userId: string, queries: (tx: Transaction) => Promise<T>) =>
+  db.transaction(async (tx) => {
+    await tx.query("select set_config('request.jwt.claims', $1, true)", [
+      JSON.stringify({ sub: userId, role: "authenticated" }),
+    ]);
+    await tx.exec("set local role authenticated");
+    return queries(tx);
+  });
+
+const insertAccount = (tx: Transaction) =>
+  tx
+    .query<{ id: string }>(
+      "insert into public.accounts (name, type) values ('Cash', 'cash') returning id"
+    )
+    .then(({ rows }) => rows[0].id);
+
+const insertTransaction = (
+  tx: Transaction,
+  accountId: string,
+  relatedId: number | null = null
+) =>
+  tx
+    .query<{ id: number }>(
+      `insert into public.transactions
+        (account_id, type, amount, related_transaction_id)
+      values ($1, 'Transfer', -10, $2) returning id`,
+      [accountId, relatedId]
+    )
+    .then(({ rows }) => rows[0].id);
+
+beforeAll(async () => {
+  db = new PGlite();
+  await db.exec(SUPABASE_SHIM);
+  for (const file of readdirSync(MIGRATIONS).sort()) {
+    await db.exec(readFileSync(join(MIGRATIONS, file), "utf8"));
+  }
+  await db.query("insert into auth.users (id) values ($1), ($2)", [ALICE, BOB]);
+}, 60_000);
+
+describe("row-level security", () => {
+  it("lets a user insert and update linked transactions", async () => {
+    await asUser(ALICE, async (tx) => {
+      const accountId = await insertAccount(tx);
+      const outgoing = await insertTransaction(tx, accountId);
+      const incoming = await insertTransaction(tx, accountId, outgoing);
+      await tx.query(
+        "update public.transactions set related_transaction_id = $1 where id = $2",
+        [incoming, outgoing]
+      );
+      const { rows } = await tx.query<{ amount: string }>(
+        "update public.transactions set amount = -12 where id = $1 returning amount",
+        [outgoing]
+      );
+      expect(rows).toHaveLength(1);
+    });
+  });
+
+  it("lets a user nest their own categories", async () => {
+    await asUser(ALICE, async (tx) => {
+      const { rows } = await tx.query<{ id: string }>(
+        "insert into public.categories (name, icon, color) values ('Food', 'utensils', '#f00') returning id"
+      );
+      await tx.query(
+        "insert into public.categories (name, icon, color, parent_id) values ('Groceries', 'cart', '#0f0', $1)",
+        [rows[0].id]
+      );
+      await tx.query(
+        "update public.categories set name = 'Eating' where id = $1",
+        [rows[0].id]
+      );
+    });
+  });
+
+  it("rejects links to another user's rows", async () => {
+    const { transactionId, categoryId } = await asUser(BOB, async (tx) => {
+      const accountId = await insertAccount(tx);
+      const { rows } = await tx.query<{ id: string }>(
+        "insert into public.categories (name, icon, color) values ('Rent', 'home', '#00f') returning id"
+      );
+      return {
+        transactionId: await insertTransaction(tx, accountId),
+        categoryId: rows[0].id,
+      };
+    });
+
+    await expect(
+      asUser(ALICE, async (tx) => {
+        const accountId = await insertAccount(tx);
+        await insertTransaction(tx, accountId, transactionId);
+      })
+    ).rejects.toThrow(/row-level security/);
+    await expect(
+      asUser(ALICE, (tx) =>
+        tx.query(
+          "insert into public.categories (name, icon, color, parent_id) values ('Flat', 'home', '#00f', $1)",
+          [categoryId]
+        )
+      )
+    ).rejects.toThrow(/row-level security/);
+  });
+});
+
+describe("delete_account", () => {
+  it("moves every transaction before deleting the account", async () => {
+    await asUser(ALICE, async (tx) => {
+      const from = await insertAccount(tx);
+      const to = await insertAccount(tx);
+      await insertTransaction(tx, from);
+      await insertTransaction(tx, from);
+
+      await tx.query("select public.delete_account($1, $2)", [from, to]);
+
+      const { rows } = await tx.query<{ account_id: string }>(
+        "select account_id from public.transactions where account_id in ($1, $2)",
+        [from, to]
+      );
+      expect(rows.map((row) => row.account_id)).toEqual([to, to]);
+      const { rows: left } = await tx.query(
+        "select 1 from public.accounts where id = $1",
+        [from]
+      );
+      expect(left).toHaveLength(0);
+    });
+  });
+
+  it("refuses to delete an account that still has transactions", async () => {
+    await expect(
+      asUser(ALICE, async (tx) => {
+        const accountId = await insertAccount(tx);
+        await insertTransaction(tx, accountId);
+        await tx.query("select public.delete_account($1)", [accountId]);
+      })
+    ).rejects.toThrow(/foreign key/);
+  });
+});
+
+describe("recategorize_transactions", () => {
+  it("renames the category on transactions and their split lines", async () => {
+    await asUser(ALICE, async (tx) => {
+      const accountId = await insertAccount(tx);
+      const { rows } = await tx.query<{ id: number }>(
+        `insert into public.transactions
+          (account_id, type, amount, category, splits)
+        values
+          ($1, 'Expense', -5, 'Snacks', null),
+          ($1, 'Expense', -9, null, $2),
+          ($1, 'Expense', -1, 'Fuel', null)
+        returning id`,
+        [
+          accountId,
+          JSON.stringify([
+            {
+              category: "Fuel",
+              purpose: null,
+              business_percent: null,
+              amount: -4,
+            },
+            {
+              category: "Snacks",
+              purpose: null,
+              business_percent: null,
+              amount: -5,
+            },
+          ]),
+        ]
+      );
+
+      await tx.query("select public.recategorize_transactions($1, $2)", [
+        "Snacks",
+        "Treats",
+      ]);
+
+      const { rows: after } = await tx.query<{
+        category: string | null;
+        splits: { category: string }[] | null;
+      }>(
+        "select category, splits from public.transactions where id = any($1) order by id",
+        [rows.map((row) => row.id)]
+      );
+      expect(after[0].category).toBe("Treats");
+      expect(after[1].splits?.map((line) => line.category)).toEqual([
+        "Fuel",
+        "Treats",
+      ]);
+      expect(after[2].category).toBe("Fuel");
+    });
+  });
+});
+
+describe("history before the cursor", () => {
+  it("replays costing and sums spending up to the cursor", async () => {
+    await asUser(ALICE, async (tx) => {
+      const accountId = await insertAccount(tx);
+      const { rows } = await tx.query<{ id: number }>(
+        `insert into public.transactions
+          (account_id, type, amount, weight_change, category, "timestamp")
+        values
+          ($1, 'Purchase', -100, 10, null, '2026-01-01T10:00:00Z'),
+          ($1, 'Purchase', -300, 10, null, '2026-01-02T10:00:00Z'),
+          ($1, 'Sale', 90, -15, null, '2026-01-03T10:00:00Z'),
+          ($1, 'Expense', -7, 0, 'Fuel', '2026-01-03T11:00:00Z'),
+          ($1, 'Expense', -3, 0, 'Fuel', '2026-01-03T12:00:00Z'),
+          ($1, 'Sale', 50, -5, null, '2026-01-04T10:00:00Z')
+        returning id`,
+        [accountId]
+      );
+      const cursor = ["2026-01-04T10:00:00Z", rows[5].id];
+
+      const { rows: costing } = await tx.query<{
+        state: {
+          revenue: number;
+          cost_of_goods_sold: number;
+          lots: Record<string, { weight: number; unit_cost: number }[]>;
+        };
+      }>(
+        "select public.costing_before($1, $2, 'fifo', 'USD', '[]') as state",
+        cursor
+      );
+      expect(costing[0].state.revenue).toBe(90);
+      expect(costing[0].state.cost_of_goods_sold).toBe(250);
+      expect(costing[0].state.lots[""]).toEqual([{ weight: 5, unit_cost: 30 }]);
+
+      const { rows: expenses } = await tx.query<{
+        day: string;
+        category: string;
+        amount: string;
+      }>(
+        "select day::text, category, amount::text from public.expense_totals_before($1, $2)",
+        cursor
+      );
+      expect(expenses).toEqual([
+        { day: "2026-01-03", category: "Fuel", amount: "-10" },
+      ]);
+    });
+  });
+});